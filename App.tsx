@@ -1,104 +1,401 @@
-import React, { useState, useRef, useCallback } from 'react';
-import type { ImageFile, SummaryReport } from './types';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import type { AnalysisMode, ImageFile, LanguageCode, RedactionRecord, ReportPage, SourceFile, SummaryReport, TextFile, TextSpan } from './types';
+import { useSavedReports } from './hooks/useSavedReports';
+import { useAnalysisJob } from './hooks/useAnalysisJob';
 import { useLocalStorage } from './hooks/useLocalStorage';
-import { generateSummaryFromImages } from './services/geminiService';
+import { useI18n } from './hooks/useI18n';
+import { useLocalOcr } from './hooks/useLocalOcr';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useAnalysisQueue } from './hooks/useAnalysisQueue';
+import { useInstallPrompt } from './hooks/useInstallPrompt';
+import { translateReport, type GeneratedSummary } from './services/aiService';
+import { DEFAULT_LANGUAGES, LANGUAGES, LANGUAGE_CODES, languagesOf } from './services/languages';
+import { SUPPORTED_UPLOAD_TYPES, ingestFile, isImageFile, readWebPage } from './services/documentIngestion';
+import { listReportPages } from './services/reportRepository';
+import { cropImage, fromStoredPages, rotateImage, type CropRect } from './services/imageProcessing';
+import { EMPTY_FILTER, filterLibrary, libraryTags, type LibraryFilter, type LibrarySort, type MatchField } from './services/librarySearch';
+import { PageReadError, createAnalysisJob, jobImages, runAnalysisJob } from './services/analysisPipeline';
+import { OCR_ENGINES, type OcrEngine } from './services/localOcr';
+import { NO_CHOICES, redactSources, type RedactedSources, type RedactionChoices } from './services/redaction';
 import CameraCapture from './components/CameraCapture';
+import SourcePages from './components/SourcePages';
+import PageCropper from './components/PageCropper';
+import OcrReview from './components/OcrReview';
 import ChatAssistant from './components/ChatAssistant';
+import SummaryDisplay, { RiskScoreBadge } from './components/SummaryDisplay';
+import ReportDiffView from './components/ReportDiffView';
+import PageViewer from './components/PageViewer';
+import AnalysisProgress from './components/AnalysisProgress';
+import AnalysisQueue from './components/AnalysisQueue';
+import ExportMenu from './components/ExportMenu';
+import LibraryBackup from './components/LibraryBackup';
+import LibraryFilters from './components/LibraryFilters';
+import ReportLabels from './components/ReportLabels';
+import HighlightedText from './components/HighlightedText';
+import ReportNotes from './components/ReportNotes';
+import RedactionLog from './components/RedactionLog';
+import LibraryChat from './components/LibraryChat';
+import { LanguagePicker } from './components/LanguageTabs';
 import { ArrowLeftIcon, BookOpenIcon, CameraIcon, SaveIcon, SparklesIcon, UploadIcon, XCircleIcon } from './components/icons';
 
-type View = 'scanner' | 'saved' | 'summaryDetail';
+type View = 'scanner' | 'saved' | 'summaryDetail' | 'compare' | 'libraryChat';
+
+const analysisModes: AnalysisMode[] = ['quick', 'thorough'];
+
+const AnalysisModeToggle: React.FC<{ value: AnalysisMode; onChange: (mode: AnalysisMode) => void }> = ({ value, onChange }) => {
+    const { t } = useI18n();
+    return (
+        <div className="flex bg-slate-700 rounded-lg p-1" role="radiogroup" aria-label={t('mode.label')}>
+            {analysisModes.map(mode => (
+                <button
+                    key={mode}
+                    role="radio"
+                    aria-checked={value === mode}
+                    onClick={() => onChange(mode)}
+                    title={t(`mode.${mode}.description`)}
+                    className={`px-4 py-2 rounded-md text-sm font-semibold transition-colors ${value === mode ? 'bg-sky-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}
+                >
+                    {t(`mode.${mode}`)}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+const OcrEngineToggle: React.FC<{ value: OcrEngine; onChange: (engine: OcrEngine) => void }> = ({ value, onChange }) => {
+    const { t } = useI18n();
+    return (
+        <div className="flex bg-slate-700 rounded-lg p-1" role="radiogroup" aria-label={t('ocr.engine.label')}>
+            {OCR_ENGINES.map(engine => (
+                <button
+                    key={engine}
+                    role="radio"
+                    aria-checked={value === engine}
+                    onClick={() => onChange(engine)}
+                    title={t(`ocr.engine.${engine}.description`)}
+                    className={`px-4 py-2 rounded-md text-sm font-semibold transition-colors ${value === engine ? 'bg-sky-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}
+                >
+                    {t(`ocr.engine.${engine}`)}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+const StorageUsageBar: React.FC<{ usage: number; quota: number }> = ({ usage, quota }) => {
+    const { t } = useI18n();
+    const percent = Math.min(100, (usage / quota) * 100);
+    return (
+        <div className="mb-6 text-sm text-slate-400" title={t('storage.hint')}>
+            <div className="flex justify-between mb-1">
+                <span>{t('storage.used')}</span>
+                <span>{t('storage.amount', { used: formatBytes(usage), quota: formatBytes(quota), percent: percent < 1 ? '<1' : Math.round(percent) })}</span>
+            </div>
+            <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className={`h-full ${percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-yellow-500' : 'bg-sky-500'}`} style={{ width: `${percent}%` }} />
+            </div>
+        </div>
+    );
+};
 
 const App: React.FC = () => {
-    const [images, setImages] = useState<ImageFile[]>([]);
+    const { t, lang, setLang, formatDate } = useI18n();
+    const [sources, setSources] = useState<SourceFile[]>([]);
+    const [isImporting, setIsImporting] = useState(false);
     const [summary, setSummary] = useState<SummaryReport | null>(null);
-    const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [isCameraOpen, setIsCameraOpen] = useState(false);
+    /** The page the camera replaces, when retaking one. */
+    const [retakeId, setRetakeId] = useState<string | null>(null);
+    const [croppingId, setCroppingId] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
     const [view, setView] = useState<View>('scanner');
     const [activeSummary, setActiveSummary] = useState<SummaryReport | null>(null);
-    const [savedSummaries, setSavedSummaries] = useLocalStorage<SummaryReport[]>('savedSummaries', []);
+    const { reports: savedSummaries, isLoading: isLibraryLoading, error: storageError, clearError: clearStorageError, usage: storageUsage, saveReport, removeReport, backupLibrary, restoreLibrary } = useSavedReports();
     const [summaryTitle, setSummaryTitle] = useState('');
+    const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('quick');
+    const [highlight, setHighlight] = useState<TextSpan | null>(null);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const [libraryFilter, setLibraryFilter] = useState<LibraryFilter>(EMPTY_FILTER);
+    const [librarySort, setLibrarySort] = useLocalStorage<LibrarySort>('librarySort', 'newest');
+    const libraryResults = useMemo(() => filterLibrary(savedSummaries, libraryFilter, librarySort), [savedSummaries, libraryFilter, librarySort]);
+    const knownTags = useMemo(() => libraryTags(savedSummaries), [savedSummaries]);
+    const [analyzedImages, setAnalyzedImages] = useState<ImageFile[]>([]);
+    const [keepImages, setKeepImages] = useState(true);
+    const [activePages, setActivePages] = useState<ReportPage[]>([]);
+    const [rerunMode, setRerunMode] = useState<AnalysisMode>('thorough');
+    const [rerunModel, setRerunModel] = useState('');
+    const [isRerunning, setIsRerunning] = useState(false);
+    const [rerunError, setRerunError] = useState<string | null>(null);
+    const [pastedText, setPastedText] = useState('');
+    const [targetLanguages, setTargetLanguages] = useLocalStorage<LanguageCode[]>('targetLanguages', DEFAULT_LANGUAGES);
+    const [translateTo, setTranslateTo] = useState<LanguageCode | ''>('');
+    const [isTranslating, setIsTranslating] = useState(false);
+    const analysisJob = useAnalysisJob(job => {
+        // Bring back the pages of an analysis interrupted by a reload, so its result can be saved with them.
+        setSources(job.pages.map(page => page.source));
+        setAnalysisMode(job.mode);
+    });
+    const isLoading = analysisJob.isRunning;
+    const [ocrEngine, setOcrEngine] = useLocalStorage<OcrEngine>('ocrEngine', 'cloud');
+    const localOcr = useLocalOcr();
+    const isOnline = useOnlineStatus();
+    const sourceImages = sources.filter(isImageFile);
+    // Without a connection the cloud model cannot read the pages, so they are read on the device instead.
+    const readsOnDevice = sourceImages.length > 0 && (ocrEngine === 'device' || !isOnline);
+    const [redactPii, setRedactPii] = useLocalStorage<boolean>('redactPii', true);
+    const [redactionChoices, setRedactionChoices] = useState<RedactionChoices>(NO_CHOICES);
+    // Whether the review holds pasted text rather than the scanner's pages.
+    const [reviewingPasted, setReviewingPasted] = useState(false);
+    // With redaction on and the cloud model reading, page images are sent with the details blacked out.
+    const sendsImages = redactPii && ocrEngine === 'cloud' && isOnline;
+    const analysisQueue = useAnalysisQueue(isOnline, saveReport);
+    const { canInstall, install } = useInstallPrompt();
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const webPageInputRef = useRef<HTMLInputElement>(null);
 
-    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         if (event.target.files) {
             // FIX: Explicitly type `files` as an array of `File` objects to fix type inference issues in the forEach loop.
             const files: File[] = Array.from(event.target.files);
-            files.forEach(file => {
-                const reader = new FileReader();
-                reader.onload = (e) => {
-                    if (e.target?.result) {
-                        const newImage: ImageFile = {
-                            id: `${file.name}-${Date.now()}`,
-                            name: file.name,
-                            dataUrl: e.target.result as string,
-                        };
-                        setImages(prev => [...prev, newImage]);
-                    }
-                };
-                reader.readAsDataURL(file);
-            });
+            // Allow the same file to be picked again after it is removed.
+            event.target.value = '';
+            setIsImporting(true);
+            setError(null);
+            // One at a time, so pages keep the order the files were picked in.
+            for (const file of files) {
+                try {
+                    const ingested = await ingestFile(file);
+                    setSources(prev => [...prev, ...ingested]);
+                } catch (e) {
+                    console.error(`Failed to read ${file.name}:`, e);
+                    setError(e instanceof Error && e.message ? e.message : t('scanner.readFileError', { name: file.name }));
+                }
+            }
+            setIsImporting(false);
         }
     };
 
+    /** Loads a saved web page into the paste box, stripped down to its legal text, so it can be reviewed first. */
+    const handleWebPageImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setIsImporting(true);
+        setError(null);
+        try {
+            const page = await readWebPage(file);
+            setPastedText(page.text);
+        } catch (e) {
+            console.error(`Failed to read ${file.name}:`, e);
+            setError(e instanceof Error && e.message ? e.message : t('scanner.readFileError', { name: file.name }));
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    /** Adds a photo as the last page, or puts it in place of the page being retaken. */
     const handleCameraCapture = (dataUrl: string) => {
-        const newImage: ImageFile = {
+        if (retakeId) {
+            setSources(prev => prev.map(source => source.id === retakeId ? { ...source, dataUrl } : source));
+            return;
+        }
+        // Captures can follow each other quickly in continuous mode, so number them from the latest list.
+        setSources(prev => [...prev, {
             id: `capture-${Date.now()}`,
-            name: `Capture ${images.length + 1}.png`,
+            name: `${t('scanner.captureName', { number: prev.length + 1 })}.${dataUrl.startsWith('data:image/webp') ? 'webp' : 'jpg'}`,
             dataUrl,
-        };
-        setImages(prev => [...prev, newImage]);
+        }]);
+    };
+
+    const closeCamera = () => {
         setIsCameraOpen(false);
+        setRetakeId(null);
+    };
+
+    const retakeSource = (id: string) => {
+        setRetakeId(id);
+        setIsCameraOpen(true);
+    };
+
+    const removeSource = (id: string) => {
+        setSources(prev => prev.filter(source => source.id !== id));
     };
 
-    const removeImage = (id: string) => {
-        setImages(prev => prev.filter(img => img.id !== id));
+    const moveSource = (from: number, to: number) => {
+        setSources(prev => {
+            if (to < 0 || to >= prev.length) return prev;
+            const next = [...prev];
+            const [moved] = next.splice(from, 1);
+            next.splice(to, 0, moved);
+            return next;
+        });
     };
 
-    const handleSummarize = async () => {
-        if (images.length === 0) return;
-        setIsLoading(true);
+    /** Replaces a page image with an edited copy; the page keeps its place and name. */
+    const editSource = async (id: string, edit: (dataUrl: string) => Promise<string>) => {
+        const source = sources.find(candidate => candidate.id === id);
+        if (!source || !isImageFile(source)) return;
+        setEditingId(id);
+        try {
+            const dataUrl = await edit(source.dataUrl);
+            setSources(prev => prev.map(candidate => candidate.id === id ? { ...candidate, dataUrl } : candidate));
+        } catch (e) {
+            console.error(`Failed to edit ${source.name}:`, e);
+            setError(t('scanner.editError', { name: source.name }));
+        } finally {
+            setEditingId(null);
+        }
+    };
+
+    const applyCrop = (rect: CropRect) => {
+        const id = croppingId;
+        setCroppingId(null);
+        if (id) editSource(id, dataUrl => cropImage(dataUrl, rect));
+    };
+
+    const runAnalysis = async (analyse: () => Promise<GeneratedSummary | null>, images: ImageFile[], redactions: RedactionRecord[] = []) => {
         setError(null);
         setSummary(null);
+        setHighlight(null);
         try {
-            const result = await generateSummaryFromImages(images);
+            const result = await analyse();
+            // Cancelled: the job is gone and there is nothing to show.
+            if (!result) return;
+            setAnalyzedImages(images);
             const newSummary: SummaryReport = {
                 id: `summary-${Date.now()}`,
-                title: `Summary ${new Date().toLocaleString()}`,
+                title: t('scanner.defaultTitle', { date: formatDate(new Date().toISOString()) }),
                 timestamp: new Date().toISOString(),
+                redactions: redactions.length ? redactions : undefined,
                 ...result,
             };
             setSummary(newSummary);
             setSummaryTitle(newSummary.title);
         // FIX: Improved error handling to be more type-safe.
         } catch (e) {
-            if (e instanceof Error) {
-                setError(e.message || "An unknown error occurred.");
+            if (e instanceof PageReadError) {
+                setError(t('scanner.pagesNotRead', { count: e.failedPages }));
+            } else if (e instanceof Error) {
+                setError(e.message || t('common.unknownError'));
             } else {
-                setError("An unknown error occurred.");
+                setError(t('common.unknownError'));
             }
-        } finally {
-            setIsLoading(false);
         }
     };
 
-    const saveSummary = () => {
+    /**
+     * Analyses `toSend` now or, while offline, queues it to be analysed and
+     * saved once the connection is back. Resolves to whether it was queued.
+     */
+    const analyseOrQueue = async (toSend: SourceFile[], images: ImageFile[], redactions: RedactionRecord[] = []): Promise<boolean> => {
+        if (isOnline) {
+            runAnalysis(() => analysisJob.start(toSend, analysisMode, targetLanguages, redactions), images, redactions);
+            return false;
+        }
+        const queuedAt = new Date().toISOString();
+        try {
+            await analysisQueue.enqueue({
+                id: `queued-${Date.now()}`,
+                queuedAt,
+                title: t('scanner.defaultTitle', { date: formatDate(queuedAt) }),
+                job: createAnalysisJob(toSend, analysisMode, targetLanguages),
+                images: keepImages ? images : [],
+                redactions: redactions.length ? redactions : undefined,
+            });
+        } catch (e) {
+            setError(e instanceof Error && e.message ? e.message : t('common.unknownError'));
+            return false;
+        }
+        setError(null);
+        return true;
+    };
+
+    /** Reads the pages on the device where needed and holds everything for review before it is sent. */
+    const startReview = (input: SourceFile[], pasted: boolean) => {
+        setReviewingPasted(pasted);
+        setRedactionChoices(NO_CHOICES);
+        localOcr.run(input);
+    };
+
+    const handleSummarize = () => {
+        if (sources.length === 0) return;
+        if (readsOnDevice || redactPii) {
+            startReview(sources, false);
+            return;
+        }
+        analyseOrQueue(sources, sourceImages).then(queued => {
+            if (queued) setSources([]);
+        });
+    };
+
+    /**
+     * Sends what was reviewed, in page order: page images either masked or
+     * replaced by their checked text, and text with the chosen details
+     * removed. Only the masked images are kept with the report.
+     */
+    const sendReviewed = async () => {
+        // Pages added or changed since they were read are left out; the review points them out.
+        const reviewed = reviewingPasted ? localOcr.sources : sources.filter(source => localOcr.sources.includes(source));
+        let prepared: RedactedSources;
+        try {
+            prepared = await redactSources(reviewed, localOcr.pages ?? [], redactPii ? redactionChoices : null, sendsImages);
+        } catch (e) {
+            console.error('Failed to mask the pages:', e);
+            setError(t('redaction.maskError'));
+            return;
+        }
+        localOcr.clear();
+        if (!(await analyseOrQueue(prepared.sent, prepared.images, prepared.records))) return;
+        if (reviewingPasted) setPastedText('');
+        else setSources(prev => prev.filter(source => !reviewed.includes(source)));
+    };
+
+    /** Pasted or imported text is already readable, so its job skips the upload and OCR stages. */
+    const handleSummarizeText = () => {
+        const text = pastedText.trim();
+        if (!text) return;
+        const source: TextFile = { id: `pasted-${Date.now()}`, name: t('scanner.pastedText'), text };
+        if (redactPii) {
+            startReview([source], true);
+            return;
+        }
+        analyseOrQueue([source], []).then(queued => {
+            if (queued) setPastedText('');
+        });
+    };
+
+    /** Continues a paused or interrupted job; pages already read and parts already analysed are kept. */
+    const resumeAnalysis = () => {
+        if (!analysisJob.job) return;
+        runAnalysis(analysisJob.resume, jobImages(analysisJob.job), analysisJob.job.redactions);
+    };
+
+    const saveSummary = async () => {
         if (summary) {
             const isSaved = savedSummaries.some(s => s.id === summary.id);
             if (!isSaved) {
                 const summaryToSave = { ...summary, title: summaryTitle || summary.title };
-                setSavedSummaries([summaryToSave, ...savedSummaries]);
-                alert('Summary saved!');
+                if (await saveReport(summaryToSave, keepImages ? analyzedImages : undefined)) {
+                    alert(t('scanner.saved'));
+                }
             } else {
-                 alert('Summary is already saved.');
+                 alert(t('scanner.alreadySaved'));
             }
         }
     };
 
-    const deleteSummary = (id: string) => {
-        if(window.confirm('Are you sure you want to delete this summary?')) {
-            setSavedSummaries(savedSummaries.filter(s => s.id !== id));
+    const deleteSummary = async (id: string) => {
+        if(window.confirm(t('saved.confirmDelete'))) {
+            if (!(await removeReport(id))) return;
+            setCompareIds(prev => prev.filter(compareId => compareId !== id));
             if(activeSummary?.id === id) {
                 setView('saved');
                 setActiveSummary(null);
@@ -108,24 +405,104 @@ const App: React.FC = () => {
     
     const showSummaryDetail = (summaryToShow: SummaryReport) => {
         setActiveSummary(summaryToShow);
+        setTranslateTo('');
+        setHighlight(null);
         setView('summaryDetail');
     }
 
+    useEffect(() => {
+        setActivePages([]);
+        setRerunError(null);
+        if (!activeSummary?.page_count) return;
+        let cancelled = false;
+        listReportPages(activeSummary.id)
+            .then(pages => { if (!cancelled) setActivePages(pages); })
+            .catch(e => { if (!cancelled) setRerunError(e instanceof Error ? e.message : t('detail.loadPagesError')); });
+        return () => { cancelled = true; };
+    }, [activeSummary]);
+
+    /** Analyses a saved report's original pages again and saves the result as a new report. */
+    // Pages read from a PDF's text layer are not kept as images, so a re-run would only see the scanned ones.
+    const hasTextPages = !!activeSummary?.source_count && activeSummary.source_count > activePages.length;
+
+    const rerunAnalysis = async () => {
+        if (!activeSummary || activePages.length === 0 || hasTextPages) return;
+        setIsRerunning(true);
+        setRerunError(null);
+        try {
+            const pageImages = await fromStoredPages(activePages);
+            const model = rerunModel.trim() || undefined;
+            const result = await runAnalysisJob(createAnalysisJob(pageImages, rerunMode, languagesOf(activeSummary.summary), model), { onUpdate: () => {} });
+            const rerun: SummaryReport = {
+                id: `summary-${Date.now()}`,
+                title: `${activeSummary.title} (${t(`mode.${rerunMode as AnalysisMode}`)}${rerunModel.trim() ? `, ${rerunModel.trim()}` : ''})`,
+                timestamp: new Date().toISOString(),
+                // The stored pages are the masked ones, so what was left out then is left out again.
+                redactions: activeSummary.redactions,
+                ...result,
+            };
+            if (await saveReport(rerun, pageImages)) {
+                showSummaryDetail({ ...rerun, page_count: pageImages.length });
+            }
+        } catch (e) {
+            setRerunError(e instanceof Error && e.message ? e.message : t('common.unknownError'));
+        } finally {
+            setIsRerunning(false);
+        }
+    };
+
+    /** Translates a saved report into one more language and saves it in place. */
+    const addTranslation = async () => {
+        if (!activeSummary || !translateTo) return;
+        setIsTranslating(true);
+        setRerunError(null);
+        try {
+            const translated = await translateReport(activeSummary, [translateTo]);
+            if (await saveReport(translated)) {
+                setActiveSummary(translated);
+                setTranslateTo('');
+            }
+        } catch (e) {
+            setRerunError(e instanceof Error && e.message ? e.message : t('common.unknownError'));
+        } finally {
+            setIsTranslating(false);
+        }
+    };
+
+    /** Saves changes the user made to the report being viewed, such as its tags or notes. */
+    const updateActiveSummary = async (changes: Partial<SummaryReport>) => {
+        if (!activeSummary) return;
+        const updated = { ...activeSummary, ...changes };
+        if (await saveReport(updated)) {
+            setActiveSummary(updated);
+        }
+    };
+
+    const toggleCompare = (id: string) => {
+        setCompareIds(prev => {
+            if (prev.includes(id)) return prev.filter(compareId => compareId !== id);
+            // Keep the most recent pick when a third report is ticked.
+            return [...prev, id].slice(-2);
+        });
+    };
+
     const resetScanner = () => {
-        setImages([]);
+        setSources([]);
+        setPastedText('');
+        setAnalyzedImages([]);
         setSummary(null);
         setError(null);
-        setIsLoading(false);
         setSummaryTitle('');
+        setHighlight(null);
     };
 
     const renderScanner = () => (
         <div className="w-full max-w-4xl mx-auto p-4 md:p-6">
             <div className="text-center mb-8">
                 <h1 className="text-4xl md:text-5xl font-extrabold bg-clip-text text-transparent bg-gradient-to-r from-sky-400 to-teal-300">
-                    T&C Summarizer
+                    {t('app.title')}
                 </h1>
-                <p className="mt-2 text-slate-400">Scan terms and conditions to get a simple summary.</p>
+                <p className="mt-2 text-slate-400">{t('app.tagline')}</p>
             </div>
 
             <div className="bg-slate-800 rounded-xl shadow-2xl p-6">
@@ -135,58 +512,130 @@ const App: React.FC = () => {
                         className="flex flex-col items-center justify-center p-6 bg-slate-700 rounded-lg hover:bg-sky-700 transition-all duration-300 transform hover:scale-105"
                     >
                         <CameraIcon className="w-12 h-12 text-sky-300 mb-2" />
-                        <span className="font-semibold">Use Camera</span>
+                        <span className="font-semibold">{t('scanner.useCamera')}</span>
                     </button>
                     <button
                         onClick={() => fileInputRef.current?.click()}
                         className="flex flex-col items-center justify-center p-6 bg-slate-700 rounded-lg hover:bg-teal-700 transition-all duration-300 transform hover:scale-105"
                     >
                         <UploadIcon className="w-12 h-12 text-teal-300 mb-2" />
-                        <span className="font-semibold">Upload Images</span>
+                        <span className="font-semibold">{isImporting ? t('scanner.readingFiles') : t('scanner.uploadFiles')}</span>
+                        <span className="text-xs text-slate-400 mt-1">{t('scanner.uploadTypes')}</span>
                     </button>
                     <input
                         type="file"
                         ref={fileInputRef}
                         onChange={handleFileChange}
                         multiple
-                        accept="image/*"
+                        accept={SUPPORTED_UPLOAD_TYPES}
                         className="hidden"
                     />
                 </div>
                 
-                {images.length > 0 && (
-                    <div className="mb-6">
-                        <h3 className="font-bold text-lg mb-2 text-slate-300">Selected Images:</h3>
-                        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-                            {images.map(img => (
-                                <div key={img.id} className="relative group">
-                                    <img src={img.dataUrl} alt={img.name} className="rounded-md w-full h-24 object-cover" />
-                                    <button onClick={() => removeImage(img.id)} className="absolute top-1 right-1 bg-black bg-opacity-50 rounded-full text-white p-1 hover:bg-opacity-75 opacity-0 group-hover:opacity-100 transition-opacity">
-                                        <XCircleIcon className="w-5 h-5" />
-                                    </button>
-                                </div>
-                            ))}
+                {sources.length > 0 && (
+                    <SourcePages
+                        sources={sources}
+                        onMove={moveSource}
+                        onRemove={removeSource}
+                        onRotate={(id) => editSource(id, dataUrl => rotateImage(dataUrl, 1))}
+                        onCrop={setCroppingId}
+                        onRetake={retakeSource}
+                        busyId={editingId}
+                    />
+                )}
+
+                {(localOcr.pages || localOcr.progress || localOcr.error) && (
+                    <OcrReview
+                        sources={localOcr.sources}
+                        pages={localOcr.pages}
+                        progress={localOcr.progress}
+                        error={localOcr.error}
+                        unreadCount={reviewingPasted ? 0 : sources.filter(source => !localOcr.sources.includes(source)).length}
+                        isOnline={isOnline}
+                        isAnalyzing={isLoading}
+                        redact={redactPii}
+                        sendsImages={sendsImages}
+                        choices={redactionChoices}
+                        onChangeChoices={setRedactionChoices}
+                        onChangeText={localOcr.updateText}
+                        onReadAgain={() => startReview(sources, false)}
+                        onSummarize={sendReviewed}
+                        onDiscard={localOcr.clear}
+                    />
+                )}
+
+                <details className="mb-6 bg-slate-900/50 rounded-lg" open={pastedText.length > 0 || undefined}>
+                    <summary className="cursor-pointer p-4 font-semibold text-slate-300">{t('scanner.pasteToggle')}</summary>
+                    <div className="px-4 pb-4 space-y-3">
+                        <textarea
+                            value={pastedText}
+                            onChange={(e) => setPastedText(e.target.value)}
+                            placeholder={t('scanner.pastePlaceholder')}
+                            rows={8}
+                            className="w-full bg-slate-800 border border-slate-700 rounded-lg p-3 text-sm text-slate-300 focus:border-sky-500 outline-none"
+                        />
+                        <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+                            <button
+                                onClick={() => webPageInputRef.current?.click()}
+                                disabled={isImporting}
+                                className="flex items-center px-4 py-2 bg-slate-700 hover:bg-teal-700 rounded-lg transition-colors text-teal-300 text-sm disabled:opacity-50"
+                            >
+                                <UploadIcon className="w-5 h-5 me-2" />
+                                {t('scanner.importHtml')}
+                            </button>
+                            <input
+                                type="file"
+                                ref={webPageInputRef}
+                                onChange={handleWebPageImport}
+                                accept=".html,.htm,.mhtml,.mht,text/html"
+                                className="hidden"
+                            />
+                            <button
+                                onClick={handleSummarizeText}
+                                disabled={!pastedText.trim() || isLoading || isImporting}
+                                className="flex items-center px-4 py-2 bg-sky-600 hover:bg-sky-500 rounded-lg transition-colors font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <SparklesIcon className="w-5 h-5 me-2" />
+                                {isLoading ? t('common.analyzing') : !redactPii && !isOnline ? t('queue.add') : t('scanner.summarizeText')}
+                            </button>
                         </div>
                     </div>
-                )}
+                </details>
 
-                <div className="flex justify-center">
+                <div className="flex justify-center mb-4">
+                    <LanguagePicker value={targetLanguages} onChange={setTargetLanguages} />
+                </div>
+                <div className="flex flex-col md:flex-row items-center justify-center gap-4">
+                    <AnalysisModeToggle value={analysisMode} onChange={setAnalysisMode} />
+                    {sourceImages.length > 0 && <OcrEngineToggle value={ocrEngine} onChange={setOcrEngine} />}
                     <button
                         onClick={handleSummarize}
-                        disabled={images.length === 0 || isLoading}
+                        disabled={sources.length === 0 || isLoading || isImporting || localOcr.isRunning}
                         className="flex items-center justify-center w-full md:w-auto px-8 py-4 bg-gradient-to-r from-sky-500 to-teal-500 text-white font-bold rounded-lg shadow-lg hover:scale-105 transition-transform disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                        <SparklesIcon className="w-6 h-6 mr-2" />
-                        {isLoading ? 'Analyzing...' : 'Summarize'}
+                        <SparklesIcon className="w-6 h-6 me-2" />
+                        {isLoading ? t('common.analyzing') : readsOnDevice || redactPii ? t(sourceImages.length ? 'ocr.read' : 'redaction.review') : isOnline ? t('scanner.summarize') : t('queue.add')}
                     </button>
                 </div>
+                <label className="mt-4 flex items-center justify-center gap-2 text-sm text-slate-300" title={t('redaction.toggleHint')}>
+                    <input type="checkbox" checked={redactPii} onChange={(e) => setRedactPii(e.target.checked)} className="accent-sky-500" />
+                    {t('redaction.toggle')}
+                </label>
+                {!isOnline && sourceImages.length > 0 && ocrEngine === 'cloud' && (
+                    <p className="mt-3 text-center text-sm text-slate-400">{t('ocr.offlineFallback')}</p>
+                )}
             </div>
 
-            {isLoading && (
-                 <div className="mt-8 text-center">
-                    <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-sky-400"></div>
-                    <p className="mt-4 text-slate-400">AI is reading the fine print... this may take a moment.</p>
-                </div>
+            <AnalysisQueue
+                entries={analysisQueue.entries}
+                errors={analysisQueue.errors}
+                runningId={analysisQueue.runningId}
+                isOnline={isOnline}
+                onRetry={analysisQueue.retry}
+                onRemove={analysisQueue.remove}
+            />
+            {analysisJob.job && (
+                <AnalysisProgress job={analysisJob.job} isRunning={isLoading} onResume={resumeAnalysis} onCancel={analysisJob.cancel} />
             )}
             {error && <div className="mt-8 bg-red-900/50 border border-red-700 text-red-300 p-4 rounded-lg text-center">{error}</div>}
             
@@ -197,17 +646,30 @@ const App: React.FC = () => {
                             type="text" 
                             value={summaryTitle} 
                             onChange={(e) => setSummaryTitle(e.target.value)}
-                            className="text-2xl font-bold bg-transparent border-b-2 border-slate-700 focus:border-sky-500 outline-none w-full mr-4"
+                            aria-label={t('scanner.titleLabel')}
+                            className="text-2xl font-bold bg-transparent border-b-2 border-slate-700 focus:border-sky-500 outline-none w-full me-4"
                         />
+                        <label className="flex items-center me-4 text-sm text-slate-400 whitespace-nowrap" title={t('scanner.keepImagesHint')}>
+                            <input type="checkbox" checked={keepImages} onChange={(e) => setKeepImages(e.target.checked)} className="me-2 accent-sky-500" />
+                            {t('scanner.keepImages')}
+                        </label>
                         <button onClick={saveSummary} className="flex items-center px-4 py-2 bg-slate-700 hover:bg-sky-700 rounded-lg transition-colors text-sky-300">
-                            <SaveIcon className="w-5 h-5 mr-2" />
-                            Save
+                            <SaveIcon className="w-5 h-5 me-2" />
+                            {t('scanner.save')}
                         </button>
                     </div>
-                    <SummaryDisplay summary={summary} />
-                    <ChatAssistant documentContext={summary.full_text} />
+                    <div className="mb-4">
+                        <ExportMenu report={{ ...summary, title: summaryTitle || summary.title }} />
+                    </div>
+                    <SummaryDisplay summary={summary} highlight={highlight} onHighlight={setHighlight} />
+                    <ChatAssistant
+                        key={summary.id}
+                        documentContext={summary.full_text}
+                        reportId={savedSummaries.some(s => s.id === summary.id) ? summary.id : undefined}
+                        onCitationClick={setHighlight}
+                    />
                     <div className="text-center mt-6">
-                        <button onClick={resetScanner} className="text-sky-400 hover:text-sky-300 font-semibold">Start New Scan</button>
+                        <button onClick={resetScanner} className="text-sky-400 hover:text-sky-300 font-semibold">{t('scanner.startNew')}</button>
                     </div>
                 </div>
             )}
@@ -216,20 +678,88 @@ const App: React.FC = () => {
 
     const renderSaved = () => (
         <div className="w-full max-w-4xl mx-auto p-4 md:p-6">
-            <h1 className="text-4xl font-bold text-center mb-8 text-sky-300">Saved Summaries</h1>
-            {savedSummaries.length === 0 ? (
-                <p className="text-center text-slate-400">You have no saved summaries.</p>
+            <h1 className="text-4xl font-bold text-center mb-8 text-sky-300">{t('saved.heading')}</h1>
+            <AnalysisQueue
+                entries={analysisQueue.entries}
+                errors={analysisQueue.errors}
+                runningId={analysisQueue.runningId}
+                isOnline={isOnline}
+                onRetry={analysisQueue.retry}
+                onRemove={analysisQueue.remove}
+            />
+            {savedSummaries.length > 1 && (
+                <div className="flex items-center justify-between mb-4 text-sm text-slate-400">
+                    <span>{t('saved.compareHint')}</span>
+                    <button
+                        onClick={() => setView('compare')}
+                        disabled={compareIds.length !== 2}
+                        className="px-4 py-2 bg-teal-600 hover:bg-teal-500 text-white rounded-md font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t('saved.compare', { count: compareIds.length })}
+                    </button>
+                </div>
+            )}
+            {storageUsage && storageUsage.quota > 0 && (
+                <StorageUsageBar usage={storageUsage.usage} quota={storageUsage.quota} />
+            )}
+            <LibraryBackup onBackup={backupLibrary} onRestore={restoreLibrary} />
+            {savedSummaries.length > 0 && (
+                <LibraryFilters filter={libraryFilter} onFilterChange={setLibraryFilter} sort={librarySort} onSortChange={setLibrarySort} tags={knownTags} />
+            )}
+            {isLibraryLoading ? (
+                <p className="text-center text-slate-400">{t('saved.loading')}</p>
+            ) : savedSummaries.length === 0 ? (
+                <p className="text-center text-slate-400">{t('saved.empty')}</p>
+            ) : libraryResults.length === 0 ? (
+                <p className="text-center text-slate-400">{t('library.noMatches')}</p>
             ) : (
                 <div className="space-y-4">
-                    {savedSummaries.map(s => (
-                         <div key={s.id} className="bg-slate-800 p-4 rounded-lg flex justify-between items-center shadow-lg">
-                             <div>
-                                <h3 className="font-bold text-lg text-white">{s.title}</h3>
-                                <p className="text-sm text-slate-400">{new Date(s.timestamp).toLocaleString()}</p>
+                    {libraryResults.length < savedSummaries.length && (
+                        <p className="text-sm text-slate-400">{t('library.showing', { count: libraryResults.length, total: savedSummaries.length })}</p>
+                    )}
+                    {libraryResults.map(({ report: s, titleMatches, companyMatches, snippet }) => (
+                         <div key={s.id} className="bg-slate-800 p-4 rounded-lg flex justify-between items-center gap-4 shadow-lg">
+                             <div className="flex items-center gap-4 min-w-0">
+                                {savedSummaries.length > 1 && (
+                                    <input
+                                        type="checkbox"
+                                        checked={compareIds.includes(s.id)}
+                                        onChange={() => toggleCompare(s.id)}
+                                        aria-label={t('saved.selectForComparison', { title: s.title })}
+                                        className="w-5 h-5 accent-teal-500"
+                                    />
+                                )}
+                                {s.risk_score !== undefined && <RiskScoreBadge score={s.risk_score} />}
+                                <div className="min-w-0">
+                                    <h3 className="font-bold text-lg text-white"><HighlightedText text={s.title} matches={titleMatches} /></h3>
+                                    <p className="text-sm text-slate-400">
+                                        {s.company && <span className="me-2 text-slate-300"><HighlightedText text={s.company} matches={companyMatches} /></span>}
+                                        {formatDate(s.timestamp)}
+                                    </p>
+                                    {s.tags?.length ? (
+                                        <div className="flex flex-wrap gap-1 mt-1">
+                                            {s.tags.map(tag => (
+                                                <button
+                                                    key={tag}
+                                                    onClick={() => setLibraryFilter(prev => ({ ...prev, tag }))}
+                                                    className="px-2 py-0.5 text-xs bg-teal-900/60 text-teal-200 hover:bg-teal-800 rounded-full"
+                                                >
+                                                    {tag}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    ) : null}
+                                    {snippet && (
+                                        <p className="mt-1 text-sm text-slate-400 truncate" dir="auto">
+                                            <span className="me-1 text-slate-500">{t(`library.match.${snippet.field as MatchField}`)}:</span>
+                                            <HighlightedText text={snippet.text} matches={snippet.matches} />
+                                        </p>
+                                    )}
+                                </div>
                             </div>
-                            <div className="flex space-x-2">
-                                <button onClick={() => showSummaryDetail(s)} className="px-3 py-1 bg-sky-600 hover:bg-sky-500 rounded-md text-sm font-semibold">View</button>
-                                <button onClick={() => deleteSummary(s.id)} className="px-3 py-1 bg-red-800 hover:bg-red-700 rounded-md text-sm font-semibold">Delete</button>
+                            <div className="flex gap-2 shrink-0">
+                                <button onClick={() => showSummaryDetail(s)} className="px-3 py-1 bg-sky-600 hover:bg-sky-500 rounded-md text-sm font-semibold">{t('saved.view')}</button>
+                                <button onClick={() => deleteSummary(s.id)} className="px-3 py-1 bg-red-800 hover:bg-red-700 rounded-md text-sm font-semibold">{t('saved.delete')}</button>
                             </div>
                          </div>
                     ))}
@@ -243,17 +773,118 @@ const App: React.FC = () => {
         return (
             <div className="w-full max-w-4xl mx-auto p-4 md:p-6">
                 <button onClick={() => setView('saved')} className="flex items-center mb-4 text-sky-400 hover:text-sky-300">
-                    <ArrowLeftIcon className="w-5 h-5 mr-2"/>
-                    Back to Saved List
+                    <ArrowLeftIcon className="w-5 h-5 me-2 rtl:rotate-180"/>
+                    {t('common.back')}
                 </button>
                 <h1 className="text-3xl font-bold mb-2 text-white">{activeSummary.title}</h1>
-                <p className="text-sm text-slate-400 mb-6">Saved on {new Date(activeSummary.timestamp).toLocaleString()}</p>
-                <SummaryDisplay summary={activeSummary} />
-                <ChatAssistant documentContext={activeSummary.full_text} />
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                    <p className="text-sm text-slate-400">{t('detail.savedOn', { date: formatDate(activeSummary.timestamp) })}</p>
+                    <ExportMenu report={activeSummary} />
+                </div>
+                <ReportLabels report={activeSummary} knownTags={knownTags} onChange={updateActiveSummary} />
+                <SummaryDisplay summary={activeSummary} highlight={highlight} onHighlight={setHighlight} />
+                {LANGUAGE_CODES.some(code => !activeSummary.summary[code]) && (
+                    <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+                        <select
+                            value={translateTo}
+                            onChange={(e) => setTranslateTo(e.target.value as LanguageCode | '')}
+                            className="bg-slate-700 border border-slate-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-sky-500 focus:outline-none"
+                        >
+                            <option value="">{t('detail.addTranslation')}</option>
+                            {LANGUAGE_CODES.filter(code => !activeSummary.summary[code]).map(code => (
+                                <option key={code} value={code}>{LANGUAGES[code].nativeName} ({LANGUAGES[code].name})</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={addTranslation}
+                            disabled={!translateTo || isTranslating || !isOnline}
+                            className="px-4 py-2 bg-slate-700 hover:bg-sky-700 rounded-lg text-sky-300 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isTranslating ? t('detail.translating') : t('detail.translate')}
+                        </button>
+                    </div>
+                )}
+                {activePages.length > 0 && (
+                    <details className="mt-8 bg-slate-800 rounded-xl shadow-2xl p-6">
+                        <summary className="text-xl font-bold text-sky-300 cursor-pointer">{t('detail.originalPages', { count: activePages.length })}</summary>
+                        <div className="mt-4 space-y-6">
+                            <PageViewer pages={activePages} />
+                            <div className="border-t border-slate-700 pt-4">
+                                <h3 className="font-semibold text-slate-300 mb-3">{t('detail.rerunHeading')}</h3>
+                                <div className="flex flex-col md:flex-row items-stretch md:items-center gap-3">
+                                    <AnalysisModeToggle value={rerunMode} onChange={setRerunMode} />
+                                    <input
+                                        type="text"
+                                        value={rerunModel}
+                                        onChange={(e) => setRerunModel(e.target.value)}
+                                        placeholder={t('detail.rerunModel')}
+                                        className="flex-1 bg-slate-700 border border-slate-600 rounded-md px-3 py-2 text-white placeholder-slate-400 focus:ring-2 focus:ring-sky-500 focus:outline-none"
+                                    />
+                                    <button
+                                        onClick={rerunAnalysis}
+                                        disabled={isRerunning || !isOnline || hasTextPages}
+                                        className="flex items-center justify-center px-4 py-2 bg-gradient-to-r from-sky-500 to-teal-500 text-white font-bold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        <SparklesIcon className="w-5 h-5 me-2" />
+                                        {isRerunning ? t('common.analyzing') : t('detail.rerun')}
+                                    </button>
+                                </div>
+                                <p className="mt-2 text-xs text-slate-500">{hasTextPages ? t('detail.rerunPartial') : t('detail.rerunHint')}</p>
+                            </div>
+                        </div>
+                    </details>
+                )}
+                <RedactionLog redactions={activeSummary.redactions ?? []} />
+                {rerunError && <div className="mt-4 bg-red-900/50 border border-red-700 text-red-300 p-4 rounded-lg text-center">{rerunError}</div>}
+                <ReportNotes
+                    notes={activeSummary.notes ?? []}
+                    onRemove={id => updateActiveSummary({ notes: activeSummary.notes?.filter(note => note.id !== id) })}
+                    onCitationClick={setHighlight}
+                />
+                <ChatAssistant
+                    key={activeSummary.id}
+                    documentContext={activeSummary.full_text}
+                    reportId={activeSummary.id}
+                    onCitationClick={setHighlight}
+                    onPin={note => updateActiveSummary({ notes: [...(activeSummary.notes ?? []), note] })}
+                    notes={activeSummary.notes}
+                />
             </div>
         );
     };
 
+    const renderCompare = () => {
+        const reports = compareIds.map(id => savedSummaries.find(s => s.id === id)).filter((s): s is SummaryReport => !!s);
+        if (reports.length !== 2) return null;
+        return (
+            <div className="w-full max-w-6xl mx-auto p-4 md:p-6">
+                <button onClick={() => setView('saved')} className="flex items-center mb-4 text-sky-400 hover:text-sky-300">
+                    <ArrowLeftIcon className="w-5 h-5 me-2 rtl:rotate-180"/>
+                    {t('common.back')}
+                </button>
+                <h1 className="text-3xl font-bold mb-6 text-white">{t('compare.heading')}</h1>
+                <ReportDiffView reports={[reports[0], reports[1]]} />
+            </div>
+        );
+    };
+
+    const renderLibraryChat = () => (
+        <div className="w-full max-w-4xl mx-auto p-4 md:p-6">
+            <h1 className="text-4xl font-bold text-center mb-8 text-sky-300">{t('libraryChat.heading')}</h1>
+            {savedSummaries.length === 0 ? (
+                <p className="text-center text-slate-400">{t('saved.empty')}</p>
+            ) : (
+                <LibraryChat
+                    reports={savedSummaries}
+                    onOpenReport={(report, span) => {
+                        showSummaryDetail(report);
+                        if (span) setHighlight(span);
+                    }}
+                />
+            )}
+        </div>
+    );
+
     const renderView = () => {
         switch (view) {
             case 'scanner':
@@ -262,6 +893,10 @@ const App: React.FC = () => {
                 return renderSaved();
             case 'summaryDetail':
                 return renderSummaryDetail();
+            case 'compare':
+                return renderCompare();
+            case 'libraryChat':
+                return renderLibraryChat();
             default:
                 return renderScanner();
         }
@@ -272,72 +907,55 @@ const App: React.FC = () => {
             <nav className="bg-slate-900/50 backdrop-blur-sm sticky top-0 z-40">
                 <div className="max-w-4xl mx-auto px-4">
                     <div className="flex items-center justify-center h-16">
-                         <div className="flex items-baseline space-x-4">
+                         <div className="flex items-baseline gap-4">
                               <button onClick={() => { setView('scanner'); resetScanner(); }} className={`px-3 py-2 rounded-md text-sm font-medium ${view === 'scanner' ? 'bg-sky-600 text-white' : 'text-slate-300 hover:bg-slate-700'}`}>
-                                Scanner
+                                {t('nav.scanner')}
                               </button>
-                              <button onClick={() => setView('saved')} className={`px-3 py-2 rounded-md text-sm font-medium ${view === 'saved' || view === 'summaryDetail' ? 'bg-sky-600 text-white' : 'text-slate-300 hover:bg-slate-700'}`}>
-                                Saved Summaries ({savedSummaries.length})
+                              <button onClick={() => setView('saved')} className={`px-3 py-2 rounded-md text-sm font-medium ${view === 'saved' || view === 'summaryDetail' || view === 'compare' ? 'bg-sky-600 text-white' : 'text-slate-300 hover:bg-slate-700'}`}>
+                                {t('nav.saved', { count: savedSummaries.length })}
                               </button>
+                              <button onClick={() => setView('libraryChat')} className={`px-3 py-2 rounded-md text-sm font-medium ${view === 'libraryChat' ? 'bg-sky-600 text-white' : 'text-slate-300 hover:bg-slate-700'}`}>
+                                {t('nav.libraryChat')}
+                              </button>
+                              {canInstall && (
+                                  <button onClick={install} className="px-3 py-2 rounded-md text-sm font-medium text-teal-300 hover:bg-slate-700">
+                                      {t('nav.install')}
+                                  </button>
+                              )}
+                              <select
+                                  value={lang}
+                                  onChange={(e) => setLang(e.target.value as LanguageCode)}
+                                  aria-label={t('nav.language')}
+                                  className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-300 focus:ring-2 focus:ring-sky-500 focus:outline-none"
+                              >
+                                  {LANGUAGE_CODES.map(code => <option key={code} value={code} lang={code}>{LANGUAGES[code].nativeName}</option>)}
+                              </select>
                          </div>
                     </div>
                 </div>
             </nav>
             <main>
+                {!isOnline && (
+                    <div className="max-w-4xl mx-auto mt-4 px-4">
+                        <p role="status" className="bg-slate-800 border border-slate-700 text-slate-300 p-3 rounded-lg text-sm text-center">{t('offline.banner')}</p>
+                    </div>
+                )}
+                {storageError && (
+                    <div className="max-w-4xl mx-auto mt-4 px-4">
+                        <div role="alert" className="flex items-start justify-between bg-red-900/50 border border-red-700 text-red-300 p-4 rounded-lg">
+                            <span>{storageError}</span>
+                            <button onClick={clearStorageError} aria-label={t('common.dismiss')} className="ms-4 text-red-300 hover:text-white">
+                                <XCircleIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                    </div>
+                )}
                 {renderView()}
             </main>
-            {isCameraOpen && <CameraCapture onCapture={handleCameraCapture} onClose={() => setIsCameraOpen(false)} />}
-        </div>
-    );
-};
-
-
-interface SummaryDisplayProps {
-    summary: SummaryReport;
-}
-const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ summary }) => {
-    const [lang, setLang] = useState<'en' | 'bn'>('en');
-
-    const clauseTranslations: { [key: string]: string } = {
-        'Acceptance of Terms by Using Services': 'পরিষেবা ব্যবহারের মাধ্যমে শর্তাবলীর স্বীকৃতি',
-        'Mandatory Acceptance for Service Use': 'পরিষেবা ব্যবহারের জন্য বাধ্যতামূলক স্বীকৃতি',
-        'Terms Can Be Updated': 'শর্তাবলী আপডেট করা যেতে পারে',
-        'Continued Use Implies Agreement': 'অবিরত ব্যবহার চুক্তি বোঝায়',
-        'Lawful and Non-Infringing Use': 'আইনসম্মত এবং লঙ্ঘনহীন ব্যবহার',
-        'Personal, Non-Commercial Use Only': 'শুধুমাত্র ব্যক্তিগত, অ-বাণিজ্যিক ব্যবহার',
-    };
-
-    return (
-        <div className="bg-slate-800 rounded-xl shadow-2xl p-6 space-y-6">
-            <div>
-                <div className="flex border-b border-slate-700 mb-4">
-                    <button onClick={() => setLang('en')} className={`px-4 py-2 font-semibold ${lang === 'en' ? 'border-b-2 border-sky-400 text-sky-300' : 'text-slate-400'}`}>English</button>
-                    <button onClick={() => setLang('bn')} className={`px-4 py-2 font-semibold ${lang === 'bn' ? 'border-b-2 border-teal-400 text-teal-300' : 'text-slate-400'}`}>বাংলা (Bengali)</button>
-                </div>
-                <div>
-                    <h3 className="text-xl font-bold mb-2 text-sky-300">{lang === 'en' ? 'Summary' : 'সারসংক্ষেপ'}</h3>
-                    <p className="text-slate-300 leading-relaxed">{lang === 'en' ? summary.summary_en : summary.summary_bn}</p>
-                </div>
-            </div>
-            
-            <div>
-                <h3 className="text-xl font-bold mb-3 text-sky-300">{lang === 'en' ? 'Key Clauses' : 'মূল ধারা'}</h3>
-                <div className="space-y-4">
-                    {summary.key_clauses.map((item, index) => (
-                        <div key={index} className="bg-slate-900/50 p-4 rounded-lg border-l-4 border-yellow-500">
-                            <h4 className="font-bold text-yellow-400">{lang === 'en' ? item.clause : (clauseTranslations[item.clause.replace(/\.$/, '')] || item.clause)}</h4>
-                            <p className="mt-1 text-slate-300">{lang === 'en' ? item.explanation_en : item.explanation_bn}</p>
-                        </div>
-                    ))}
-                </div>
-            </div>
-
-            <details className="bg-slate-900/50 p-3 rounded-lg">
-                <summary className="font-semibold cursor-pointer text-slate-400 hover:text-white">
-                    {lang === 'en' ? 'View Full Extracted Text' : 'সম্পূর্ণ নিষ্কাশিত পাঠ্য দেখুন'}
-                </summary>
-                <p className="mt-4 text-sm text-slate-400 whitespace-pre-wrap max-h-60 overflow-y-auto p-2 border-t border-slate-700">{summary.full_text}</p>
-            </details>
+            {isCameraOpen && <CameraCapture onCapture={handleCameraCapture} onClose={closeCamera} single={Boolean(retakeId)} pageCount={sources.length} />}
+            {croppingId && sources.some(source => source.id === croppingId) && (
+                <PageCropper image={sources.find(source => source.id === croppingId) as ImageFile} onApply={applyCrop} onCancel={() => setCroppingId(null)} />
+            )}
         </div>
     );
 };
@@ -0,0 +1,81 @@
+import React from 'react';
+import { JOB_STAGES, jobProgress, type AnalysisJob, type PageStatus } from '../services/analysisPipeline';
+import { isImageFile } from '../services/documentIngestion';
+import { useI18n } from '../hooks/useI18n';
+
+interface AnalysisProgressProps {
+    job: AnalysisJob;
+    isRunning: boolean;
+    onResume: () => void;
+    onCancel: () => void;
+}
+
+const statusStyles: Record<PageStatus, string> = {
+    pending: 'bg-slate-700 text-slate-400',
+    uploaded: 'bg-slate-600 text-slate-200',
+    reading: 'bg-sky-800 text-sky-200 animate-pulse',
+    done: 'bg-teal-800 text-teal-200',
+    failed: 'bg-red-800 text-red-200',
+};
+
+const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ job, isRunning, onResume, onCancel }) => {
+    const { t } = useI18n();
+    const percent = jobProgress(job);
+    const current = JOB_STAGES.indexOf(job.stage);
+    const hasImages = job.pages.some(page => isImageFile(page.source));
+    const failed = job.pages.filter(page => page.status === 'failed');
+    const detail = job.stage === 'summarise' && job.chunkCount > 1 && !job.draft
+        ? t('progress.part', { current: Math.min(job.chunks.length + 1, job.chunkCount), total: job.chunkCount })
+        : job.stage === 'ocr' ? t('progress.pagesRead', { done: job.pages.filter(page => page.status === 'done').length, total: job.pages.length }) : '';
+
+    return (
+        <div className="mt-8 bg-slate-800 rounded-xl p-6 space-y-4">
+            <ol className="flex items-center justify-between text-xs sm:text-sm">
+                {JOB_STAGES.map((stage, index) => {
+                    const skipped = !hasImages && (stage === 'upload' || stage === 'ocr');
+                    const style = skipped ? 'text-slate-600 line-through'
+                        : index < current ? 'text-teal-300'
+                        : index === current ? 'text-sky-300 font-semibold' : 'text-slate-500';
+                    return <li key={stage} className={style}>{index + 1}. {t(`progress.stage.${stage}`)}</li>;
+                })}
+            </ol>
+            <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-sky-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-300">{isRunning ? `${percent}%` : t('progress.paused', { percent })}</span>
+                <span className="text-slate-400">{detail}</span>
+            </div>
+            {hasImages && (
+                <div className="flex flex-wrap gap-2">
+                    {job.pages.map((page, index) => (
+                        <span
+                            key={page.source.id}
+                            title={page.error ? `${page.source.name}: ${page.error}` : page.source.name}
+                            className={`w-9 h-9 flex items-center justify-center rounded-md text-xs font-semibold ${statusStyles[page.status]}`}
+                        >
+                            {page.pageNumber ?? index + 1}
+                        </span>
+                    ))}
+                </div>
+            )}
+            {failed.length > 0 && !isRunning && (
+                <p className="bg-red-900/30 border border-red-800 rounded-lg p-3 text-sm text-red-300">
+                    {t('progress.failedPages', { names: failed.map(page => page.source.name).join(', ') })}
+                </p>
+            )}
+            <div className="flex justify-end gap-3">
+                {!isRunning && (
+                    <button onClick={onResume} className="px-4 py-2 bg-sky-600 hover:bg-sky-500 rounded-lg font-semibold text-sm">
+                        {failed.length > 0 ? t('progress.retryFailed') : t('progress.resume')}
+                    </button>
+                )}
+                <button onClick={onCancel} className="px-4 py-2 bg-slate-700 hover:bg-red-700 rounded-lg text-sm">
+                    {t('common.cancel')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default AnalysisProgress;
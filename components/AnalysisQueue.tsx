@@ -0,0 +1,60 @@
+import React from 'react';
+import { jobProgress, type QueuedAnalysis } from '../services/analysisPipeline';
+import { useI18n } from '../hooks/useI18n';
+import { XCircleIcon } from './icons';
+
+interface AnalysisQueueProps {
+    entries: QueuedAnalysis[];
+    /** Why entries failed, by entry id. */
+    errors: Record<string, string>;
+    runningId: string | null;
+    isOnline: boolean;
+    onRetry: (id: string) => void;
+    onRemove: (id: string) => void;
+}
+
+/** The scans queued while offline, which are analysed and saved once the connection is back. */
+const AnalysisQueue: React.FC<AnalysisQueueProps> = ({ entries, errors, runningId, isOnline, onRetry, onRemove }) => {
+    const { t, formatDate } = useI18n();
+    if (!entries.length) return null;
+
+    const statusOf = (entry: QueuedAnalysis) => {
+        if (entry.id === runningId) return t('queue.running', { percent: jobProgress(entry.job) });
+        if (errors[entry.id]) return errors[entry.id];
+        return isOnline ? t('queue.next') : t('queue.waiting');
+    };
+
+    return (
+        <div className="mb-6 bg-slate-900/50 rounded-lg p-4">
+            <h3 className="font-bold text-lg text-slate-300">{t('queue.heading', { count: entries.length })}</h3>
+            <p className="text-xs text-slate-500 mb-3">{t('queue.hint')}</p>
+            <ul className="space-y-2">
+                {entries.map(entry => (
+                    <li key={entry.id} className="flex items-center justify-between gap-3 bg-slate-800 rounded-md p-3">
+                        <div className="min-w-0">
+                            <p className="font-semibold text-white truncate">{entry.title}</p>
+                            <p className="text-xs text-slate-400">
+                                {t('queue.details', { date: formatDate(entry.queuedAt), count: entry.job.pages.length })}
+                            </p>
+                            <p className={`text-sm ${errors[entry.id] ? 'text-red-300' : entry.id === runningId ? 'text-sky-300 animate-pulse' : 'text-slate-400'}`}>
+                                {statusOf(entry)}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0">
+                            {errors[entry.id] && (
+                                <button onClick={() => onRetry(entry.id)} disabled={!isOnline} className="text-sm font-semibold text-sky-300 hover:text-sky-200 disabled:opacity-50">
+                                    {t('queue.retry')}
+                                </button>
+                            )}
+                            <button onClick={() => onRemove(entry.id)} aria-label={t('queue.remove', { title: entry.title })} className="text-slate-400 hover:text-red-300">
+                                <XCircleIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default AnalysisQueue;
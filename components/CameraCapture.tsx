@@ -1,21 +1,68 @@
 
 import React, { useRef, useState, useCallback, useEffect } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { DETECTION_SIZE, ENHANCE_MODES, detectDocument, enhanceImage, quadMovement, scaleQuad, warpPerspective } from '../services/documentScanner';
+import type { EnhanceMode, Quad } from '../services/documentScanner';
+import { SCAN_OPTIONS, blobToDataUrl, encodeToTargetSize } from '../services/imageProcessing';
 
 interface CameraCaptureProps {
     onCapture: (dataUrl: string) => void;
     onClose: () => void;
+    /** Take one photo and close, as when retaking a page; hides the continuous mode. */
+    single?: boolean;
+    /** How many pages have been added so far, shown while capturing continuously. */
+    pageCount?: number;
 }
 
-const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+/** How often the live preview looks for the page, in milliseconds. */
+const DETECTION_INTERVAL = 200;
+/** Corners moving less than this share of the frame between detections count as holding still. */
+const STEADY_TOLERANCE = 0.01;
+/** How many steady detections in a row trigger an automatic capture (about a second). */
+const STEADY_DETECTIONS = 5;
+/** After an automatic capture, the page has to move this much (or leave the frame) before the next one. */
+const NEXT_PAGE_MOVEMENT = 0.08;
+
+/** Draws the current video frame shrunk to `DETECTION_SIZE` and finds the page in it, in video pixels. */
+function detectInVideo(video: HTMLVideoElement, canvas: HTMLCanvasElement): Quad | null {
+    const scale = DETECTION_SIZE / Math.max(video.videoWidth, video.videoHeight);
+    canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+    canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const quad = detectDocument(context.getImageData(0, 0, canvas.width, canvas.height));
+    return quad && scaleQuad(quad, 1 / scale);
+}
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, single = false, pageCount = 0 }) => {
+    const { t } = useI18n();
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
+    const detectionCanvasRef = useRef<HTMLCanvasElement>(null);
     const [stream, setStream] = useState<MediaStream | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [quad, setQuad] = useState<Quad | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [captureError, setCaptureError] = useState<string | null>(null);
+    const [autoCrop, setAutoCrop] = useLocalStorage<boolean>('scanAutoCrop', true);
+    const [enhanceMode, setEnhanceMode] = useLocalStorage<EnhanceMode>('scanEnhance', 'contrast');
+    const [continuousSetting, setContinuous] = useLocalStorage<boolean>('scanContinuous', false);
+    const [autoCapture, setAutoCapture] = useLocalStorage<boolean>('scanAutoCapture', true);
+    const continuous = continuousSetting && !single;
+    const [isSteadying, setIsSteadying] = useState(false);
+    // The detection loop runs outside React's render cycle, so it reaches the latest capture handler through a ref.
+    const captureRef = useRef<() => void>(() => {});
+    const isProcessingRef = useRef(false);
+    const quadRef = useRef<Quad | null>(null);
+    /** Where the page was when last captured; auto-capture waits until it moves away. */
+    const lastCapturedRef = useRef<Quad | null>(null);
 
     const startCamera = useCallback(async () => {
         try {
             const mediaStream = await navigator.mediaDevices.getUserMedia({
-                video: { facingMode: 'environment' },
+                video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } },
                 audio: false,
             });
             setStream(mediaStream);
@@ -24,7 +71,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
             }
         } catch (err) {
             console.error("Error accessing camera:", err);
-            setError("Could not access camera. Please check permissions and try again.");
+            setError(t('camera.error'));
         }
     }, []);
 
@@ -43,21 +90,89 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
-    const handleCapture = () => {
-        if (videoRef.current && canvasRef.current) {
+    // Follow the page in the live preview so the overlay shows what will be cropped. In
+    // continuous mode with auto-capture, a page held still is captured by itself, once:
+    // the next capture waits until the page is moved or swapped for another.
+    useEffect(() => {
+        if (!stream || !autoCrop) {
+            quadRef.current = null;
+            setQuad(null);
+            return;
+        }
+        const autoCapturing = continuous && autoCapture;
+        let frame = 0;
+        let lastRun = 0;
+        let previous: Quad | null = null;
+        let steadyCount = 0;
+        const tick = (time: number) => {
             const video = videoRef.current;
-            const canvas = canvasRef.current;
+            const canvas = detectionCanvasRef.current;
+            if (video && canvas && video.videoWidth && time - lastRun >= DETECTION_INTERVAL) {
+                lastRun = time;
+                const current = detectInVideo(video, canvas);
+                const movement = (from: Quad) => quadMovement(from, current!, video.videoWidth, video.videoHeight);
+                steadyCount = current && previous && movement(previous) < STEADY_TOLERANCE ? steadyCount + 1 : 0;
+                const lastCaptured = lastCapturedRef.current;
+                if (lastCaptured && (!current || movement(lastCaptured) > NEXT_PAGE_MOVEMENT)) lastCapturedRef.current = null;
+                const armed = Boolean(autoCapturing && current && !lastCapturedRef.current && !isProcessingRef.current);
+                quadRef.current = current;
+                if (armed && steadyCount >= STEADY_DETECTIONS) {
+                    steadyCount = 0;
+                    captureRef.current();
+                }
+                setIsSteadying(armed && steadyCount > 0);
+                setQuad(current);
+                previous = current;
+            }
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [stream, autoCrop, continuous, autoCapture]);
+
+    const handleCapture = async () => {
+        const video = videoRef.current;
+        const canvas = canvasRef.current;
+        const detectionCanvas = detectionCanvasRef.current;
+        if (!video || !canvas || !detectionCanvas || isProcessingRef.current) return;
+        isProcessingRef.current = true;
+        lastCapturedRef.current = quadRef.current;
+        setIsProcessing(true);
+        setCaptureError(null);
+        try {
             canvas.width = video.videoWidth;
             canvas.height = video.videoHeight;
-            const context = canvas.getContext('2d');
-            if(context){
-                context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-                const dataUrl = canvas.toDataURL('image/png');
-                onCapture(dataUrl);
-            }
+            const context = canvas.getContext('2d', { willReadFrequently: true });
+            if (!context) throw new Error('Canvas is not supported in this browser.');
+            context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
+
+            // Look again on the captured frame rather than trusting the last preview, which may be a frame behind.
+            const page = autoCrop ? detectInVideo(video, detectionCanvas) : null;
+            let image = context.getImageData(0, 0, canvas.width, canvas.height);
+            if (page) image = warpPerspective(image, page, SCAN_OPTIONS.maxDimension);
+            enhanceImage(image, enhanceMode);
+            canvas.width = image.width;
+            canvas.height = image.height;
+            context.putImageData(image, 0, 0);
+
+            const blob = await encodeToTargetSize(canvas, SCAN_OPTIONS);
+            onCapture(await blobToDataUrl(blob));
+            if (!continuous) onClose();
+        } catch (err) {
+            console.error("Error processing photo:", err);
+            setCaptureError(t('camera.processError'));
+        } finally {
+            isProcessingRef.current = false;
+            setIsProcessing(false);
         }
     };
-    
+    captureRef.current = handleCapture;
+
+    const video = videoRef.current;
+    const status = isProcessing
+        ? t('camera.processing')
+        : captureError ?? (autoCrop ? (quad ? (isSteadying ? t('camera.holdSteady') : t('camera.pageFound')) : t('camera.noPage')) : null);
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-80 z-50 flex flex-col items-center justify-center p-4">
              <div className="relative w-full max-w-lg aspect-[9/16] bg-black rounded-lg overflow-hidden shadow-2xl">
@@ -66,20 +181,70 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
                  ) : (
                     <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover"></video>
                  )}
+                 {/* "slice" scales the overlay exactly like object-cover scales the video, so frame coordinates line up. */}
+                 {!error && quad && video?.videoWidth > 0 && (
+                    <svg
+                        viewBox={`0 0 ${video.videoWidth} ${video.videoHeight}`}
+                        preserveAspectRatio="xMidYMid slice"
+                        className="absolute inset-0 w-full h-full pointer-events-none"
+                    >
+                        <polygon
+                            points={quad.map(({ x, y }) => `${x},${y}`).join(' ')}
+                            className="fill-sky-400/20 stroke-sky-400"
+                            strokeWidth={video.videoWidth / 150}
+                            strokeLinejoin="round"
+                        />
+                    </svg>
+                 )}
+                 {!error && stream && status && (
+                    <div className={`absolute top-3 inset-x-3 text-center text-sm font-semibold px-3 py-1 rounded-md ${captureError && !isProcessing ? 'bg-red-900/80 text-red-200' : quad ? 'bg-sky-600/80 text-white' : 'bg-black/60 text-slate-200'}`}>
+                        {status}
+                    </div>
+                 )}
                  <canvas ref={canvasRef} className="hidden"></canvas>
+                 <canvas ref={detectionCanvasRef} className="hidden"></canvas>
+            </div>
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-4 text-sm text-white">
+                <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={autoCrop} onChange={(e) => setAutoCrop(e.target.checked)} className="accent-sky-500" />
+                    {t('camera.autoCrop')}
+                </label>
+                {!single && (
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={continuousSetting} onChange={(e) => setContinuous(e.target.checked)} className="accent-sky-500" />
+                        {t('camera.continuous')}
+                    </label>
+                )}
+                {continuous && (
+                    <label className={`flex items-center gap-2 ${autoCrop ? '' : 'opacity-50'}`} title={autoCrop ? undefined : t('camera.autoCaptureHint')}>
+                        <input type="checkbox" checked={autoCapture} disabled={!autoCrop} onChange={(e) => setAutoCapture(e.target.checked)} className="accent-sky-500" />
+                        {t('camera.autoCapture')}
+                    </label>
+                )}
+                <label className="flex items-center gap-2">
+                    {t('camera.enhance')}
+                    <select
+                        value={enhanceMode}
+                        onChange={(e) => setEnhanceMode(e.target.value as EnhanceMode)}
+                        className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white focus:ring-2 focus:ring-sky-500 focus:outline-none"
+                    >
+                        {ENHANCE_MODES.map(mode => <option key={mode} value={mode}>{t(`camera.enhance.${mode}`)}</option>)}
+                    </select>
+                </label>
             </div>
-            <div className="mt-6 flex items-center space-x-4">
-                 <button 
+            <div className="mt-6 flex items-center gap-4">
+                 <button
                     onClick={onClose}
                     className="px-6 py-3 bg-gray-700 text-white rounded-full font-semibold shadow-lg hover:bg-gray-600 transition-colors">
-                    Close
+                    {continuous ? t('camera.done', { count: pageCount }) : t('common.close')}
                 </button>
                 <button
                     onClick={handleCapture}
-                    disabled={!stream}
+                    disabled={!stream || isProcessing}
+                    aria-label={t('camera.capture')}
                     className="w-20 h-20 bg-white rounded-full border-4 border-sky-400 flex items-center justify-center disabled:opacity-50 transition-transform active:scale-95"
                 >
-                    <div className="w-16 h-16 bg-white rounded-full border-2 border-sky-500"></div>
+                    <div className={`w-16 h-16 bg-white rounded-full border-2 border-sky-500 ${isProcessing ? 'animate-pulse' : ''}`}></div>
                 </button>
                  <div className="w-[100px]"></div>
             </div>
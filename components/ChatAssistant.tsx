@@ -1,34 +1,34 @@
-
-import React, { useState, useRef, useEffect } from 'react';
-import type { ChatMessage } from '../types';
-import { GoogleGenAI, Chat } from "@google/genai";
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { ChatMessage, ReportNote, TextSpan } from '../types';
+import { askDocument, passagesUsed } from '../services/aiService';
+import { indexDocument } from '../services/retrieval';
+import { extractCitations, splitCitations } from '../services/textSpans';
+import { useChatThread } from '../hooks/useChatThread';
+import { useI18n } from '../hooks/useI18n';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
 
 interface ChatAssistantProps {
   documentContext: string;
+  /** The saved report the chat belongs to; without one the chat is not stored. */
+  reportId?: string;
+  /** Called when the user clicks a citation that was found in the document. */
+  onCitationClick?: (span: TextSpan) => void;
+  /** Pins an answer to the report as a note; answers cannot be pinned when omitted. */
+  onPin?: (note: ReportNote) => void;
+  /** Notes already pinned, so their answers are not offered again. */
+  notes?: ReportNote[];
 }
 
-const ChatAssistant: React.FC<ChatAssistantProps> = ({ documentContext }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const ChatAssistant: React.FC<ChatAssistantProps> = ({ documentContext, reportId, onCitationClick, onPin, notes = [] }) => {
+  const { t } = useI18n();
+  const { messages, setMessages, isLoading: isThreadLoading, error: threadError, saveThread, clearThread } = useChatThread(reportId);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [chat, setChat] = useState<Chat | null>(null);
+  const isOnline = useOnlineStatus();
+  const passageIndex = useMemo(() => indexDocument(documentContext), [documentContext]);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    if (documentContext) {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-      const newChat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction: `You are a helpful assistant. The user has just scanned a Terms and Conditions document. The full text of the document is provided below. Answer the user's questions based ONLY on this text. If the answer is not in the text, say "I cannot find that information in the document."\n\n---\n\nDOCUMENT TEXT: ${documentContext}`,
-        },
-      });
-      setChat(newChat);
-      setMessages([]);
-    }
-  }, [documentContext]);
-
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -37,66 +37,124 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ documentContext }) => {
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading || !chat) return;
+    if (!input.trim() || isLoading || isThreadLoading || !isOnline || !documentContext) return;
 
-    const userMessage: ChatMessage = { role: 'user', text: input };
-    setMessages(prev => [...prev, userMessage]);
+    const previous: ChatMessage[] = messages;
+    const asked: ChatMessage[] = [...previous, { role: 'user', text: input }];
+    setMessages([...asked, { role: 'model', text: '...' }]);
     setInput('');
     setIsLoading(true);
 
+    let thread: ChatMessage[];
     try {
+        const answer = askDocument(passageIndex, input, previous);
         let fullResponseText = '';
-        setMessages(prev => [...prev, { role: 'model', text: '...' }]);
-        
-        const responseStream = await chat.sendMessageStream({ message: input });
-
-        for await (const chunk of responseStream) {
-            fullResponseText += chunk.text;
-            setMessages(prev => {
-                const newMessages = [...prev];
-                newMessages[newMessages.length - 1] = { role: 'model', text: fullResponseText + '...' };
-                return newMessages;
-            });
+        for await (const chunk of answer.stream) {
+            fullResponseText += chunk;
+            setMessages([...asked, { role: 'model', text: splitCitations(fullResponseText).text + '...' }]);
         }
-        
-        setMessages(prev => {
-             const newMessages = [...prev];
-             newMessages[newMessages.length - 1] = { role: 'model', text: fullResponseText };
-             return newMessages;
-        });
-
+        const { text, citations } = extractCitations(fullResponseText, documentContext);
+        thread = [...asked, { role: 'model', text, citations, passages: passagesUsed(text, citations, answer.passages) }];
     } catch (error) {
       console.error('Error sending message:', error);
-      setMessages(prev => [...prev, { role: 'model', text: 'Sorry, something went wrong.' }]);
+      thread = [...asked, { role: 'model', text: t('chat.error'), failed: true }];
     } finally {
       setIsLoading(false);
     }
+    saveThread(thread);
+  };
+
+  const handleClear = () => {
+    if (window.confirm(t('chat.confirmClear'))) {
+      clearThread();
+    }
+  };
+
+  const pin = (index: number) => {
+    const answer = messages[index];
+    onPin?.({
+      id: `note-${Date.now()}`,
+      question: messages[index - 1]?.role === 'user' ? messages[index - 1].text : '',
+      answer: answer.text,
+      ...(answer.citations?.length ? { citations: answer.citations } : {}),
+      ...(answer.passages?.length ? { passages: answer.passages } : {}),
+      timestamp: new Date().toISOString(),
+    });
   };
 
+  const canPin = (msg: ChatMessage, index: number) =>
+    !!onPin && msg.role === 'model' && !msg.failed && !(isLoading && index === messages.length - 1) && !notes.some(note => note.answer === msg.text);
+
   return (
     <div className="mt-8 bg-slate-800 rounded-lg p-4 shadow-xl">
-      <h3 className="text-xl font-bold mb-4 text-sky-300">Ask a Question</h3>
-      <div className="h-64 overflow-y-auto pr-2 space-y-4 mb-4 bg-slate-900/50 p-3 rounded-md">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-sky-300">{t('chat.heading')}</h3>
+        {messages.length > 0 && (
+          <button onClick={handleClear} disabled={isLoading} className="text-sm text-slate-400 hover:text-red-300 disabled:opacity-50">
+            {t('chat.clear')}
+          </button>
+        )}
+      </div>
+      <div className="h-64 overflow-y-auto pe-2 space-y-4 mb-4 bg-slate-900/50 p-3 rounded-md">
+        {isThreadLoading && <p className="text-sm text-slate-400">{t('chat.loading')}</p>}
         {messages.map((msg, index) => (
           <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-xs md:max-w-md lg:max-w-lg px-4 py-2 rounded-lg ${msg.role === 'user' ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-200'}`}>
+            <div className={`max-w-xs md:max-w-md lg:max-w-lg px-4 py-2 rounded-lg ${msg.role === 'user' ? 'bg-sky-600 text-white' : msg.failed ? 'bg-red-900/50 text-red-300' : 'bg-slate-700 text-slate-200'}`}>
               <p className="whitespace-pre-wrap">{msg.text}</p>
+              {msg.citations && msg.citations.length > 0 && (
+                <ol className="mt-2 pt-2 border-t border-slate-600 space-y-1 text-xs list-decimal list-inside">
+                  {msg.citations.map((citation, citationIndex) => (
+                    <li key={citationIndex}>
+                      {citation.span ? (
+                        <button onClick={() => onCitationClick?.(citation.span!)} className="text-start text-sky-300 hover:text-sky-200 hover:underline">
+                          “{citation.quote}”
+                        </button>
+                      ) : (
+                        <span className="text-orange-300" title={t('chat.quoteNotFoundHint')}>
+                          “{citation.quote}” ⚠ {t('chat.quoteNotFound')}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {msg.passages && msg.passages.length > 0 && (
+                <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-slate-400">
+                  {t('chat.passagesUsed')}
+                  {msg.passages.map(passage => (
+                    <button
+                      key={passage.number}
+                      onClick={() => onCitationClick?.(passage.span)}
+                      title={documentContext.slice(passage.span.start, passage.span.start + 200)}
+                      className="px-1.5 rounded bg-slate-600 text-sky-300 hover:bg-slate-500"
+                    >
+                      [{passage.number}]
+                    </button>
+                  ))}
+                </div>
+              )}
+              {canPin(msg, index) && (
+                <button onClick={() => pin(index)} className="mt-2 text-xs font-semibold text-teal-300 hover:text-teal-200">
+                  {t('chat.pin')}
+                </button>
+              )}
             </div>
           </div>
         ))}
         <div ref={messagesEndRef} />
       </div>
-      <form onSubmit={handleSendMessage} className="flex space-x-2">
+      {threadError && <p role="alert" className="mb-2 text-sm text-red-300">{threadError}</p>}
+      <form onSubmit={handleSendMessage} className="flex gap-2">
         <input
           type="text"
           value={input}
           onChange={(e) => setInput(e.target.value)}
-          placeholder="Ask about the document..."
+          placeholder={isOnline ? t('chat.placeholder') : t('chat.offline')}
           className="flex-1 bg-slate-700 border border-slate-600 rounded-md px-3 py-2 text-white placeholder-slate-400 focus:ring-2 focus:ring-sky-500 focus:outline-none"
-          disabled={isLoading}
+          disabled={isLoading || isThreadLoading || !isOnline}
         />
-        <button type="submit" className="px-4 py-2 bg-sky-600 text-white font-semibold rounded-md hover:bg-sky-500 transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed" disabled={isLoading}>
-          {isLoading ? '...' : 'Send'}
+        <button type="submit" className="px-4 py-2 bg-sky-600 text-white font-semibold rounded-md hover:bg-sky-500 transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed" disabled={isLoading || isThreadLoading || !isOnline}>
+          {isLoading ? '...' : t('chat.send')}
         </button>
       </form>
     </div>
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import type { LanguageCode, SummaryReport } from '../types';
+import { LANGUAGES, languagesOf } from '../services/languages';
+import { EXPORT_FORMATS, exportReport, type ExportFormat } from '../services/reportExport';
+import { useI18n } from '../hooks/useI18n';
+import { DownloadIcon } from './icons';
+
+const formatHints: Partial<Record<ExportFormat, 'export.pdfHint' | 'export.htmlHint'>> = {
+    pdf: 'export.pdfHint',
+    html: 'export.htmlHint',
+};
+
+/** Exports a report in any of the languages it has been translated into. */
+const ExportMenu: React.FC<{ report: SummaryReport }> = ({ report }) => {
+    const { t, lang: uiLang } = useI18n();
+    const [selectedLang, setLang] = useState<LanguageCode>(uiLang);
+    const languages = languagesOf(report.summary);
+    const lang = languages.includes(selectedLang) ? selectedLang : 'en';
+
+    return (
+        <div className="flex flex-wrap items-center justify-end gap-2 text-sm">
+            <span className="flex items-center text-slate-400">
+                <DownloadIcon className="w-5 h-5 me-1" />
+                {t('export.label')}
+            </span>
+            {languages.length > 1 && (
+                <select
+                    value={lang}
+                    onChange={(e) => setLang(e.target.value as LanguageCode)}
+                    aria-label={t('export.language')}
+                    className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white focus:ring-2 focus:ring-sky-500 focus:outline-none"
+                >
+                    {languages.map(code => <option key={code} value={code} lang={code}>{LANGUAGES[code].nativeName}</option>)}
+                </select>
+            )}
+            {EXPORT_FORMATS.map(format => (
+                <button
+                    key={format}
+                    onClick={() => exportReport(report, format, lang)}
+                    title={formatHints[format] && t(formatHints[format]!)}
+                    className="px-3 py-1 bg-slate-700 hover:bg-sky-700 rounded-md text-sky-300 font-semibold"
+                >
+                    {t(`export.${format}`)}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,70 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { TextSpan } from '../types';
+
+interface FullTextViewerProps {
+    text: string;
+    /** Passages to mark lightly, e.g. every located clause. */
+    marks?: TextSpan[];
+    /** The passage to highlight strongly and scroll to. */
+    highlight?: TextSpan | null;
+}
+
+interface Segment {
+    start: number;
+    end: number;
+    marked: boolean;
+    highlighted: boolean;
+}
+
+const within = (span: TextSpan, start: number, end: number) => span.start <= start && end <= span.end;
+
+function splitIntoSegments(length: number, marks: TextSpan[], highlight?: TextSpan | null): Segment[] {
+    const boundaries = new Set([0, length]);
+    for (const span of highlight ? [...marks, highlight] : marks) {
+        boundaries.add(Math.max(0, Math.min(length, span.start)));
+        boundaries.add(Math.max(0, Math.min(length, span.end)));
+    }
+    const points = Array.from(boundaries).sort((a, b) => a - b);
+    const segments: Segment[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+        const [start, end] = [points[i], points[i + 1]];
+        segments.push({
+            start,
+            end,
+            marked: marks.some(span => within(span, start, end)),
+            highlighted: !!highlight && within(highlight, start, end),
+        });
+    }
+    return segments;
+}
+
+const FullTextViewer: React.FC<FullTextViewerProps> = ({ text, marks = [], highlight }) => {
+    const highlightRef = useRef<HTMLElement>(null);
+    const segments = useMemo(() => splitIntoSegments(text.length, marks, highlight), [text, marks, highlight]);
+    const firstHighlighted = segments.findIndex(segment => segment.highlighted);
+
+    useEffect(() => {
+        highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [highlight]);
+
+    return (
+        <p className="mt-4 text-sm text-slate-400 whitespace-pre-wrap max-h-60 overflow-y-auto p-2 border-t border-slate-700">
+            {segments.map((segment, index) => {
+                const content = text.slice(segment.start, segment.end);
+                if (segment.highlighted) {
+                    return (
+                        <mark key={index} ref={index === firstHighlighted ? highlightRef : undefined} className="bg-yellow-400/80 text-slate-900 rounded-sm">
+                            {content}
+                        </mark>
+                    );
+                }
+                if (segment.marked) {
+                    return <mark key={index} className="bg-sky-900/60 text-slate-200 rounded-sm">{content}</mark>;
+                }
+                return <React.Fragment key={index}>{content}</React.Fragment>;
+            })}
+        </p>
+    );
+};
+
+export default FullTextViewer;
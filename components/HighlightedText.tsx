@@ -0,0 +1,18 @@
+import React from 'react';
+import type { TextSpan } from '../types';
+
+/** Renders text with the given (ordered, non-overlapping) ranges marked, e.g. search matches. */
+const HighlightedText: React.FC<{ text: string; matches: TextSpan[] }> = ({ text, matches }) => {
+    if (!matches.length) return <>{text}</>;
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    matches.forEach((match, index) => {
+        if (match.start > position) parts.push(text.slice(position, match.start));
+        parts.push(<mark key={index} className="bg-yellow-400/80 text-slate-900 rounded-sm">{text.slice(match.start, match.end)}</mark>);
+        position = match.end;
+    });
+    if (position < text.length) parts.push(text.slice(position));
+    return <>{parts}</>;
+};
+
+export default HighlightedText;
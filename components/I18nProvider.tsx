@@ -0,0 +1,31 @@
+import React, { useEffect, useMemo } from 'react';
+import type { LanguageCode } from '../types';
+import { LANGUAGES, LANGUAGE_CODES } from '../services/languages';
+import { detectLanguage, translate } from '../services/i18n';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { I18nContext, type I18n } from '../hooks/useI18n';
+
+/**
+ * Provides the interface language to the app. The choice is remembered across
+ * sessions; until one is made, the browser's preferred language is used.
+ */
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [stored, setLang] = useLocalStorage<LanguageCode>('uiLanguage', detectLanguage());
+    const lang = LANGUAGE_CODES.includes(stored) ? stored : 'en';
+
+    useEffect(() => {
+        document.documentElement.lang = lang;
+        document.documentElement.dir = LANGUAGES[lang].dir;
+    }, [lang]);
+
+    const value = useMemo<I18n>(() => ({
+        lang,
+        setLang,
+        t: (key, params) => translate(lang, key, params),
+        formatDate: timestamp => new Date(timestamp).toLocaleString(lang),
+    }), [lang, setLang]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
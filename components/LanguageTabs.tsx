@@ -0,0 +1,59 @@
+import React from 'react';
+import type { LanguageCode } from '../types';
+import { LANGUAGES, LANGUAGE_CODES } from '../services/languages';
+import { useI18n } from '../hooks/useI18n';
+
+interface LanguageTabsProps {
+    languages: LanguageCode[];
+    value: LanguageCode;
+    onChange: (lang: LanguageCode) => void;
+}
+
+/** Switches between the languages a piece of content is available in. */
+const LanguageTabs: React.FC<LanguageTabsProps> = ({ languages, value, onChange }) => (
+    <div className="flex flex-wrap">
+        {languages.map(code => (
+            <button
+                key={code}
+                onClick={() => onChange(code)}
+                lang={code}
+                className={`px-4 py-2 font-semibold ${value === code ? 'border-b-2 border-sky-400 text-sky-300' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+                {LANGUAGES[code].nativeName}
+            </button>
+        ))}
+    </div>
+);
+
+interface LanguagePickerProps {
+    value: LanguageCode[];
+    onChange: (languages: LanguageCode[]) => void;
+}
+
+/** Chooses which languages an analysis is translated into. English is always included. */
+export const LanguagePicker: React.FC<LanguagePickerProps> = ({ value, onChange }) => {
+    const { t } = useI18n();
+    const toggle = (code: LanguageCode) => onChange(value.includes(code) ? value.filter(c => c !== code) : [...value, code]);
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-slate-400 me-1">{t('languages.label')}</span>
+            {LANGUAGE_CODES.map(code => {
+                const selected = code === 'en' || value.includes(code);
+                return (
+                    <button
+                        key={code}
+                        onClick={() => toggle(code)}
+                        disabled={code === 'en'}
+                        lang={code}
+                        title={LANGUAGES[code].name}
+                        className={`px-3 py-1 rounded-full text-sm border transition-colors ${selected ? 'bg-sky-700 border-sky-500 text-white' : 'border-slate-600 text-slate-400 hover:border-slate-400'} disabled:cursor-default`}
+                    >
+                        {LANGUAGES[code].nativeName}
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
+
+export default LanguageTabs;
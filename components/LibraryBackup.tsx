@@ -0,0 +1,78 @@
+import React, { useRef, useState } from 'react';
+import type { RestoreResult } from '../services/libraryBackup';
+import { useI18n } from '../hooks/useI18n';
+import { DownloadIcon, UploadIcon } from './icons';
+
+interface LibraryBackupProps {
+    onBackup: () => Promise<boolean>;
+    onRestore: (file: File) => Promise<RestoreResult | null>;
+}
+
+/** Backs the saved library up to a file and restores it from one, reporting what was skipped. */
+const LibraryBackup: React.FC<LibraryBackupProps> = ({ onBackup, onRestore }) => {
+    const { t } = useI18n();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [busy, setBusy] = useState<'backup' | 'restore' | null>(null);
+    const [result, setResult] = useState<RestoreResult | null>(null);
+
+    const handleBackup = async () => {
+        setBusy('backup');
+        await onBackup();
+        setBusy(null);
+    };
+
+    const handleRestore = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setBusy('restore');
+        setResult(await onRestore(file));
+        setBusy(null);
+    };
+
+    return (
+        <div className="mb-6 text-sm">
+            <div className="flex flex-wrap items-center justify-end gap-2">
+                <button
+                    onClick={handleBackup}
+                    disabled={busy !== null}
+                    title={t('backup.createHint')}
+                    className="flex items-center px-3 py-1 bg-slate-700 hover:bg-sky-700 rounded-md text-sky-300 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <DownloadIcon className="w-4 h-4 me-1" />
+                    {busy === 'backup' ? t('backup.creating') : t('backup.create')}
+                </button>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={busy !== null}
+                    title={t('backup.restoreHint')}
+                    className="flex items-center px-3 py-1 bg-slate-700 hover:bg-sky-700 rounded-md text-sky-300 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <UploadIcon className="w-4 h-4 me-1" />
+                    {busy === 'restore' ? t('backup.restoring') : t('backup.restore')}
+                </button>
+                <input type="file" ref={fileInputRef} onChange={handleRestore} accept=".json,application/json" className="hidden" />
+            </div>
+            {result && (
+                <div role="status" className="mt-3 flex items-start justify-between bg-slate-800 border border-slate-700 text-slate-300 p-3 rounded-lg">
+                    <div>
+                        <p>{t('backup.result', { imported: result.imported, duplicates: result.duplicates })}</p>
+                        {result.conflicts.length > 0 && (
+                            <>
+                                <p className="mt-2 text-yellow-300">{t('backup.conflicts', { count: result.conflicts.length })}</p>
+                                <ul className="mt-1 list-disc ps-5 text-slate-400">
+                                    {result.conflicts.map((conflict, i) => (
+                                        <li key={i}>{t('backup.conflict', { title: conflict.title, existing: conflict.existingTitle })}</li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
+                    </div>
+                    <button onClick={() => setResult(null)} className="ms-4 text-slate-400 hover:text-white">{t('common.dismiss')}</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LibraryBackup;
@@ -0,0 +1,181 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { ChatMessage, SummaryReport, TextSpan } from '../types';
+import { askLibrary, libraryAnswerSources } from '../services/aiService';
+import { indexCollection } from '../services/retrieval';
+import { extractCitations, splitCitations } from '../services/textSpans';
+import { libraryTags } from '../services/librarySearch';
+import { LIBRARY_CHAT_ID } from '../services/reportRepository';
+import { useChatThread } from '../hooks/useChatThread';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useI18n } from '../hooks/useI18n';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+
+interface LibraryChatProps {
+    reports: SummaryReport[];
+    /** Opens a saved report, highlighting the cited passage. */
+    onOpenReport: (report: SummaryReport, span?: TextSpan) => void;
+}
+
+const controlClass = 'bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white focus:ring-2 focus:ring-sky-500 focus:outline-none';
+
+/**
+ * Answers questions across the saved library, or the part of it chosen by tag
+ * or by hand. The conversation is kept in the chats store, and the scope in
+ * localStorage, so they are still there after opening a cited report and coming back.
+ */
+const LibraryChat: React.FC<LibraryChatProps> = ({ reports, onOpenReport }) => {
+    const { t } = useI18n();
+    const { messages, setMessages, isLoading: isThreadLoading, error: threadError, saveThread, clearThread } = useChatThread(LIBRARY_CHAT_ID);
+    const [scopeTag, setScopeTag] = useLocalStorage<string>('libraryChatTag', '');
+    const [selectedIds, setSelectedIds] = useLocalStorage<string[]>('libraryChatSelection', []);
+    const [input, setInput] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const isOnline = useOnlineStatus();
+    const messagesEndRef = useRef<HTMLDivElement>(null);
+
+    const tags = useMemo(() => libraryTags(reports), [reports]);
+    const selected = reports.filter(report => selectedIds.includes(report.id));
+    const scope: SummaryReport[] = selected.length
+        ? selected
+        : scopeTag ? reports.filter(report => report.tags?.some(tag => tag.toLocaleLowerCase() === scopeTag.toLocaleLowerCase())) : reports;
+    const index = useMemo(() => indexCollection(scope.map(report => ({ id: report.id, text: report.full_text ?? '' }))), [scope.map(report => report.id).join()]);
+    const titleOf = (id?: string) => reports.find(report => report.id === id)?.title ?? '';
+
+    useEffect(() => {
+        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [messages]);
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+    };
+
+    const openSource = (reportId?: string, span?: TextSpan) => {
+        const report = reports.find(candidate => candidate.id === reportId);
+        if (report) onOpenReport(report, span);
+    };
+
+    const handleSendMessage = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!input.trim() || isLoading || isThreadLoading || !isOnline || !scope.length) return;
+
+        const previous: ChatMessage[] = messages;
+        const asked: ChatMessage[] = [...previous, { role: 'user', text: input }];
+        setMessages([...asked, { role: 'model', text: '...' }]);
+        setInput('');
+        setIsLoading(true);
+        let thread: ChatMessage[];
+        try {
+            const answer = askLibrary(index, scope, input, previous);
+            let fullResponseText = '';
+            for await (const chunk of answer.stream) {
+                fullResponseText += chunk;
+                setMessages([...asked, { role: 'model', text: splitCitations(fullResponseText).text + '...' }]);
+            }
+            const { text, citations: quotes } = extractCitations(fullResponseText, '');
+            const { citations, passages } = libraryAnswerSources(text, quotes, answer.passages, scope);
+            thread = [...asked, { role: 'model', text, citations, passages }];
+        } catch (error) {
+            console.error('Error sending message:', error);
+            thread = [...asked, { role: 'model', text: t('chat.error'), failed: true }];
+        } finally {
+            setIsLoading(false);
+        }
+        saveThread(thread);
+    };
+
+    return (
+        <div className="bg-slate-800 rounded-lg p-4 shadow-xl">
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-sm text-slate-400">
+                <span>{t('libraryChat.scope')}</span>
+                {tags.length > 0 && (
+                    <select value={scopeTag} onChange={(e) => setScopeTag(e.target.value)} disabled={selected.length > 0} aria-label={t('library.tag')} className={`${controlClass} disabled:opacity-50`}>
+                        <option value="">{t('libraryChat.scopeAll')}</option>
+                        {tags.map(tag => <option key={tag} value={tag}>{t('libraryChat.scopeTag', { tag })}</option>)}
+                    </select>
+                )}
+                <span>{t('libraryChat.scopeCount', { count: scope.length, total: reports.length })}</span>
+                {messages.length > 0 && (
+                    <button onClick={clearThread} disabled={isLoading} className="ms-auto text-slate-400 hover:text-red-300 disabled:opacity-50">
+                        {t('chat.clear')}
+                    </button>
+                )}
+            </div>
+            <details className="mb-4 text-sm">
+                <summary className="cursor-pointer text-sky-400 hover:text-sky-300">
+                    {selected.length ? t('libraryChat.selectedCount', { count: selected.length }) : t('libraryChat.choose')}
+                </summary>
+                <div className="mt-2 max-h-48 overflow-y-auto space-y-1 p-2 bg-slate-900/50 rounded-md">
+                    {reports.map(report => (
+                        <label key={report.id} className="flex items-center gap-2 text-slate-300">
+                            <input type="checkbox" checked={selectedIds.includes(report.id)} onChange={() => toggleSelected(report.id)} className="accent-sky-500" />
+                            <span>{report.title}</span>
+                            {report.company && <span className="text-slate-500">{report.company}</span>}
+                        </label>
+                    ))}
+                </div>
+                {selected.length > 0 && (
+                    <button onClick={() => setSelectedIds([])} className="mt-2 text-sky-400 hover:text-sky-300 font-semibold">{t('libraryChat.clearSelection')}</button>
+                )}
+            </details>
+            <div className="h-80 overflow-y-auto pe-2 space-y-4 mb-4 bg-slate-900/50 p-3 rounded-md">
+                {messages.length === 0 && <p className="text-sm text-slate-500">{t('libraryChat.hint')}</p>}
+                {messages.map((msg, i) => (
+                    <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-xs md:max-w-md lg:max-w-lg px-4 py-2 rounded-lg ${msg.role === 'user' ? 'bg-sky-600 text-white' : msg.failed ? 'bg-red-900/50 text-red-300' : 'bg-slate-700 text-slate-200'}`}>
+                            <p className="whitespace-pre-wrap">{msg.text}</p>
+                            {msg.citations && msg.citations.length > 0 && (
+                                <ol className="mt-2 pt-2 border-t border-slate-600 space-y-1 text-xs list-decimal list-inside">
+                                    {msg.citations.map((citation, citationIndex) => (
+                                        <li key={citationIndex}>
+                                            {citation.span ? (
+                                                <button onClick={() => openSource(citation.reportId, citation.span)} className="text-start text-sky-300 hover:text-sky-200 hover:underline">
+                                                    <span className="font-semibold">{titleOf(citation.reportId)}:</span> “{citation.quote}”
+                                                </button>
+                                            ) : (
+                                                <span className="text-orange-300" title={t('chat.quoteNotFoundHint')}>
+                                                    “{citation.quote}” ⚠ {t('chat.quoteNotFound')}
+                                                </span>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                            {msg.passages && msg.passages.length > 0 && (
+                                <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-slate-400">
+                                    {t('chat.passagesUsed')}
+                                    {msg.passages.map(passage => (
+                                        <button
+                                            key={passage.number}
+                                            onClick={() => openSource(passage.reportId, passage.span)}
+                                            title={titleOf(passage.reportId)}
+                                            className="px-1.5 rounded bg-slate-600 text-sky-300 hover:bg-slate-500"
+                                        >
+                                            [{passage.number}] {titleOf(passage.reportId)}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                <div ref={messagesEndRef} />
+            </div>
+            {threadError && <p role="alert" className="mb-2 text-sm text-red-300">{threadError}</p>}
+            <form onSubmit={handleSendMessage} className="flex gap-2">
+                <input
+                    type="text"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    placeholder={isOnline ? t('libraryChat.placeholder') : t('chat.offline')}
+                    className="flex-1 bg-slate-700 border border-slate-600 rounded-md px-3 py-2 text-white placeholder-slate-400 focus:ring-2 focus:ring-sky-500 focus:outline-none"
+                    disabled={isLoading || !isOnline}
+                />
+                <button type="submit" className="px-4 py-2 bg-sky-600 text-white font-semibold rounded-md hover:bg-sky-500 transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed" disabled={isLoading || !isOnline || !scope.length}>
+                    {isLoading ? '...' : t('chat.send')}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default LibraryChat;
@@ -0,0 +1,73 @@
+import React from 'react';
+import type { ClauseCategory } from '../types';
+import { CLAUSE_CATEGORIES } from '../services/riskScoring';
+import { EMPTY_FILTER, LIBRARY_SORTS, isFiltered, type LibraryFilter, type LibrarySort } from '../services/librarySearch';
+import { useI18n } from '../hooks/useI18n';
+
+interface LibraryFiltersProps {
+    filter: LibraryFilter;
+    onFilterChange: (filter: LibraryFilter) => void;
+    sort: LibrarySort;
+    onSortChange: (sort: LibrarySort) => void;
+    /** Every tag in the library, offered as a filter. */
+    tags: string[];
+}
+
+const controlClass = 'bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white focus:ring-2 focus:ring-sky-500 focus:outline-none';
+
+/** Search box, filters and sort order for the saved summaries. */
+const LibraryFilters: React.FC<LibraryFiltersProps> = ({ filter, onFilterChange, sort, onSortChange, tags }) => {
+    const { t } = useI18n();
+    const update = (changes: Partial<LibraryFilter>) => onFilterChange({ ...filter, ...changes });
+
+    return (
+        <div className="mb-4 space-y-3 text-sm">
+            <input
+                type="search"
+                value={filter.query}
+                onChange={(e) => update({ query: e.target.value })}
+                placeholder={t('library.searchPlaceholder')}
+                aria-label={t('library.search')}
+                className="w-full p-2 bg-slate-800 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-sky-500 focus:outline-none"
+            />
+            <div className="flex flex-wrap items-center gap-2 text-slate-400">
+                {tags.length > 0 && (
+                    <select value={filter.tag ?? ''} onChange={(e) => update({ tag: e.target.value || undefined })} aria-label={t('library.tag')} className={controlClass}>
+                        <option value="">{t('library.allTags')}</option>
+                        {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                    </select>
+                )}
+                <select
+                    value={filter.category ?? ''}
+                    onChange={(e) => update({ category: (e.target.value || undefined) as ClauseCategory | undefined })}
+                    aria-label={t('library.category')}
+                    className={controlClass}
+                >
+                    <option value="">{t('library.allCategories')}</option>
+                    {CLAUSE_CATEGORIES.map(category => <option key={category} value={category}>{t(`category.${category}`)}</option>)}
+                </select>
+                <label className="flex items-center gap-1">
+                    {t('library.from')}
+                    <input type="date" value={filter.from ?? ''} max={filter.to} onChange={(e) => update({ from: e.target.value || undefined })} className={controlClass} />
+                </label>
+                <label className="flex items-center gap-1">
+                    {t('library.to')}
+                    <input type="date" value={filter.to ?? ''} min={filter.from} onChange={(e) => update({ to: e.target.value || undefined })} className={controlClass} />
+                </label>
+                <label className="flex items-center gap-1 ms-auto">
+                    {t('library.sort')}
+                    <select value={sort} onChange={(e) => onSortChange(e.target.value as LibrarySort)} className={controlClass}>
+                        {LIBRARY_SORTS.map(option => <option key={option} value={option}>{t(`library.sort.${option}`)}</option>)}
+                    </select>
+                </label>
+                {isFiltered(filter) && (
+                    <button onClick={() => onFilterChange(EMPTY_FILTER)} className="text-sky-400 hover:text-sky-300 font-semibold">
+                        {t('library.clear')}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default LibraryFilters;
@@ -0,0 +1,251 @@
+import React, { useMemo, useState } from 'react';
+import type { ImageFile, SourceFile } from '../types';
+import { uncertainWords, type OcrPage, type OcrProgress } from '../services/localOcr';
+import { NO_CHOICES, applyRedactions, findImageRedactions, findRedactions, pageRedactions, type PiiMatch, type RedactionChoices } from '../services/redaction';
+import { isImageFile } from '../services/documentIngestion';
+import type { PixelBox } from '../services/imageProcessing';
+import { downloadFile } from '../services/reportExport';
+import { useI18n } from '../hooks/useI18n';
+import { DownloadIcon, SparklesIcon, XCircleIcon } from './icons';
+
+interface OcrReviewProps {
+    /** The sources as they were when read; `pages` holds one entry for each. */
+    sources: SourceFile[];
+    pages: OcrPage[] | null;
+    progress: OcrProgress | null;
+    error: string | null;
+    /** Images added since the pages were read, which the text does not cover. */
+    unreadCount: number;
+    isOnline: boolean;
+    isAnalyzing: boolean;
+    /** Whether personal details are masked before sending. */
+    redact: boolean;
+    /** Whether page images are sent (masked) rather than their text. */
+    sendsImages: boolean;
+    choices: RedactionChoices;
+    onChangeChoices: (choices: RedactionChoices) => void;
+    onChangeText: (sourceId: string, text: string) => void;
+    onReadAgain: () => void;
+    onSummarize: () => void;
+    onDiscard: () => void;
+}
+
+/** A page image with the areas that will be masked drawn over it. */
+const MaskedPage: React.FC<{ image: ImageFile; boxes: PixelBox[] }> = ({ image, boxes }) => {
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    return (
+        <div className="relative inline-block">
+            <img
+                src={image.dataUrl}
+                alt={image.name}
+                onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className="block max-w-full max-h-[60vh] rounded-md"
+            />
+            {size && (
+                <svg viewBox={`0 0 ${size.width} ${size.height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                    {boxes.map((box, index) => (
+                        <rect key={index} x={box.x0} y={box.y0} width={box.x1 - box.x0} height={box.y1 - box.y0} fill="black" />
+                    ))}
+                </svg>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Shows what will be sent for each page so the user can check it first: the
+ * text the on-device OCR read, which they can correct, or the page image with
+ * the personal details blacked out. The user chooses which details are masked,
+ * or keeps the text without sending it at all.
+ */
+const OcrReview: React.FC<OcrReviewProps> = ({ sources, pages, progress, error, unreadCount, isOnline, isAnalyzing, redact, sendsImages, choices, onChangeChoices, onChangeText, onReadAgain, onSummarize, onDiscard }) => {
+    const { t } = useI18n();
+    const [newTerm, setNewTerm] = useState('');
+    const hasImages = sources.some(isImageFile);
+
+    const imageOf = (page: OcrPage): ImageFile | null => {
+        const source = sources.find(candidate => candidate.id === page.sourceId);
+        return source && isImageFile(source) ? source : null;
+    };
+    const sendsImageOf = (page: OcrPage) => sendsImages && imageOf(page) !== null;
+    const canSend = pages?.some(page => sendsImageOf(page) || page.text.trim());
+
+    // Every detail found, whether masked or kept, so a kept one can be masked again.
+    const detected: PiiMatch[] = useMemo(() => {
+        if (!redact || !pages) return [];
+        const found = new Map<string, PiiMatch>();
+        for (const page of pages) {
+            for (const match of pageRedactions(page, NO_CHOICES, sendsImageOf(page))) found.set(`${match.kind}:${match.text}`, match);
+        }
+        return Array.from(found.values());
+    }, [redact, pages, sources, sendsImages]);
+
+    const toggleKept = (text: string) => {
+        const kept = choices.kept.includes(text) ? choices.kept.filter(other => other !== text) : [...choices.kept, text];
+        onChangeChoices({ ...choices, kept });
+    };
+
+    const addTerm = (e: React.FormEvent) => {
+        e.preventDefault();
+        const term = newTerm.trim();
+        if (term && !choices.added.includes(term)) onChangeChoices({ ...choices, added: [...choices.added, term] });
+        setNewTerm('');
+    };
+
+    const downloadText = () => {
+        downloadFile(pages!.map(page => page.text).join('\n\n'), 'pages.txt', 'text/plain');
+    };
+
+    return (
+        <div className="mb-6 bg-slate-900/50 rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="font-bold text-lg text-slate-300">{t('ocr.heading')}</h3>
+                <button onClick={onDiscard} className="text-sm text-slate-400 hover:text-red-300">
+                    {progress ? t('common.cancel') : t('ocr.discard')}
+                </button>
+            </div>
+            <p className="text-xs text-slate-500">
+                {!hasImages ? t('redaction.privacyText') : sendsImages ? t('redaction.privacyImages') : t('ocr.privacy')}
+            </p>
+
+            {progress && (
+                <div className="space-y-2">
+                    <p className="text-sm text-slate-300">
+                        {progress.fraction === null ? t('ocr.loading') : t('ocr.reading', { page: progress.page, total: progress.pageCount })}
+                    </p>
+                    <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full bg-sky-500 transition-all ${progress.fraction === null ? 'animate-pulse w-full opacity-40' : ''}`}
+                            style={progress.fraction === null ? undefined : { width: `${((progress.page - 1 + progress.fraction) / progress.pageCount) * 100}%` }}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="bg-red-900/30 border border-red-800 rounded-lg p-3 text-sm text-red-300">{error}</p>}
+
+            {pages && (
+                <>
+                    {unreadCount > 0 && (
+                        <p className="bg-orange-900/30 border border-orange-800 rounded-lg p-3 text-sm text-orange-300">
+                            {t('ocr.unread', { count: unreadCount })}{' '}
+                            <button onClick={onReadAgain} className="font-semibold underline hover:text-orange-200">{t('ocr.readAgain')}</button>
+                        </p>
+                    )}
+                    {redact && (
+                        <div className="bg-slate-800 rounded-lg p-3 space-y-3">
+                            <h4 className="font-semibold text-slate-300">{t('redaction.heading')}</h4>
+                            <p className="text-xs text-slate-500">{t('redaction.hint')}</p>
+                            {detected.length === 0 && choices.added.length === 0 ? (
+                                <p className="text-sm text-slate-400">{t('redaction.none')}</p>
+                            ) : (
+                                <ul className="flex flex-wrap gap-2">
+                                    {detected.map(match => (
+                                        <li key={`${match.kind}:${match.text}`}>
+                                            <label className="flex items-center gap-2 px-2 py-1 rounded-md bg-slate-900/60 text-sm text-slate-300">
+                                                <input type="checkbox" checked={!choices.kept.includes(match.text)} onChange={() => toggleKept(match.text)} className="accent-sky-500" />
+                                                <span className="text-xs text-slate-500">{t(`redaction.kind.${match.kind}`)}</span>
+                                                <span dir="auto">{match.text}</span>
+                                            </label>
+                                        </li>
+                                    ))}
+                                    {choices.added.map(term => (
+                                        <li key={`added:${term}`} className="flex items-center gap-2 px-2 py-1 rounded-md bg-slate-900/60 text-sm text-slate-300">
+                                            <span className="text-xs text-slate-500">{t('redaction.kind.custom')}</span>
+                                            <span dir="auto">{term}</span>
+                                            <button
+                                                onClick={() => onChangeChoices({ ...choices, added: choices.added.filter(other => other !== term) })}
+                                                aria-label={t('redaction.removeTerm', { term })}
+                                                className="text-slate-400 hover:text-red-300"
+                                            >
+                                                <XCircleIcon className="w-4 h-4" />
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            <form onSubmit={addTerm} className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={newTerm}
+                                    onChange={(e) => setNewTerm(e.target.value)}
+                                    placeholder={t('redaction.addPlaceholder')}
+                                    dir="auto"
+                                    className="flex-1 bg-slate-700 border border-slate-600 rounded-md px-3 py-2 text-sm text-white placeholder-slate-400 focus:ring-2 focus:ring-sky-500 focus:outline-none"
+                                />
+                                <button type="submit" disabled={!newTerm.trim()} className="px-4 py-2 bg-slate-700 hover:bg-sky-700 rounded-lg text-sky-300 text-sm font-semibold disabled:opacity-50">
+                                    {t('redaction.add')}
+                                </button>
+                            </form>
+                        </div>
+                    )}
+                    {pages.map((page, index) => {
+                        const image = imageOf(page);
+                        const uncertain = image ? uncertainWords(page) : [];
+                        if (image && sendsImages) {
+                            return (
+                                <div key={page.sourceId} className="space-y-1">
+                                    <span className="text-sm font-semibold text-slate-300">{t('scanner.pageNumber', { number: index + 1 })} · {page.name}</span>
+                                    <MaskedPage image={image} boxes={findImageRedactions(page, choices).boxes} />
+                                </div>
+                            );
+                        }
+                        return (
+                            <div key={page.sourceId} className="space-y-1">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="font-semibold text-slate-300">{t('scanner.pageNumber', { number: index + 1 })} · {page.name}</span>
+                                    {image && (
+                                        <span className={page.confidence < 70 ? 'text-orange-300' : 'text-slate-400'}>
+                                            {t('ocr.confidence', { percent: Math.round(page.confidence) })}
+                                        </span>
+                                    )}
+                                </div>
+                                {uncertain.length > 0 && (
+                                    <p className="text-xs text-orange-300">{t('ocr.uncertain', { words: uncertain.slice(0, 12).join(', ') })}</p>
+                                )}
+                                <textarea
+                                    value={page.text}
+                                    onChange={(e) => onChangeText(page.sourceId, e.target.value)}
+                                    rows={8}
+                                    dir="auto"
+                                    aria-label={t('ocr.pageText', { name: page.name })}
+                                    placeholder={t('ocr.empty')}
+                                    className="w-full bg-slate-800 border border-slate-700 rounded-lg p-3 text-sm text-slate-300 focus:border-sky-500 outline-none"
+                                />
+                                {redact && page.text.trim() && (
+                                    <details className="text-sm">
+                                        <summary className="cursor-pointer text-slate-400 hover:text-slate-300">{t('redaction.preview')}</summary>
+                                        <p dir="auto" className="mt-2 p-3 bg-slate-900/60 rounded-lg text-slate-400 whitespace-pre-wrap">
+                                            {applyRedactions(page.text, findRedactions(page.text, choices))}
+                                        </p>
+                                    </details>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {!isOnline && <p className="text-sm text-slate-400">{t('ocr.offline')}</p>}
+                    <div className="flex flex-col sm:flex-row items-center justify-end gap-3">
+                        <button
+                            onClick={downloadText}
+                            disabled={!pages.some(page => page.text.trim())}
+                            className="flex items-center px-4 py-2 bg-slate-700 hover:bg-teal-700 rounded-lg transition-colors text-teal-300 text-sm disabled:opacity-50"
+                        >
+                            <DownloadIcon className="w-5 h-5 me-2" />
+                            {t('ocr.download')}
+                        </button>
+                        <button
+                            onClick={onSummarize}
+                            disabled={!canSend || isAnalyzing}
+                            className="flex items-center px-4 py-2 bg-sky-600 hover:bg-sky-500 rounded-lg transition-colors font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <SparklesIcon className="w-5 h-5 me-2" />
+                            {isAnalyzing ? t('common.analyzing') : !isOnline ? t('queue.add') : hasImages && sendsImages ? t('redaction.summarizeImages') : t('ocr.summarize')}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default OcrReview;
@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import type { ImageFile } from '../types';
+import type { CropRect } from '../services/imageProcessing';
+import { useI18n } from '../hooks/useI18n';
+
+interface PageCropperProps {
+    image: ImageFile;
+    onApply: (rect: CropRect) => void;
+    onCancel: () => void;
+}
+
+type Corner = 'topLeft' | 'topRight' | 'bottomRight' | 'bottomLeft';
+
+const CORNERS: Corner[] = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+const FULL_IMAGE: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+/** Smallest crop, as a fraction of each side, so the corners cannot cross. */
+const MIN_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Moves one corner of `rect` to (`x`, `y`), keeping the opposite corner where it is. */
+function moveCorner(rect: CropRect, corner: Corner, x: number, y: number): CropRect {
+    const right = rect.x + rect.width;
+    const bottom = rect.y + rect.height;
+    const left = corner === 'topLeft' || corner === 'bottomLeft' ? clamp(x, 0, right - MIN_SIZE) : rect.x;
+    const top = corner === 'topLeft' || corner === 'topRight' ? clamp(y, 0, bottom - MIN_SIZE) : rect.y;
+    const newRight = corner === 'topRight' || corner === 'bottomRight' ? clamp(x, left + MIN_SIZE, 1) : right;
+    const newBottom = corner === 'bottomLeft' || corner === 'bottomRight' ? clamp(y, top + MIN_SIZE, 1) : bottom;
+    return { x: left, y: top, width: newRight - left, height: newBottom - top };
+}
+
+/** Lets the user drag the corners of a crop box over a page image. */
+const PageCropper: React.FC<PageCropperProps> = ({ image, onApply, onCancel }) => {
+    const { t } = useI18n();
+    const frameRef = useRef<HTMLDivElement>(null);
+    const [rect, setRect] = useState<CropRect>(FULL_IMAGE);
+    const [dragging, setDragging] = useState<Corner | null>(null);
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const frame = frameRef.current;
+        if (!dragging || !frame) return;
+        const bounds = frame.getBoundingClientRect();
+        setRect(current => moveCorner(current, dragging, (e.clientX - bounds.left) / bounds.width, (e.clientY - bounds.top) / bounds.height));
+    };
+
+    const startDrag = (e: React.PointerEvent, corner: Corner) => {
+        frameRef.current?.setPointerCapture(e.pointerId);
+        setDragging(corner);
+    };
+
+    const cornerPosition = (corner: Corner) => ({
+        left: `${(corner === 'topLeft' || corner === 'bottomLeft' ? rect.x : rect.x + rect.width) * 100}%`,
+        top: `${(corner === 'topLeft' || corner === 'topRight' ? rect.y : rect.y + rect.height) * 100}%`,
+    });
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 z-50 flex flex-col items-center justify-center p-4">
+            <h3 className="text-lg font-bold text-white mb-4">{t('crop.heading', { name: image.name })}</h3>
+            <div
+                ref={frameRef}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragging(null)}
+                onPointerCancel={() => setDragging(null)}
+                className="relative overflow-hidden touch-none select-none"
+            >
+                <img src={image.dataUrl} alt={image.name} draggable={false} className="block max-w-full max-h-[70vh]" />
+                <div
+                    className="absolute border-2 border-sky-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] pointer-events-none"
+                    style={{ left: `${rect.x * 100}%`, top: `${rect.y * 100}%`, width: `${rect.width * 100}%`, height: `${rect.height * 100}%` }}
+                />
+                {CORNERS.map(corner => (
+                    <div
+                        key={corner}
+                        onPointerDown={(e) => startDrag(e, corner)}
+                        className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full bg-white border-2 border-sky-500 cursor-move"
+                        style={cornerPosition(corner)}
+                    />
+                ))}
+            </div>
+            <div className="mt-6 flex items-center gap-4">
+                <button onClick={onCancel} className="px-6 py-3 bg-gray-700 text-white rounded-full font-semibold shadow-lg hover:bg-gray-600 transition-colors">
+                    {t('common.cancel')}
+                </button>
+                <button onClick={() => setRect(FULL_IMAGE)} className="px-6 py-3 bg-gray-700 text-white rounded-full font-semibold shadow-lg hover:bg-gray-600 transition-colors">
+                    {t('crop.reset')}
+                </button>
+                <button onClick={() => onApply(rect)} className="px-6 py-3 bg-sky-600 text-white rounded-full font-semibold shadow-lg hover:bg-sky-500 transition-colors">
+                    {t('crop.apply')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default PageCropper;
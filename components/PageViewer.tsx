@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import type { ReportPage } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface PageViewerProps {
+    pages: ReportPage[];
+}
+
+interface PageUrls {
+    image: string;
+    thumbnail: string;
+}
+
+const PageViewer: React.FC<PageViewerProps> = ({ pages }) => {
+    const { t } = useI18n();
+    const [urls, setUrls] = useState<PageUrls[]>([]);
+    const [current, setCurrent] = useState(0);
+
+    useEffect(() => {
+        const created = pages.map(page => ({
+            image: URL.createObjectURL(page.image),
+            thumbnail: URL.createObjectURL(page.thumbnail),
+        }));
+        setUrls(created);
+        setCurrent(0);
+        return () => created.forEach(url => {
+            URL.revokeObjectURL(url.image);
+            URL.revokeObjectURL(url.thumbnail);
+        });
+    }, [pages]);
+
+    if (urls.length === 0) return null;
+    const page = pages[current];
+
+    return (
+        <div className="space-y-3">
+            <div className="relative bg-black rounded-lg overflow-hidden">
+                <img src={urls[current]?.image} alt={page?.name} className="w-full max-h-[70vh] object-contain" />
+                <div className="absolute inset-x-0 bottom-0 flex items-center justify-between p-2 bg-gradient-to-t from-black/80 to-transparent text-sm">
+                    <button
+                        onClick={() => setCurrent(c => c - 1)}
+                        disabled={current === 0}
+                        className="px-3 py-1 bg-slate-700/80 rounded-md disabled:opacity-30"
+                    >
+                        {t('pages.previous')}
+                    </button>
+                    <span className="text-slate-300">{t('pages.position', { current: current + 1, total: pages.length })}</span>
+                    <button
+                        onClick={() => setCurrent(c => c + 1)}
+                        disabled={current === pages.length - 1}
+                        className="px-3 py-1 bg-slate-700/80 rounded-md disabled:opacity-30"
+                    >
+                        {t('pages.next')}
+                    </button>
+                </div>
+            </div>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+                {urls.map((url, index) => (
+                    <button key={index} onClick={() => setCurrent(index)} className={`flex-shrink-0 rounded-md overflow-hidden border-2 ${index === current ? 'border-sky-400' : 'border-transparent opacity-70 hover:opacity-100'}`}>
+                        <img src={url.thumbnail} alt={t('pages.thumbnail', { number: index + 1 })} className="h-20 w-auto" />
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default PageViewer;
@@ -0,0 +1,39 @@
+import React from 'react';
+import type { PiiKind, RedactionRecord } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+/** Lists the personal details that were masked before a report's document was sent, without revealing them. */
+const RedactionLog: React.FC<{ redactions: RedactionRecord[] }> = ({ redactions }) => {
+    const { t } = useI18n();
+    if (!redactions.length) return null;
+
+    const counts = new Map<PiiKind, number>();
+    redactions.forEach(record => counts.set(record.kind, (counts.get(record.kind) ?? 0) + 1));
+    const sources = Array.from(new Set(redactions.map(record => record.source)));
+
+    return (
+        <details className="mt-8 bg-slate-800 rounded-xl shadow-2xl p-6">
+            <summary className="text-xl font-bold text-sky-300 cursor-pointer">{t('redaction.logHeading', { count: redactions.length })}</summary>
+            <p className="mt-2 text-sm text-slate-400">{t('redaction.logHint')}</p>
+            <div className="mt-4 flex flex-wrap gap-2">
+                {Array.from(counts).map(([kind, count]) => (
+                    <span key={kind} className="px-2 py-1 rounded-full bg-slate-700 text-xs text-slate-300">
+                        {t(`redaction.kind.${kind}`)} × {count}
+                    </span>
+                ))}
+            </div>
+            <ul className="mt-4 space-y-2 text-sm">
+                {sources.map(source => (
+                    <li key={source}>
+                        <span className="font-semibold text-slate-300">{source}: </span>
+                        <span className="text-slate-400">
+                            {redactions.filter(record => record.source === source).map(record => record.preview).join(', ')}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </details>
+    );
+};
+
+export default RedactionLog;
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { KeyClause, LanguageCode, SummaryReport } from '../types';
+import { diffReports, type ChangeNote, type ParagraphChange, type WordChange } from '../services/reportDiff';
+import { generateChangeNote } from '../services/aiService';
+import { LANGUAGES, inLanguage, languagesOf } from '../services/languages';
+import { useI18n } from '../hooks/useI18n';
+import { SparklesIcon } from './icons';
+import LanguageTabs from './LanguageTabs';
+
+interface ReportDiffViewProps {
+    reports: [SummaryReport, SummaryReport];
+}
+
+type Layout = 'inline' | 'sideBySide';
+
+const Words: React.FC<{ words: WordChange[]; show: 'before' | 'after' | 'both' }> = ({ words, show }) => (
+    <>
+        {words.map((word, index) => {
+            if (word.type === 'removed' && show !== 'after') {
+                return <del key={index} className="bg-red-900/60 text-red-200 decoration-red-400">{word.text}</del>;
+            }
+            if (word.type === 'added' && show !== 'before') {
+                return <ins key={index} className="bg-green-900/60 text-green-200 no-underline">{word.text}</ins>;
+            }
+            return word.type === 'same' ? <React.Fragment key={index}>{word.text}</React.Fragment> : null;
+        })}
+    </>
+);
+
+const paragraphStyles: Record<ParagraphChange['type'], string> = {
+    same: 'text-slate-400',
+    added: 'bg-green-900/30 border-s-4 border-green-500 text-green-100',
+    removed: 'bg-red-900/30 border-s-4 border-red-500 text-red-200 line-through decoration-red-400/60',
+    changed: 'border-s-4 border-yellow-500 text-slate-200',
+};
+
+const InlineParagraph: React.FC<{ change: ParagraphChange }> = ({ change }) => (
+    <p className={`whitespace-pre-wrap p-2 rounded ${paragraphStyles[change.type]}`}>
+        {change.type === 'changed' ? <Words words={change.words} show="both" /> : change.type === 'added' ? change.after : change.before}
+    </p>
+);
+
+const SideBySideRow: React.FC<{ change: ParagraphChange }> = ({ change }) => {
+    const cell = 'whitespace-pre-wrap p-2 rounded';
+    switch (change.type) {
+        case 'same':
+            return <><p className={`${cell} text-slate-400`}>{change.before}</p><p className={`${cell} text-slate-400`}>{change.after}</p></>;
+        case 'added':
+            return <><div /><p className={`${cell} ${paragraphStyles.added}`}>{change.after}</p></>;
+        case 'removed':
+            return <><p className={`${cell} ${paragraphStyles.removed}`}>{change.before}</p><div /></>;
+        case 'changed':
+            return (
+                <>
+                    <p className={`${cell} ${paragraphStyles.changed}`}><Words words={change.words} show="before" /></p>
+                    <p className={`${cell} ${paragraphStyles.changed}`}><Words words={change.words} show="after" /></p>
+                </>
+            );
+    }
+};
+
+const ReportDiffView: React.FC<ReportDiffViewProps> = ({ reports }) => {
+    const { t, lang: uiLang, formatDate } = useI18n();
+    const [first, second] = reports;
+    const diff = useMemo(() => diffReports(first, second), [first, second]);
+    const [layout, setLayout] = useState<Layout>('inline');
+    const [selectedLang, setLang] = useState<LanguageCode>(uiLang);
+    const [note, setNote] = useState<ChangeNote | null>(null);
+    const [isNoteLoading, setIsNoteLoading] = useState(false);
+    const [noteError, setNoteError] = useState<string | null>(null);
+    const [showUnchanged, setShowUnchanged] = useState(false);
+
+    const hasTextChanges = diff.paragraphs.some(change => change.type !== 'same');
+    // The note is written in the languages both reports were translated into.
+    const languages = useMemo(() => {
+        const secondLanguages = languagesOf(second.summary);
+        return languagesOf(first.summary).filter(code => secondLanguages.includes(code));
+    }, [first, second]);
+    const lang = languages.includes(selectedLang) ? selectedLang : 'en';
+    const dir = LANGUAGES[lang].dir;
+
+    useEffect(() => {
+        let cancelled = false;
+        setNote(null);
+        setNoteError(null);
+        if (!hasTextChanges && diff.clauses.length === 0) return;
+        setIsNoteLoading(true);
+        generateChangeNote(diff, languages)
+            .then(result => { if (!cancelled) setNote(result); })
+            .catch(e => { if (!cancelled) setNoteError(e instanceof Error ? e.message : t('common.unknownError')); })
+            .finally(() => { if (!cancelled) setIsNoteLoading(false); });
+        return () => { cancelled = true; };
+    }, [diff, hasTextChanges, languages]);
+
+    const severityText = (clause: KeyClause) => t(`severity.${clause.severity ?? 'unrated'}`);
+    const clauseTitle = (clause: KeyClause) => <span lang={lang} dir={dir}>{inLanguage(clause.clause, lang)}</span>;
+
+    const visibleParagraphs = showUnchanged ? diff.paragraphs : diff.paragraphs.filter(change => change.type !== 'same');
+
+    return (
+        <div className="bg-slate-800 rounded-xl shadow-2xl p-6 space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                    <p className="text-slate-500 uppercase tracking-wide text-xs">{t('compare.older')}</p>
+                    <p className="font-semibold text-white">{diff.older.title}</p>
+                    <p className="text-slate-400">{formatDate(diff.older.timestamp)}</p>
+                </div>
+                <div>
+                    <p className="text-slate-500 uppercase tracking-wide text-xs">{t('compare.newer')}</p>
+                    <p className="font-semibold text-white">{diff.newer.title}</p>
+                    <p className="text-slate-400">{formatDate(diff.newer.timestamp)}</p>
+                </div>
+            </div>
+
+            <div>
+                <div className="flex items-center justify-between border-b border-slate-700 mb-4">
+                    <h3 className="flex items-center text-xl font-bold text-sky-300 pb-2">
+                        <SparklesIcon className="w-5 h-5 me-2" />
+                        {t('compare.whatChanged')}
+                    </h3>
+                    <LanguageTabs languages={languages} value={lang} onChange={setLang} />
+                </div>
+                {isNoteLoading && <p className="text-slate-400 animate-pulse">{t('compare.comparing')}</p>}
+                {noteError && <p className="text-red-300">{noteError}</p>}
+                {note && <p className="text-slate-300 leading-relaxed" lang={lang} dir={dir}>{inLanguage(note.what_changed, lang)}</p>}
+                {!hasTextChanges && diff.clauses.length === 0 && <p className="text-slate-400">{t('compare.identical')}</p>}
+            </div>
+
+            {diff.clauses.length > 0 && (
+                <div>
+                    <h3 className="text-xl font-bold mb-3 text-sky-300">{t('compare.clauseChanges')}</h3>
+                    <ul className="space-y-2">
+                        {diff.clauses.map((change, index) => (
+                            <li key={index} className="bg-slate-900/50 p-3 rounded-lg text-sm">
+                                {change.type === 'added' && <><span className="font-bold text-green-400">{t('compare.added')} </span>{clauseTitle(change.after)} <span className="text-slate-400">({severityText(change.after)})</span></>}
+                                {change.type === 'removed' && <><span className="font-bold text-red-400">{t('compare.removed')} </span>{clauseTitle(change.before)} <span className="text-slate-400">({severityText(change.before)})</span></>}
+                                {change.type === 'changed' && <><span className="font-bold text-yellow-400">{t('compare.changed')} </span>{clauseTitle(change.after)} <span className="text-slate-400">({severityText(change.before)} → {severityText(change.after)})</span></>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div>
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                    <h3 className="text-xl font-bold text-sky-300">{t('compare.textChanges')}</h3>
+                    <div className="flex items-center gap-4 text-sm">
+                        <label className="flex items-center gap-2 text-slate-400">
+                            <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+                            <span>{t('compare.showUnchanged')}</span>
+                        </label>
+                        <div className="flex bg-slate-700 rounded-lg p-1">
+                            <button onClick={() => setLayout('inline')} className={`px-3 py-1 rounded-md font-semibold ${layout === 'inline' ? 'bg-sky-600 text-white' : 'text-slate-300'}`}>{t('compare.inline')}</button>
+                            <button onClick={() => setLayout('sideBySide')} className={`px-3 py-1 rounded-md font-semibold ${layout === 'sideBySide' ? 'bg-sky-600 text-white' : 'text-slate-300'}`}>{t('compare.sideBySide')}</button>
+                        </div>
+                    </div>
+                </div>
+                <div className="max-h-[32rem] overflow-y-auto text-sm bg-slate-900/50 p-3 rounded-lg">
+                    {visibleParagraphs.length === 0 ? (
+                        <p className="text-slate-400">{t('compare.noDifferences')}</p>
+                    ) : layout === 'inline' ? (
+                        <div className="space-y-2">
+                            {visibleParagraphs.map((change, index) => <InlineParagraph key={index} change={change} />)}
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                            {visibleParagraphs.map((change, index) => <SideBySideRow key={index} change={change} />)}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReportDiffView;
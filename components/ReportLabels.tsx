@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import type { SummaryReport } from '../types';
+import { normaliseTags } from '../services/librarySearch';
+import { useI18n } from '../hooks/useI18n';
+import { XCircleIcon } from './icons';
+
+interface ReportLabelsProps {
+    report: SummaryReport;
+    /** Every tag in the library, suggested while typing. */
+    knownTags: string[];
+    onChange: (changes: Pick<SummaryReport, 'company' | 'tags'>) => void;
+}
+
+/** Edits the company/service and tags of a saved report. */
+const ReportLabels: React.FC<ReportLabelsProps> = ({ report, knownTags, onChange }) => {
+    const { t } = useI18n();
+    const [company, setCompany] = useState(report.company ?? '');
+    const [newTag, setNewTag] = useState('');
+    const tags = report.tags ?? [];
+
+    useEffect(() => {
+        setCompany(report.company ?? '');
+        setNewTag('');
+    }, [report.id]);
+
+    const saveCompany = () => {
+        const trimmed = company.trim();
+        if (trimmed !== (report.company ?? '')) onChange({ company: trimmed || undefined, tags: report.tags });
+    };
+
+    const addTag = (event: React.FormEvent) => {
+        event.preventDefault();
+        const updated = normaliseTags([...tags, newTag]);
+        setNewTag('');
+        if (updated.length !== tags.length) onChange({ company: report.company, tags: updated });
+    };
+
+    const removeTag = (tag: string) => {
+        const updated = tags.filter(existing => existing !== tag);
+        onChange({ company: report.company, tags: updated.length ? updated : undefined });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-3 mb-6 text-sm">
+            <input
+                type="text"
+                value={company}
+                onChange={(e) => setCompany(e.target.value)}
+                onBlur={saveCompany}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                placeholder={t('labels.companyPlaceholder')}
+                aria-label={t('labels.company')}
+                className="p-1.5 bg-slate-800 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-sky-500 focus:outline-none"
+            />
+            {tags.map(tag => (
+                <span key={tag} className="flex items-center gap-1 px-2 py-0.5 bg-teal-900/60 text-teal-200 rounded-full">
+                    {tag}
+                    <button onClick={() => removeTag(tag)} aria-label={t('labels.removeTag', { tag })} className="text-teal-300 hover:text-white">
+                        <XCircleIcon className="w-4 h-4" />
+                    </button>
+                </span>
+            ))}
+            <form onSubmit={addTag} className="flex items-center gap-1">
+                <input
+                    type="text"
+                    value={newTag}
+                    onChange={(e) => setNewTag(e.target.value)}
+                    list="known-tags"
+                    placeholder={t('labels.addTag')}
+                    aria-label={t('labels.addTag')}
+                    className="w-32 p-1.5 bg-slate-800 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-sky-500 focus:outline-none"
+                />
+                <datalist id="known-tags">
+                    {knownTags.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+                </datalist>
+                <button type="submit" disabled={!newTag.trim()} className="px-2 py-1 bg-slate-700 hover:bg-teal-700 rounded-md text-teal-300 font-semibold disabled:opacity-50">
+                    {t('labels.add')}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default ReportLabels;
@@ -0,0 +1,72 @@
+import React from 'react';
+import type { ReportNote, TextSpan } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { XCircleIcon } from './icons';
+
+interface ReportNotesProps {
+    notes: ReportNote[];
+    onRemove: (id: string) => void;
+    /** Called when the user clicks a citation that was found in the document. */
+    onCitationClick?: (span: TextSpan) => void;
+}
+
+/** Chat answers the user pinned to a report. */
+const ReportNotes: React.FC<ReportNotesProps> = ({ notes, onRemove, onCitationClick }) => {
+    const { t, formatDate } = useI18n();
+    if (!notes.length) return null;
+
+    return (
+        <div className="mt-8 bg-slate-800 rounded-lg p-4 shadow-xl">
+            <h3 className="text-xl font-bold mb-4 text-teal-300">{t('notes.heading')}</h3>
+            <ul className="space-y-3">
+                {notes.map(note => (
+                    <li key={note.id} className="bg-slate-900/50 p-3 rounded-md">
+                        <div className="flex items-start justify-between gap-2">
+                            <div>
+                                {note.question && <p className="font-semibold text-white">{note.question}</p>}
+                                <p className="text-xs text-slate-500">{formatDate(note.timestamp)}</p>
+                            </div>
+                            <button onClick={() => onRemove(note.id)} aria-label={t('notes.remove')} className="text-slate-400 hover:text-red-300">
+                                <XCircleIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <p className="mt-2 text-slate-300 whitespace-pre-wrap">{note.answer}</p>
+                        {note.citations && note.citations.length > 0 && (
+                            <ol className="mt-2 space-y-1 text-xs list-decimal list-inside">
+                                {note.citations.map((citation, index) => (
+                                    <li key={index}>
+                                        {citation.span ? (
+                                            <button onClick={() => onCitationClick?.(citation.span!)} className="text-start text-sky-300 hover:text-sky-200 hover:underline">
+                                                “{citation.quote}”
+                                            </button>
+                                        ) : (
+                                            <span className="text-orange-300" title={t('chat.quoteNotFoundHint')}>
+                                                “{citation.quote}” ⚠ {t('chat.quoteNotFound')}
+                                            </span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                        {note.passages && note.passages.length > 0 && (
+                            <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-slate-400">
+                                {t('chat.passagesUsed')}
+                                {note.passages.map(passage => (
+                                    <button
+                                        key={passage.number}
+                                        onClick={() => onCitationClick?.(passage.span)}
+                                        className="px-1.5 rounded bg-slate-700 text-sky-300 hover:bg-slate-600"
+                                    >
+                                        [{passage.number}]
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ReportNotes;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import type { SourceFile } from '../types';
+import { isTextFile } from '../services/documentIngestion';
+import { useI18n } from '../hooks/useI18n';
+import { CameraIcon, CropIcon, DocumentTextIcon, RotateIcon, XCircleIcon } from './icons';
+
+interface SourcePagesProps {
+    sources: SourceFile[];
+    /** Moves the page at `from` to position `to`. */
+    onMove: (from: number, to: number) => void;
+    onRemove: (id: string) => void;
+    onRotate: (id: string) => void;
+    onCrop: (id: string) => void;
+    onRetake: (id: string) => void;
+    /** Id of a page being rotated or cropped, shown as busy. */
+    busyId?: string | null;
+}
+
+const actionClass = 'bg-black bg-opacity-50 rounded-full text-white p-1 hover:bg-opacity-75 disabled:opacity-30';
+
+/**
+ * The pages queued for analysis, in reading order. Pages are reordered by
+ * dragging, or with the arrow buttons where dragging is not available (touch
+ * screens, keyboards); images can also be rotated, cropped or retaken.
+ */
+const SourcePages: React.FC<SourcePagesProps> = ({ sources, onMove, onRemove, onRotate, onCrop, onRetake, busyId }) => {
+    const { t } = useI18n();
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const endDrag = () => {
+        setDragIndex(null);
+        setDropIndex(null);
+    };
+
+    const handleDrop = (e: React.DragEvent, index: number) => {
+        e.preventDefault();
+        if (dragIndex !== null && dragIndex !== index) onMove(dragIndex, index);
+        endDrag();
+    };
+
+    return (
+        <div className="mb-6">
+            <h3 className="font-bold text-lg mb-1 text-slate-300">{t('scanner.selectedPages')}</h3>
+            {sources.length > 1 && <p className="text-xs text-slate-500 mb-2">{t('scanner.reorderHint')}</p>}
+            <ol className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                {sources.map((source, index) => (
+                    <li
+                        key={source.id}
+                        draggable
+                        onDragStart={() => setDragIndex(index)}
+                        onDragOver={(e) => { e.preventDefault(); setDropIndex(index); }}
+                        onDrop={(e) => handleDrop(e, index)}
+                        onDragEnd={endDrag}
+                        className={`relative group rounded-md cursor-grab ${dragIndex === index ? 'opacity-40' : ''} ${dropIndex === index && dragIndex !== index ? 'ring-2 ring-sky-400' : ''}`}
+                    >
+                        {isTextFile(source) ? (
+                            <div className="rounded-md w-full h-24 bg-slate-700 p-2 overflow-hidden" title={source.name}>
+                                <div className="flex items-center text-xs font-semibold text-teal-300 mb-1">
+                                    <DocumentTextIcon className="w-4 h-4 me-1 flex-shrink-0" />
+                                    <span className="truncate">{source.name}</span>
+                                </div>
+                                <p className="text-[10px] leading-tight text-slate-400">{source.text.slice(0, 160)}</p>
+                            </div>
+                        ) : (
+                            <img src={source.dataUrl} alt={source.name} draggable={false} className={`rounded-md w-full h-24 object-cover ${busyId === source.id ? 'animate-pulse' : ''}`} />
+                        )}
+                        <span className="absolute bottom-1 start-1 px-1.5 rounded bg-black bg-opacity-60 text-xs font-semibold text-white">
+                            {t('scanner.pageNumber', { number: index + 1 })}
+                        </span>
+                        <button onClick={() => onRemove(source.id)} aria-label={t('scanner.removePage', { name: source.name })} className="absolute top-1 end-1 bg-black bg-opacity-50 rounded-full text-white p-1 hover:bg-opacity-75 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity">
+                            <XCircleIcon className="w-5 h-5" />
+                        </button>
+                        <div className="absolute bottom-1 end-1 flex gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                            <button onClick={() => onMove(index, index - 1)} disabled={index === 0} aria-label={t('scanner.moveEarlier', { name: source.name })} className={`${actionClass} px-1.5 text-xs font-bold`}>
+                                <span className="rtl:hidden">←</span><span className="hidden rtl:inline">→</span>
+                            </button>
+                            <button onClick={() => onMove(index, index + 1)} disabled={index === sources.length - 1} aria-label={t('scanner.moveLater', { name: source.name })} className={`${actionClass} px-1.5 text-xs font-bold`}>
+                                <span className="rtl:hidden">→</span><span className="hidden rtl:inline">←</span>
+                            </button>
+                            {!isTextFile(source) && (
+                                <>
+                                    <button onClick={() => onRotate(source.id)} disabled={busyId === source.id} aria-label={t('scanner.rotatePage', { name: source.name })} className={actionClass}>
+                                        <RotateIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => onCrop(source.id)} disabled={busyId === source.id} aria-label={t('scanner.cropPage', { name: source.name })} className={actionClass}>
+                                        <CropIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => onRetake(source.id)} disabled={busyId === source.id} aria-label={t('scanner.retakePage', { name: source.name })} className={actionClass}>
+                                        <CameraIcon className="w-4 h-4" />
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default SourcePages;
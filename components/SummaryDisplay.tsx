@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { LanguageCode, RiskSeverity, SummaryReport, TextSpan } from '../types';
+import { groupClausesBySection, riskLevel, sortClausesBySeverity } from '../services/riskScoring';
+import { locateQuote } from '../services/textSpans';
+import { LANGUAGES, inLanguage, languagesOf } from '../services/languages';
+import { useI18n } from '../hooks/useI18n';
+import FullTextViewer from './FullTextViewer';
+import LanguageTabs from './LanguageTabs';
+
+const severityStyles: Record<RiskSeverity, { border: string; text: string; badge: string }> = {
+    high: { border: 'border-red-500', text: 'text-red-400', badge: 'bg-red-900/60 text-red-300' },
+    medium: { border: 'border-yellow-500', text: 'text-yellow-400', badge: 'bg-yellow-900/60 text-yellow-300' },
+    low: { border: 'border-green-500', text: 'text-green-400', badge: 'bg-green-900/60 text-green-300' },
+};
+
+export const RiskScoreBadge: React.FC<{ score: number }> = ({ score }) => {
+    const { t } = useI18n();
+    const styles = severityStyles[riskLevel(score)];
+    return (
+        <div className={`flex flex-col items-center justify-center w-14 h-14 rounded-full border-2 ${styles.border} ${styles.text}`} title={t('summary.riskScoreHint')}>
+            <span className="text-lg font-extrabold leading-none">{score}</span>
+            <span className="text-[10px] uppercase tracking-wide">{t('summary.risk')}</span>
+        </div>
+    );
+};
+
+interface SummaryDisplayProps {
+    summary: SummaryReport;
+    /** The passage currently highlighted in the full-text viewer. */
+    highlight: TextSpan | null;
+    onHighlight: (span: TextSpan | null) => void;
+}
+const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ summary, highlight, onHighlight }) => {
+    const { t, lang: uiLang } = useI18n();
+    // The report opens in the interface language when it has been translated into it.
+    const [selectedLang, setLang] = useState<LanguageCode>(uiLang);
+    const [isTextOpen, setIsTextOpen] = useState(false);
+
+    const languages = languagesOf(summary.summary);
+    const lang = languages.includes(selectedLang) ? selectedLang : 'en';
+    const dir = LANGUAGES[lang].dir;
+
+    // Reports saved before clause spans were recorded still carry quotes to locate.
+    const clauses = useMemo(
+        () => summary.key_clauses.map(clause => ({ ...clause, span: clause.span ?? locateQuote(summary.full_text, clause.quote) })),
+        [summary],
+    );
+    const clauseSpans = useMemo(() => clauses.flatMap(clause => clause.span ? [clause.span] : []), [clauses]);
+
+    useEffect(() => {
+        if (highlight) setIsTextOpen(true);
+    }, [highlight]);
+
+    return (
+        <div className="bg-slate-800 rounded-xl shadow-2xl p-6 space-y-6">
+            <div>
+                <div className="border-b border-slate-700 mb-4">
+                    <LanguageTabs languages={languages} value={lang} onChange={setLang} />
+                </div>
+                {summary.risk_score !== undefined && (
+                    <div className="flex items-center gap-4 mb-4">
+                        <RiskScoreBadge score={summary.risk_score} />
+                        <p className={`font-semibold ${severityStyles[riskLevel(summary.risk_score)].text}`}>
+                            {t('summary.overallRisk', { level: t(`severity.${riskLevel(summary.risk_score)}`) })}
+                        </p>
+                    </div>
+                )}
+                <div>
+                    <h3 className="text-xl font-bold mb-2 text-sky-300">{t('summary.summary')}</h3>
+                    <p className="text-slate-300 leading-relaxed" lang={lang} dir={dir}>{inLanguage(summary.summary, lang)}</p>
+                </div>
+            </div>
+            
+            <div>
+                <h3 className="text-xl font-bold mb-3 text-sky-300">{t('summary.keyClauses')}</h3>
+                <div className="space-y-6">
+                    {groupClausesBySection(clauses).map(group => (
+                        <div key={group.section ?? ''}>
+                            {group.section && <h4 className="text-sm font-semibold uppercase tracking-wide text-slate-400 mb-2" dir="auto">{group.section}</h4>}
+                            <div className="space-y-4">
+                                {sortClausesBySeverity(group.clauses).map((item, index) => {
+                                    const styles = severityStyles[item.severity ?? 'medium'];
+                                    const isActive = !!item.span && item.span.start === highlight?.start && item.span.end === highlight?.end;
+                                    return (
+                                        <div
+                                            key={index}
+                                            onClick={item.span ? () => onHighlight(item.span!) : undefined}
+                                            className={`bg-slate-900/50 p-4 rounded-lg border-s-4 ${styles.border} ${item.span ? 'cursor-pointer hover:bg-slate-900' : ''} ${isActive ? 'ring-2 ring-yellow-400/70' : ''}`}
+                                        >
+                                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                                <h4 className={`font-bold ${styles.text}`} lang={lang} dir={dir}>{inLanguage(item.clause, lang)}</h4>
+                                                <div className="flex items-center gap-2 text-xs font-semibold">
+                                                    {item.category && <span className="px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">{t(`category.${item.category}`)}</span>}
+                                                    {item.severity && <span className={`px-2 py-0.5 rounded-full ${styles.badge}`}>{t(`severity.${item.severity}`)}</span>}
+                                                </div>
+                                            </div>
+                                            <p className="mt-1 text-slate-300" lang={lang} dir={dir}>{inLanguage(item.explanation, lang)}</p>
+                                            {item.rationale && <p className="mt-2 text-sm italic text-slate-400" dir="auto">{item.rationale}</p>}
+                                            {item.quote && <blockquote className="mt-2 ps-3 border-s-2 border-slate-600 text-sm text-slate-400" dir="auto">“{item.quote}”</blockquote>}
+                                            {item.quote && !item.span && (
+                                                <p className="mt-2 text-xs font-semibold text-orange-400" title={t('summary.quoteNotFoundHint')}>
+                                                    ⚠ {t('summary.quoteNotFound')}
+                                                </p>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <details
+                open={isTextOpen}
+                onToggle={(e) => setIsTextOpen(e.currentTarget.open)}
+                className="bg-slate-900/50 p-3 rounded-lg"
+            >
+                <summary className="font-semibold cursor-pointer text-slate-400 hover:text-white">
+                    {t('summary.viewFullText')}
+                </summary>
+                <FullTextViewer text={summary.full_text} marks={clauseSpans} highlight={highlight} />
+            </details>
+        </div>
+    );
+};
+
+export default SummaryDisplay;
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AnalysisMode, LanguageCode, RedactionRecord, SourceFile } from '../types';
+import type { GeneratedSummary } from '../services/aiService';
+import { createAnalysisJob, runAnalysisJob, type AnalysisJob } from '../services/analysisPipeline';
+import { deleteJob, listJobs, putJob, putJobProgress } from '../services/reportRepository';
+
+/**
+ * Runs the scanner's analysis as a tracked job. The job's progress is stored after every
+ * step, so one interrupted by a reload is offered again (through `onRestore`)
+ * and resumes where it stopped. Cancelling aborts the request in flight and
+ * forgets the job.
+ */
+export function useAnalysisJob(onRestore: (job: AnalysisJob) => void) {
+    const [job, setJob] = useState<AnalysisJob | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+    const onRestoreRef = useRef(onRestore);
+    onRestoreRef.current = onRestore;
+
+    useEffect(() => {
+        listJobs()
+            .then(jobs => {
+                const latest = jobs[jobs.length - 1];
+                if (!latest) return;
+                setJob(latest);
+                onRestoreRef.current(latest);
+            })
+            .catch(e => console.error(e));
+    }, []);
+
+    /** Resolves to the job's result, or to null when it was cancelled. */
+    const run = useCallback(async (toRun: AnalysisJob): Promise<GeneratedSummary | null> => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setJob(toRun);
+        setIsRunning(true);
+        let saved = toRun;
+        try {
+            const result = await runAnalysisJob(toRun, {
+                signal: controller.signal,
+                onUpdate: updated => {
+                    setJob(updated);
+                    putJobProgress(updated, saved).catch(e => console.error(e));
+                    saved = updated;
+                },
+            });
+            await deleteJob(toRun.id).catch(e => console.error(e));
+            setJob(null);
+            return result;
+        } catch (e) {
+            if (controller.signal.aborted) return null;
+            throw e;
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+            setIsRunning(false);
+        }
+    }, []);
+
+    /** Starts a new job, replacing any unfinished one. `redactions` are kept with it, so a resumed job still records them. */
+    const start = useCallback((sources: SourceFile[], mode: AnalysisMode, languages: LanguageCode[], redactions: RedactionRecord[] = []) => {
+        if (job) deleteJob(job.id).catch(e => console.error(e));
+        const created = createAnalysisJob(sources, mode, languages);
+        const toRun = redactions.length ? { ...created, redactions } : created;
+        // The page images are written once here; progress updates only rewrite the job's status.
+        putJob(toRun).catch(e => console.error(e));
+        return run(toRun);
+    }, [job, run]);
+
+    const resume = useCallback(() => job ? run(job) : Promise.resolve(null), [job, run]);
+
+    const cancel = useCallback(() => {
+        controllerRef.current?.abort();
+        if (job) deleteJob(job.id).catch(e => console.error(e));
+        setJob(null);
+    }, [job]);
+
+    return { job, isRunning, start, resume, cancel };
+}
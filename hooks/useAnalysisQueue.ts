@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ImageFile, SummaryReport } from '../types';
+import { runAnalysisJob, type AnalysisJob, type QueuedAnalysis } from '../services/analysisPipeline';
+import { deleteQueued, listQueue, putQueued, putQueuedProgress } from '../services/reportRepository';
+
+/**
+ * Keeps the analyses queued while offline and runs them one at a time, oldest
+ * first, whenever the browser is online. Each finished report is handed to
+ * `onDone` to be saved. An entry that fails keeps its error and stays queued;
+ * it is tried again when the connection next comes back, or on `retry`.
+ */
+export function useAnalysisQueue(isOnline: boolean, onDone: (report: SummaryReport, images: ImageFile[]) => Promise<boolean>) {
+    const [entries, setEntries] = useState<QueuedAnalysis[]>([]);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [runningId, setRunningId] = useState<string | null>(null);
+    // The ref guards against starting a second run before the state update lands.
+    const runningRef = useRef<{ id: string; controller: AbortController } | null>(null);
+    const onDoneRef = useRef(onDone);
+    onDoneRef.current = onDone;
+
+    useEffect(() => {
+        listQueue().then(setEntries).catch(e => console.error(e));
+    }, []);
+
+    // Failures while the connection was unreliable say little, so coming back online clears them.
+    useEffect(() => {
+        if (isOnline) setErrors({});
+    }, [isOnline]);
+
+    const runEntry = useCallback(async (entry: QueuedAnalysis) => {
+        const controller = new AbortController();
+        runningRef.current = { id: entry.id, controller };
+        setRunningId(entry.id);
+        let saved = entry.job;
+        const update = (job: AnalysisJob) => {
+            const updated = { ...entry, job };
+            setEntries(prev => prev.map(other => other.id === entry.id ? updated : other));
+            putQueuedProgress(updated, saved).catch(e => console.error(e));
+            saved = job;
+        };
+        try {
+            const result = await runAnalysisJob(entry.job, { signal: controller.signal, onUpdate: update });
+            const report: SummaryReport = {
+                id: `summary-${Date.now()}`,
+                title: entry.title,
+                timestamp: new Date().toISOString(),
+                redactions: entry.redactions,
+                ...result,
+            };
+            if (!(await onDoneRef.current(report, entry.images))) throw new Error('The summary could not be saved.');
+            await deleteQueued(entry.id).catch(e => console.error(e));
+            setEntries(prev => prev.filter(other => other.id !== entry.id));
+        } catch (e) {
+            if (controller.signal.aborted) return;
+            setErrors(prev => ({ ...prev, [entry.id]: e instanceof Error && e.message ? e.message : 'The analysis failed.' }));
+        } finally {
+            runningRef.current = null;
+            setRunningId(null);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!isOnline || runningRef.current) return;
+        const next = entries.find(entry => !errors[entry.id]);
+        if (next) runEntry(next);
+    }, [isOnline, entries, errors, runningId, runEntry]);
+
+    /** Queues an analysis; it starts straight away if the connection is already back. */
+    const enqueue = useCallback(async (entry: QueuedAnalysis) => {
+        await putQueued(entry);
+        setEntries(prev => [...prev, entry]);
+    }, []);
+
+    const retry = useCallback((id: string) => {
+        setErrors(({ [id]: _, ...rest }) => rest);
+    }, []);
+
+    /** Drops an entry, stopping it first if it is running. */
+    const remove = useCallback(async (id: string) => {
+        if (runningRef.current?.id === id) runningRef.current.controller.abort();
+        await deleteQueued(id).catch(e => console.error(e));
+        setEntries(prev => prev.filter(entry => entry.id !== id));
+        setErrors(({ [id]: _, ...rest }) => rest);
+    }, []);
+
+    return { entries, errors, runningId, enqueue, retry, remove };
+}
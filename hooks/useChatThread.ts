@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ChatMessage } from '../types';
+import { deleteChatThread, getChatThread, putChatThread } from '../services/reportRepository';
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'An unknown storage error occurred.';
+}
+
+/**
+ * Keeps the chat about a report in sync with IndexedDB. Without a `reportId`
+ * (a summary that has not been saved yet) the conversation lives only in
+ * memory. Once there is one, its stored thread is loaded; if it has none yet,
+ * the conversation so far is stored instead, so saving a summary keeps its chat.
+ */
+export function useChatThread(reportId?: string) {
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const messagesRef = useRef(messages);
+    messagesRef.current = messages;
+
+    const store = useCallback(async (id: string, thread: ChatMessage[]) => {
+        try {
+            await putChatThread({ reportId: id, messages: thread, updatedAt: new Date().toISOString() });
+            setError(null);
+        } catch (e) {
+            setError(errorMessage(e));
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!reportId) return;
+        let cancelled = false;
+        setIsLoading(true);
+        getChatThread(reportId)
+            .then(thread => {
+                if (cancelled) return;
+                if (thread) {
+                    setMessages(thread.messages);
+                } else if (messagesRef.current.length) {
+                    store(reportId, messagesRef.current);
+                }
+            })
+            .catch(e => { if (!cancelled) setError(errorMessage(e)); })
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [reportId, store]);
+
+    /** Shows the thread and, for a saved report, stores it. Call once a turn has finished. */
+    const saveThread = useCallback((thread: ChatMessage[]) => {
+        setMessages(thread);
+        if (reportId) store(reportId, thread);
+    }, [reportId, store]);
+
+    const clearThread = useCallback(async () => {
+        setMessages([]);
+        if (!reportId) return;
+        try {
+            await deleteChatThread(reportId);
+            setError(null);
+        } catch (e) {
+            setError(errorMessage(e));
+        }
+    }, [reportId]);
+
+    return { messages, setMessages, isLoading, error, saveThread, clearThread };
+}
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { LanguageCode } from '../types';
+import { translate, type MessageKey, type MessageParams } from '../services/i18n';
+
+export interface I18n {
+    /** The language the interface is shown in. */
+    lang: LanguageCode;
+    setLang: (lang: LanguageCode) => void;
+    t: (key: MessageKey, params?: MessageParams) => string;
+    /** Formats an ISO timestamp for the interface language. */
+    formatDate: (timestamp: string) => string;
+}
+
+export const I18nContext = createContext<I18n>({
+    lang: 'en',
+    setLang: () => {},
+    t: (key, params) => translate('en', key, params),
+    formatDate: timestamp => new Date(timestamp).toLocaleString('en'),
+});
+
+/** The interface language and its messages, as provided by `I18nProvider`. */
+export function useI18n(): I18n {
+    return useContext(I18nContext);
+}
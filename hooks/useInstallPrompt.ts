@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+
+/** Chromium's install prompt event, which is not in the DOM typings. */
+interface BeforeInstallPromptEvent extends Event {
+    prompt: () => Promise<void>;
+    userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+/**
+ * Holds on to the browser's offer to install the app, so it can be made from
+ * a button of our own. `canInstall` stays false in browsers without the
+ * prompt and once the app is installed.
+ */
+export function useInstallPrompt() {
+    const [promptEvent, setPromptEvent] = useState<BeforeInstallPromptEvent | null>(null);
+
+    useEffect(() => {
+        const capture = (event: Event) => {
+            event.preventDefault();
+            setPromptEvent(event as BeforeInstallPromptEvent);
+        };
+        const installed = () => setPromptEvent(null);
+        window.addEventListener('beforeinstallprompt', capture);
+        window.addEventListener('appinstalled', installed);
+        return () => {
+            window.removeEventListener('beforeinstallprompt', capture);
+            window.removeEventListener('appinstalled', installed);
+        };
+    }, []);
+
+    const install = useCallback(async () => {
+        if (!promptEvent) return;
+        await promptEvent.prompt();
+        await promptEvent.userChoice;
+        // The event can only be used once.
+        setPromptEvent(null);
+    }, [promptEvent]);
+
+    return { canInstall: promptEvent !== null, install };
+}
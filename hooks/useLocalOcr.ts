@@ -0,0 +1,61 @@
+import { useState, useCallback, useRef } from 'react';
+import type { SourceFile } from '../types';
+import { isImageFile } from '../services/documentIngestion';
+import { recognizePages, type OcrPage, type OcrProgress } from '../services/localOcr';
+
+/**
+ * Reads page images with the on-device OCR engine and holds the result, with
+ * the text of the other sources, while the user reviews and corrects it.
+ * Nothing here is stored or sent anywhere.
+ */
+export function useLocalOcr() {
+    const [sources, setSources] = useState<SourceFile[]>([]);
+    const [pages, setPages] = useState<OcrPage[] | null>(null);
+    const [progress, setProgress] = useState<OcrProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    /** Reads `input` as it is now; the sources are kept so later changes to them can be told apart. */
+    const run = useCallback(async (input: SourceFile[]) => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        const images = input.filter(isImageFile);
+        setSources(input);
+        setPages(null);
+        setError(null);
+        setProgress(images.length ? { page: 1, pageCount: images.length, fraction: null } : null);
+        try {
+            // The engine is only loaded when there are images to read.
+            const read = images.length ? await recognizePages(images, setProgress, controller.signal) : [];
+            setPages(input.map(source => isImageFile(source)
+                ? read.find(page => page.sourceId === source.id)!
+                : { sourceId: source.id, name: source.name, text: source.text, confidence: 100, words: [] }));
+        } catch (e) {
+            if (controller.signal.aborted) return;
+            setError(e instanceof Error && e.message ? e.message : 'The pages could not be read on this device.');
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setProgress(null);
+            }
+        }
+    }, []);
+
+    /** Replaces the text of one page with the user's correction. */
+    const updateText = useCallback((sourceId: string, text: string) => {
+        setPages(prev => prev && prev.map(page => page.sourceId === sourceId ? { ...page, text } : page));
+    }, []);
+
+    /** Stops a run in progress and forgets the result. */
+    const clear = useCallback(() => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+        setSources([]);
+        setPages(null);
+        setProgress(null);
+        setError(null);
+    }, []);
+
+    return { sources, pages, progress, isRunning: progress !== null, error, run, updateText, clear };
+}
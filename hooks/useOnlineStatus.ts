@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+
+/** Whether the browser thinks it is online, updated as the connection comes and goes. */
+export function useOnlineStatus(): boolean {
+    const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+
+    return isOnline;
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ImageFile, SummaryReport } from '../types';
+import { toStoredPages } from '../services/imageProcessing';
+import { downloadBackup, restoreBackup, type RestoreResult } from '../services/libraryBackup';
+import { deleteReport, getStorageUsage, listReports, putReport, requestPersistentStorage, type StorageUsage } from '../services/reportRepository';
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'An unknown storage error occurred.';
+}
+
+/**
+ * Loads the saved reports from IndexedDB and keeps them in sync with it.
+ * Writes update state only once they have been committed, and failures are
+ * exposed through `error` instead of being swallowed.
+ */
+export function useSavedReports() {
+    const [reports, setReports] = useState<SummaryReport[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+    const refreshUsage = useCallback(() => {
+        getStorageUsage().then(setUsage).catch(e => console.error(e));
+    }, []);
+
+    useEffect(() => {
+        listReports()
+            .then(setReports)
+            .catch(e => setError(errorMessage(e)))
+            .finally(() => setIsLoading(false));
+        refreshUsage();
+    }, [refreshUsage]);
+
+    /**
+     * Inserts or replaces a report, storing compressed copies of `images` as its
+     * pages when given. Resolves to false (and sets `error`) when the write fails.
+     */
+    const saveReport = useCallback(async (report: SummaryReport, images?: ImageFile[]): Promise<boolean> => {
+        try {
+            if (images?.length) {
+                report = { ...report, page_count: images.length };
+                await putReport(report, await toStoredPages(report.id, images));
+            } else {
+                await putReport(report);
+            }
+            if (!usage?.persisted) {
+                requestPersistentStorage().catch(e => console.error(e));
+            }
+            setReports(prev => [report, ...prev.filter(r => r.id !== report.id)].sort((a, b) => b.timestamp.localeCompare(a.timestamp)));
+            setError(null);
+            return true;
+        } catch (e) {
+            setError(errorMessage(e));
+            return false;
+        } finally {
+            refreshUsage();
+        }
+    }, [refreshUsage, usage?.persisted]);
+
+    const removeReport = useCallback(async (id: string): Promise<boolean> => {
+        try {
+            await deleteReport(id);
+            setReports(prev => prev.filter(r => r.id !== id));
+            setError(null);
+            return true;
+        } catch (e) {
+            setError(errorMessage(e));
+            return false;
+        } finally {
+            refreshUsage();
+        }
+    }, [refreshUsage]);
+
+    /** Downloads a backup of the whole library. Resolves to false (and sets `error`) when it fails. */
+    const backupLibrary = useCallback(async (): Promise<boolean> => {
+        try {
+            await downloadBackup();
+            setError(null);
+            return true;
+        } catch (e) {
+            setError(errorMessage(e));
+            return false;
+        }
+    }, []);
+
+    /**
+     * Adds the reports in a backup file to the library without replacing any
+     * saved ones. Resolves to null (and sets `error`) when the file cannot be restored.
+     */
+    const restoreLibrary = useCallback(async (file: File): Promise<RestoreResult | null> => {
+        try {
+            const result = await restoreBackup(file);
+            setReports(await listReports());
+            setError(null);
+            return result;
+        } catch (e) {
+            setError(errorMessage(e));
+            // Reports restored before the failure are saved; show them.
+            listReports().then(setReports).catch(err => console.error(err));
+            return null;
+        } finally {
+            refreshUsage();
+        }
+    }, [refreshUsage]);
+
+    return { reports, isLoading, error, clearError: () => setError(null), usage, saveReport, removeReport, backupLibrary, restoreLibrary };
+}
@@ -0,0 +1,84 @@
+// Service worker: keeps the app shell and the libraries it loads from CDNs in
+// the cache, so the app starts without a connection. Saved reports, chats and
+// queued scans live in IndexedDB and need nothing from here.
+
+const CACHE = 'tc-summarizer-v1';
+const APP_SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png'];
+/** Hosts the importmap, Tailwind and the OCR engine load from. */
+const CDN_HOSTS = ['aistudiocdn.com', 'cdn.tailwindcss.com', 'cdn.jsdelivr.net'];
+
+/** The built scripts and styles index.html refers to, which are needed before anything else loads. */
+async function shellAssets() {
+    const html = await (await fetch('/index.html', { cache: 'reload' })).text();
+    return Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1]);
+}
+
+self.addEventListener('install', (event) => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(CACHE);
+        await cache.addAll([...APP_SHELL, ...(await shellAssets().catch(() => []))]);
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => name !== CACHE).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+/** Answers from the network and keeps a copy, falling back to the copy when offline. */
+async function networkFirst(request, fallbackUrl) {
+    const cache = await caches.open(CACHE);
+    try {
+        const response = await fetch(request);
+        if (response.ok) cache.put(fallbackUrl ?? request, response.clone());
+        return response;
+    } catch (error) {
+        const cached = await cache.match(fallbackUrl ?? request);
+        if (cached) return cached;
+        throw error;
+    }
+}
+
+/** Fetches and keeps a copy. Scripts from other origins may come back opaque (status 0); they are still usable. */
+async function fetchAndKeep(cache, request) {
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') await cache.put(request, response.clone());
+    return response;
+}
+
+/** Answers from the cache, fetching the first time. For files that never change under their URL. */
+async function cacheFirst(request) {
+    const cache = await caches.open(CACHE);
+    return (await cache.match(request)) ?? fetchAndKeep(cache, request);
+}
+
+/** Answers from the cache when it can and refreshes the copy in the background, for CDN URLs that follow version ranges. */
+async function staleWhileRevalidate(event) {
+    const cache = await caches.open(CACHE);
+    const cached = await cache.match(event.request);
+    const refreshed = fetchAndKeep(cache, event.request);
+    if (!cached) return refreshed;
+    event.waitUntil(refreshed.catch(() => {}));
+    return cached;
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    // API calls are POSTs and are never cached.
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate') {
+        // Every page of the app is the same shell.
+        event.respondWith(networkFirst(request, '/index.html'));
+    } else if (url.origin === self.location.origin) {
+        // Built files carry a content hash in their name.
+        event.respondWith(url.pathname.startsWith('/assets/') ? cacheFirst(request) : networkFirst(request));
+    } else if (CDN_HOSTS.includes(url.hostname)) {
+        event.respondWith(staleWhileRevalidate(event));
+    }
+});
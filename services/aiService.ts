@@ -0,0 +1,569 @@
+import type { AnalysisMode, ChatMessage, Citation, ImageFile, KeyClause, LanguageCode, Localized, PassageRef, SummaryReport } from '../types';
+import { getAIProvider, type JsonSchema } from './providers';
+import type { GenerateRequest } from './providers/types';
+import { CLAUSE_CATEGORIES, RISK_SEVERITIES, computeRiskScore } from './riskScoring';
+import { QUOTE_MARKER, locateQuote } from './textSpans';
+import { LANGUAGES, withEnglish } from './languages';
+import type { ChangeNote, ReportDiff } from './reportDiff';
+import { searchCollection, searchPassages, type Passage, type PassageIndex, type SourcedPassage } from './retrieval';
+import { InvalidAIResponseError, parseModelJson, validateAgainstSchema, type ValidationIssue } from './jsonValidation';
+
+/** How many times the model is re-prompted with its validation errors before giving up. */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Analysis happens in English; the translate step adds the other languages afterwards.
+const clauseSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        clause: { type: 'string', description: "The title or a key phrase of the clause." },
+        category: { type: 'string', enum: CLAUSE_CATEGORIES, description: "The kind of clause." },
+        severity: { type: 'string', enum: RISK_SEVERITIES, description: "How much the clause could hurt the user." },
+        rationale: { type: 'string', description: "One short sentence explaining the severity." },
+        quote: { type: 'string', description: "The clause's key sentence, copied verbatim from the extracted text." },
+        explanation_en: { type: 'string', description: "A simple explanation of the clause in English." },
+    },
+    required: ["clause", "category", "severity", "rationale", "quote", "explanation_en"]
+};
+
+const thoroughClauseSchema: JsonSchema = {
+    ...clauseSchema,
+    properties: {
+        ...clauseSchema.properties,
+        section: { type: 'string', description: "The heading of the document section containing the clause." },
+    },
+    required: [...clauseSchema.required!, "section"],
+};
+
+function buildSummarySchema(mode: AnalysisMode): JsonSchema {
+    return {
+        type: 'object',
+        properties: {
+            summary_en: {
+                type: 'string',
+                description: "A concise summary of the document in simple English."
+            },
+            key_clauses: mode === 'quick' ? {
+                type: 'array',
+                description: "An array of up to 5 most critical clauses.",
+                items: clauseSchema,
+            } : {
+                type: 'array',
+                description: "Every notable clause in the document, in document order.",
+                items: thoroughClauseSchema,
+            }
+        },
+        required: ["summary_en", "key_clauses"]
+    };
+}
+
+const clauseInstructions: Record<AnalysisMode, string> = {
+    quick: "Identify and list up to 5 most critical clauses a user should be aware of. For each clause, provide a brief explanation in simple English. Examples include: automatic subscription renewals, data privacy and sharing policies, termination clauses, liability limitations, and arbitration clauses.",
+    thorough: "Go through the document section by section and list EVERY clause that creates an obligation, waives a right, involves money or data, or limits the company's responsibility, including obscure or unusual ones. Keep them in document order and give the heading of the section each one appears under. For each clause, provide a brief explanation in simple English.",
+};
+
+const analysisInstructions = (mode: AnalysisMode) => [
+    "Provide a concise summary in simple English.",
+    clauseInstructions[mode],
+    `Categorise each clause (${CLAUSE_CATEGORIES.join(', ')}) and rate its severity for the user as low, medium or high, with a one-sentence rationale. High is for clauses that can cost the user money, waive legal rights or expose personal data; low is for routine, expected terms.`,
+    "For each clause, quote its key sentence exactly as it appears in the text, without paraphrasing.",
+    "Return the entire response as a single JSON object matching the provided schema. Do not include any text outside the JSON object or any markdown formatting.",
+].map((step, index) => `${index + 1}.  ${step}`).join('\n');
+
+export type GeneratedSummary = Omit<SummaryReport, 'id' | 'title' | 'timestamp'>;
+
+/** A clause as found by the analysis, before its title and explanation are translated. */
+export type DraftClause = Omit<KeyClause, 'clause' | 'explanation' | 'span'> & { clause: string; explanation_en: string };
+
+/** The English-only result of the summarise step, waiting to be translated. */
+export interface DraftSummary {
+    full_text: string;
+    summary_en: string;
+    key_clauses: DraftClause[];
+}
+
+/** Analyses a document's text in a single request. Long documents go through analyseChunk and mergeChunkAnalyses instead. */
+export const summariseText = async (text: string, mode: AnalysisMode, model?: string, signal?: AbortSignal): Promise<DraftSummary> => {
+    const prompt = `You are an expert legal assistant specializing in simplifying complex terms and conditions for laypeople. Analyze the following document text.
+
+--- BEGIN TEXT ---
+${text}
+--- END TEXT ---
+
+${analysisInstructions(mode)}`;
+
+    const result = await generateStructured<Omit<DraftSummary, 'full_text'>>({
+        task: mode === 'quick' ? 'summary' : 'thoroughSummary',
+        prompt,
+        model,
+        signal,
+        schema: buildSummarySchema(mode),
+    });
+    return { full_text: text, summary_en: result.summary_en, key_clauses: result.key_clauses };
+};
+
+/** What the model writes for a page with no readable text, since empty strings fail validation. */
+const BLANK_PAGE = '[blank page]';
+
+const transcriptionSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        pages: {
+            type: 'array',
+            description: "The extracted text of each attached image, one entry per image, in the order they were attached.",
+            items: { type: 'string', description: `The full text of one image, or "${BLANK_PAGE}" if it has none.` },
+        },
+    },
+    required: ["pages"],
+};
+
+/**
+ * Extracts the text of a batch of page images, one string per image, given
+ * the page number of each. Pages without text come back empty.
+ */
+export const transcribePages = async (images: ImageFile[], pageNumbers: number[], model?: string, signal?: AbortSignal): Promise<string[]> => {
+    const prompt = `You are an accurate OCR engine. ${images.length} page images of a Terms and Conditions document are attached, in reading order: they are pages ${pageNumbers.join(', ')} of the document, in that order. Extract the full text of each image exactly as written, keeping headings and paragraph breaks. Do not summarise, translate or correct anything. If an image has no readable text, write "${BLANK_PAGE}" for it.
+
+Return the entire response as a single JSON object matching the provided schema, with exactly ${images.length} entries in "pages". Do not include any text outside the JSON object or any markdown formatting.`;
+
+    const result = await generateStructured<{ pages: string[] }>({ task: 'transcribe', prompt, images, model, signal, schema: transcriptionSchema });
+    if (result.pages.length !== images.length) {
+        throw new InvalidAIResponseError([{ path: 'pages', message: `expected ${images.length} entries but got ${result.pages.length}` }]);
+    }
+    return result.pages.map(text => text.trim() === BLANK_PAGE ? '' : text);
+};
+
+/** The clauses found in one part of a long document, plus notes for the final summary. */
+export interface ChunkAnalysis {
+    notes: string;
+    key_clauses: DraftClause[];
+}
+
+function buildChunkSchema(mode: AnalysisMode): JsonSchema {
+    return {
+        type: 'object',
+        properties: {
+            notes: { type: 'string', description: "A few sentences in English on what this part of the document covers." },
+            key_clauses: {
+                type: 'array',
+                description: mode === 'quick' ? "Up to 5 most critical clauses in this part." : "Every notable clause in this part, in document order.",
+                items: mode === 'quick' ? clauseSchema : thoroughClauseSchema,
+            },
+        },
+        required: ["notes", "key_clauses"],
+    };
+}
+
+/** Finds the clauses in one part of a long document that is analysed piece by piece. */
+export const analyseChunk = async (chunk: string, part: number, partCount: number, mode: AnalysisMode, model?: string, signal?: AbortSignal): Promise<ChunkAnalysis> => {
+    const prompt = `You are an expert legal assistant specializing in simplifying complex terms and conditions for laypeople. A long document is being analysed in parts. Below is part ${part} of ${partCount}.
+
+--- BEGIN TEXT ---
+${chunk}
+--- END TEXT ---
+
+1.  Write a few sentences of notes, in English, on what this part covers. They will be used to summarise the whole document later.
+2.  ${clauseInstructions[mode].replace(/the document/g, 'this part')} If this part has no such clauses, return an empty list.
+3.  Categorise each clause (${CLAUSE_CATEGORIES.join(', ')}) and rate its severity for the user as low, medium or high, with a one-sentence rationale.
+4.  For each clause, quote its key sentence exactly as it appears in the text above, without paraphrasing.
+5.  Return the entire response as a single JSON object matching the provided schema. Do not include any text outside the JSON object or any markdown formatting.`;
+
+    return generateStructured<ChunkAnalysis>({ task: 'chunkClauses', prompt, model, signal, schema: buildChunkSchema(mode) });
+};
+
+const mergeSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary_en: { type: 'string', description: "A concise summary of the whole document in simple English." },
+        selected_clauses: {
+            type: 'array',
+            description: "The numbers of the candidate clauses to keep, without duplicates.",
+            items: { type: 'integer' },
+        },
+    },
+    required: ["summary_en", "selected_clauses"],
+};
+
+/**
+ * The reduce step for a long document: summarises the whole from the per-part
+ * notes and picks which candidate clauses to keep, dropping duplicates found in
+ * more than one part. Clauses are chosen by number rather than rewritten, so
+ * their quotes stay verbatim and the reply stays short.
+ */
+export const mergeChunkAnalyses = async (fullText: string, chunks: ChunkAnalysis[], mode: AnalysisMode, model?: string, signal?: AbortSignal): Promise<DraftSummary> => {
+    // Identical quotes are certain duplicates and need not cost the model any attention.
+    const seen = new Set<string>();
+    const candidates = chunks.flatMap(chunk => chunk.key_clauses).filter(clause => {
+        const key = (clause.quote ?? clause.clause).toLowerCase().replace(/\s+/g, ' ').trim();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+    const notes = chunks.map((chunk, index) => `Part ${index + 1}: ${chunk.notes}`).join('\n');
+    const list = candidates.map((clause, index) => `[${index}] ${clause.clause} (${clause.category ?? 'other'}, ${clause.severity ?? 'unrated'}): "${clause.quote ?? ''}"`).join('\n');
+    const selection = mode === 'quick'
+        ? "Pick the numbers of the up to 5 most critical clauses, most important first."
+        : "Pick the numbers of every clause worth keeping, in document order.";
+
+    const prompt = `You are an expert legal assistant specializing in simplifying complex terms and conditions for laypeople. A long document was analysed in ${chunks.length} parts. Below are notes on each part and the candidate clauses found in them.
+
+NOTES:
+${notes}
+
+CANDIDATE CLAUSES:
+${list || '(none)'}
+
+1.  Provide a concise summary of the whole document in simple English.
+2.  ${selection} When the same clause was found in more than one part, keep only the clearest one.
+3.  Return the entire response as a single JSON object matching the provided schema. Do not include any text outside the JSON object or any markdown formatting.`;
+
+    const result = await generateStructured<{ summary_en: string; selected_clauses: number[] }>({
+        task: 'mergeSummary',
+        prompt,
+        model,
+        signal,
+        schema: mergeSchema,
+    });
+    const picked = Array.from(new Set(result.selected_clauses)).filter(index => index >= 0 && index < candidates.length);
+    return { full_text: fullText, summary_en: result.summary_en, key_clauses: picked.map(index => candidates[index]) };
+};
+
+/** A summary and its clause titles and explanations in one language, in clause order. */
+export interface Translation {
+    summary: string;
+    titles: string[];
+    explanations: string[];
+}
+
+function buildTranslationSchema(languages: LanguageCode[]): JsonSchema {
+    return {
+        type: 'object',
+        properties: Object.fromEntries(languages.map((code): [string, JsonSchema] => [code, {
+            type: 'object',
+            description: `Everything translated into ${LANGUAGES[code].name}.`,
+            properties: {
+                summary: { type: 'string', description: `The summary in ${LANGUAGES[code].name}.` },
+                titles: {
+                    type: 'array',
+                    description: `Each numbered clause title in ${LANGUAGES[code].name}, in the same order.`,
+                    items: { type: 'string' },
+                },
+                explanations: {
+                    type: 'array',
+                    description: `Each numbered clause explanation in ${LANGUAGES[code].name}, in the same order.`,
+                    items: { type: 'string' },
+                },
+            },
+            required: ["summary", "titles", "explanations"],
+        }])),
+        required: languages,
+    };
+}
+
+/**
+ * Translates an English summary and its clause titles and explanations into
+ * the given languages in one request. English itself is skipped, so asking
+ * for English only costs nothing.
+ */
+export const translateTexts = async (
+    english: Translation,
+    languages: LanguageCode[],
+    model?: string,
+    signal?: AbortSignal,
+): Promise<Partial<Record<LanguageCode, Translation>>> => {
+    const targets = languages.filter(code => code !== 'en');
+    if (targets.length === 0) return {};
+    const numbered = (texts: string[]) => texts.map((text, index) => `[${index}] ${text}`).join('\n') || '(none)';
+    const prompt = `You are a careful translator of consumer legal information. Translate the following English texts into simple, natural ${targets.map(code => LANGUAGES[code].name).join(', ')} that a layperson understands. Keep company names and amounts unchanged.
+
+SUMMARY:
+${english.summary}
+
+CLAUSE TITLES:
+${numbered(english.titles)}
+
+CLAUSE EXPLANATIONS:
+${numbered(english.explanations)}
+
+Return the entire response as a single JSON object matching the provided schema, with one entry per language and exactly ${english.titles.length} titles and ${english.explanations.length} explanations in each. Do not include any text outside the JSON object or any markdown formatting.`;
+
+    const result = await generateStructured<Partial<Record<LanguageCode, Translation>>>({
+        task: 'translate',
+        prompt,
+        model,
+        signal,
+        schema: buildTranslationSchema(targets),
+    });
+    const issues = targets.flatMap(code => (['titles', 'explanations'] as const)
+        .filter(field => result[code]![field].length !== english[field].length)
+        .map(field => ({ path: `${code}.${field}`, message: `expected ${english[field].length} entries but got ${result[code]![field].length}` })));
+    if (issues.length > 0) {
+        throw new InvalidAIResponseError(issues);
+    }
+    return result;
+};
+
+/** Adds translations to a summary and its clauses, keeping the languages they already have. */
+function applyTranslations<T extends { summary: Localized; key_clauses: KeyClause[] }>(target: T, translations: Partial<Record<LanguageCode, Translation>>): T {
+    const summary: Localized = { ...target.summary };
+    const key_clauses = target.key_clauses.map(clause => ({ ...clause, clause: { ...clause.clause }, explanation: { ...clause.explanation } }));
+    for (const [code, translation] of Object.entries(translations) as [LanguageCode, Translation][]) {
+        summary[code] = translation.summary;
+        key_clauses.forEach((clause, index) => {
+            clause.clause[code] = translation.titles[index];
+            clause.explanation[code] = translation.explanations[index];
+        });
+    }
+    return { ...target, summary, key_clauses };
+}
+
+/**
+ * The last step of an analysis: translates the summary, clause titles and
+ * explanations into the chosen languages, then locates each clause's quote in
+ * the text and scores the risk.
+ */
+export const translateSummary = async (draft: DraftSummary, languages: LanguageCode[], mode: AnalysisMode, model?: string, signal?: AbortSignal): Promise<GeneratedSummary> => {
+    const translations = await translateTexts({
+        summary: draft.summary_en,
+        titles: draft.key_clauses.map(clause => clause.clause),
+        explanations: draft.key_clauses.map(clause => clause.explanation_en),
+    }, languages, model, signal);
+    const key_clauses: KeyClause[] = draft.key_clauses.map(({ clause, explanation_en, ...rest }) => ({
+        ...rest,
+        clause: { en: clause },
+        explanation: { en: explanation_en },
+        span: locateQuote(draft.full_text, rest.quote),
+    }));
+    return applyTranslations({
+        full_text: draft.full_text,
+        summary: { en: draft.summary_en },
+        key_clauses,
+        risk_score: computeRiskScore(key_clauses),
+        analysis_mode: mode,
+    }, translations);
+};
+
+/** Translates a saved report into more languages, from its English text. */
+export const translateReport = async (report: SummaryReport, languages: LanguageCode[], model?: string): Promise<SummaryReport> => {
+    const translations = await translateTexts({
+        summary: report.summary.en,
+        titles: report.key_clauses.map(clause => clause.clause.en),
+        explanations: report.key_clauses.map(clause => clause.explanation.en),
+    }, languages, model);
+    return applyTranslations(report, translations);
+};
+
+function buildChangeNoteSchema(languages: LanguageCode[]): JsonSchema {
+    return {
+        type: 'object',
+        properties: Object.fromEntries(languages.map((code): [string, JsonSchema] => [code, {
+            type: 'string',
+            description: `What the changes mean for the user, in simple ${LANGUAGES[code].name}.`,
+        }])),
+        required: languages,
+    };
+}
+
+/** Caps how much changed text is sent, so a rewrite of the whole document still fits the prompt. */
+const MAX_CHANGE_NOTE_CHARS = 12000;
+
+/** Explains a diff in each of the given languages; English is always included. */
+export const generateChangeNote = async (diff: ReportDiff, languages: LanguageCode[]): Promise<ChangeNote> => {
+    const targets = withEnglish(languages);
+    const paragraphChanges = diff.paragraphs.flatMap(change => {
+        switch (change.type) {
+            case 'added': return [`ADDED:\n${change.after}`];
+            case 'removed': return [`REMOVED:\n${change.before}`];
+            case 'changed': return [`BEFORE:\n${change.before}\nAFTER:\n${change.after}`];
+            default: return [];
+        }
+    }).join('\n\n').slice(0, MAX_CHANGE_NOTE_CHARS);
+    const clauseChanges = diff.clauses.map(change => {
+        switch (change.type) {
+            case 'added': return `- New clause: ${change.after.clause.en} (${change.after.severity ?? 'unrated'})`;
+            case 'removed': return `- Removed clause: ${change.before.clause.en}`;
+            case 'changed': return `- Changed clause: ${change.before.clause.en} (${change.before.severity ?? 'unrated'} -> ${change.after.severity ?? 'unrated'})`;
+        }
+    }).join('\n');
+
+    const prompt = `You are an expert legal assistant specializing in simplifying complex terms and conditions for laypeople. A service has updated its terms. Below are the differences between the old version ("${diff.older.title}") and the new version ("${diff.newer.title}").
+
+Explain in a short paragraph, in simple ${targets.map(code => LANGUAGES[code].name).join(', ')}, what changed for the user: what they gain, what they lose and anything they should act on. Ignore purely cosmetic or formatting changes. If nothing meaningful changed, say so.
+
+CLAUSE CHANGES:
+${clauseChanges || '(none detected)'}
+
+TEXT CHANGES:
+${paragraphChanges || '(none detected)'}
+
+Return the entire response as a single JSON object matching the provided schema. Do not include any text outside the JSON object or any markdown formatting.`;
+
+    const what_changed = await generateStructured<Localized>({ task: 'changeNote', prompt, schema: buildChangeNoteSchema(targets) });
+    return { what_changed };
+};
+
+function repairPrompt(prompt: string, issues: ValidationIssue[]): string {
+    const problems = issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+    return `${prompt}
+
+Your previous response did not match the required JSON schema:
+${problems}
+
+Return the complete corrected JSON object. Keep it short enough to finish: if the extracted text is very long, it is better to abbreviate it than to leave the JSON unfinished.`;
+}
+
+/**
+ * Runs a structured request and validates the reply against its schema. Fenced
+ * or truncated JSON is salvaged where possible; otherwise the model is asked
+ * again with the list of problems, up to MAX_REPAIR_ATTEMPTS times.
+ */
+async function generateStructured<T>(request: GenerateRequest & { schema: JsonSchema }): Promise<T> {
+    let issues: ValidationIssue[] = [];
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const prompt = attempt === 0 ? request.prompt : repairPrompt(request.prompt, issues);
+        const responseText = await getAIProvider().generate({ ...request, prompt });
+        // Providers that cannot cancel an in-flight request still must not let its result through.
+        request.signal?.throwIfAborted();
+        const parsed = parseModelJson(responseText);
+        if (parsed === undefined) {
+            issues = [{ path: '(root)', message: 'the response was not valid JSON' }];
+        } else {
+            issues = validateAgainstSchema(parsed, request.schema);
+            if (issues.length === 0) {
+                return parsed as T;
+            }
+        }
+        console.error(`AI response failed validation (attempt ${attempt + 1}):`, issues);
+        console.error("Raw response:", responseText);
+    }
+    throw new InvalidAIResponseError(issues);
+}
+
+/**
+ * Earlier turns as the model originally wrote them, with the quote lines that
+ * were split off into citations put back, so it keeps citing the same way.
+ * Failed replies are dropped together with the question they failed on.
+ */
+function toChatHistory(messages: ChatMessage[]): ChatMessage[] {
+    const history: ChatMessage[] = [];
+    for (const message of messages) {
+        if (message.failed) {
+            if (history[history.length - 1]?.role === 'user') history.pop();
+            continue;
+        }
+        const quotes = message.role === 'model' ? (message.citations ?? []).map(citation => `${QUOTE_MARKER} ${citation.quote}`) : [];
+        history.push({ role: message.role, text: [message.text, ...quotes].join('\n') });
+    }
+    // A question whose reply never arrived would leave two user turns in a row.
+    if (history[history.length - 1]?.role === 'user') history.pop();
+    return history;
+}
+
+/** How many passages of the document are sent with each question. */
+const CHAT_PASSAGE_COUNT = 5;
+
+const DOCUMENT_CHAT_INSTRUCTION = `You are a helpful assistant. The user has scanned a Terms and Conditions document and is asking about it. With each question you receive numbered passages from the document, chosen as the most relevant to it. Answer based ONLY on these passages. If the answer is not in them, say "I cannot find that information in the document."\n\nRefer to the passages you rely on by their number in square brackets, like [2]. After your answer, add one line per passage you relied on, starting with "${QUOTE_MARKER} " followed by the sentence copied word for word from the document.`;
+
+export interface DocumentAnswer {
+    /** The passages sent with the question, in the order they were numbered from 1. */
+    passages: Passage[];
+    /** The reply as it streams in. */
+    stream: AsyncGenerator<string>;
+}
+
+/**
+ * Answers a question about an indexed document, sending only the passages
+ * most relevant to it (and to the previous question, so follow-ups such as
+ * "and how do I cancel it?" still find their topic). When nothing matches,
+ * the opening passages are sent instead. The conversation carries on from
+ * `previousMessages`.
+ */
+export const askDocument = (index: PassageIndex, question: string, previousMessages: ChatMessage[] = []): DocumentAnswer => {
+    const previousQuestion = [...previousMessages].reverse().find(message => message.role === 'user')?.text ?? '';
+    let ranked = searchPassages(index, question, CHAT_PASSAGE_COUNT);
+    if (ranked.length < CHAT_PASSAGE_COUNT && previousQuestion) {
+        const extra = searchPassages(index, `${question} ${previousQuestion}`, CHAT_PASSAGE_COUNT)
+            .filter(candidate => !ranked.some(found => found.passage.index === candidate.passage.index));
+        ranked = [...ranked, ...extra].slice(0, CHAT_PASSAGE_COUNT);
+    }
+    const passages = ranked.length ? ranked.map(found => found.passage) : index.passages.slice(0, CHAT_PASSAGE_COUNT);
+    const chat = getAIProvider().startChat({
+        systemInstruction: DOCUMENT_CHAT_INSTRUCTION,
+        history: toChatHistory(previousMessages),
+    });
+    const prompt = `DOCUMENT PASSAGES:\n${passages.map((passage, i) => `[${i + 1}] ${passage.text}`).join('\n\n')}\n\nQUESTION: ${question}`;
+    return { passages, stream: chat.sendMessageStream(prompt) };
+};
+
+/**
+ * The passages an answer used: those it refers to as `[n]`, plus any that
+ * contain one of its located quotes.
+ */
+export function passagesUsed(answer: string, citations: Citation[], passages: Passage[]): PassageRef[] {
+    const numbers = new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), match => Number(match[1])));
+    passages.forEach((passage, i) => {
+        if (citations.some(({ span }) => span && passage.start <= span.start && span.end <= passage.end)) {
+            numbers.add(i + 1);
+        }
+    });
+    return Array.from(numbers)
+        .filter(number => number >= 1 && number <= passages.length)
+        .sort((a, b) => a - b)
+        .map(number => ({ number, span: { start: passages[number - 1].start, end: passages[number - 1].end } }));
+}
+
+/** How many passages, and how many from any one report, are sent with a question about the library. */
+const LIBRARY_PASSAGE_COUNT = 10;
+const LIBRARY_PASSAGES_PER_REPORT = 2;
+
+const LIBRARY_CHAT_INSTRUCTION = `You are a helpful assistant. The user keeps a library of Terms and Conditions documents from different companies and services, and is asking questions across them. With each question you receive numbered passages, each labelled with the document it comes from, chosen as the most relevant to the question. Answer based ONLY on these passages, naming the documents your answer is about. If the passages do not answer the question, say "I cannot find that information in the saved documents." Do not assume a document lacks a clause just because no passage from it was included.\n\nRefer to the passages you rely on by their number in square brackets, like [2]. After your answer, add one line per passage you relied on, starting with "${QUOTE_MARKER} " followed by the sentence copied word for word from the document.`;
+
+export interface LibraryAnswer {
+    /** The passages sent with the question, in the order they were numbered from 1. */
+    passages: SourcedPassage[];
+    stream: AsyncGenerator<string>;
+}
+
+/** How a report is named to the model: its title, and the company when the user has given one. */
+const reportLabel = (report: SummaryReport) => report.company ? `${report.title} (${report.company})` : report.title;
+
+/**
+ * Answers a question across several saved reports, sending the passages of
+ * the indexed reports most relevant to it, a few per report at most. The
+ * index's source ids are report ids.
+ */
+export const askLibrary = (index: PassageIndex<SourcedPassage>, reports: SummaryReport[], question: string, previousMessages: ChatMessage[] = []): LibraryAnswer => {
+    const byId = new Map(reports.map(report => [report.id, report]));
+    const passages = searchCollection(index, question, LIBRARY_PASSAGE_COUNT, LIBRARY_PASSAGES_PER_REPORT).map(found => found.passage);
+    const chat = getAIProvider().startChat({
+        systemInstruction: LIBRARY_CHAT_INSTRUCTION,
+        history: toChatHistory(previousMessages),
+    });
+    const numbered = passages.map((passage, i) => `[${i + 1}] (From: ${reportLabel(byId.get(passage.sourceId)!)}) ${passage.text}`);
+    const prompt = `DOCUMENT PASSAGES:\n${numbered.join('\n\n') || '(no passage matched the question)'}\n\nQUESTION: ${question}`;
+    return { passages, stream: chat.sendMessageStream(prompt) };
+};
+
+/**
+ * Locates the quotes of a library answer, trying the reports of the passages
+ * sent first, and lists the passages it used with the report each came from.
+ */
+export function libraryAnswerSources(answer: string, quotes: Citation[], passages: SourcedPassage[], reports: SummaryReport[]): { citations: Citation[]; passages: PassageRef[] } {
+    const sentIds = Array.from(new Set(passages.map(passage => passage.sourceId)));
+    const candidates = [...sentIds.map(id => reports.find(report => report.id === id)!), ...reports.filter(report => !sentIds.includes(report.id))];
+    const citations = quotes.map(({ quote }) => {
+        for (const report of candidates) {
+            const span = locateQuote(report.full_text, quote);
+            if (span) return { quote, span, reportId: report.id };
+        }
+        return { quote };
+    });
+    const used = passagesUsed(answer, [], passages).map(ref => ({ ...ref, reportId: passages[ref.number - 1].sourceId }));
+    for (const citation of citations) {
+        const i = passages.findIndex(passage => passage.sourceId === citation.reportId && citation.span && passage.start <= citation.span.start && citation.span.end <= passage.end);
+        if (i !== -1 && !used.some(ref => ref.number === i + 1)) {
+            used.push({ number: i + 1, span: { start: passages[i].start, end: passages[i].end }, reportId: passages[i].sourceId });
+        }
+    }
+    return { citations, passages: used.sort((a, b) => a.number - b.number) };
+}
+
@@ -0,0 +1,226 @@
+import type { AnalysisMode, ImageFile, LanguageCode, RedactionRecord, SourceFile } from '../types';
+import { isImageFile, isTextFile } from './documentIngestion';
+import { withEnglish } from './languages';
+import { compressImage, blobToDataUrl, PAGE_IMAGE_OPTIONS } from './imageProcessing';
+import {
+    analyseChunk, mergeChunkAnalyses, summariseText, transcribePages, translateSummary,
+    type ChunkAnalysis, type DraftSummary, type GeneratedSummary,
+} from './aiService';
+
+// Every analysis runs as a job that moves through fixed stages: page images are
+// prepared, read (OCR) in batches, the text is summarised (in parts when it is
+// long, then merged) and the result is translated. The job records each step's
+// output, so it can be stored and resumed without redoing finished work.
+
+/** How many page images are sent in one transcription request. */
+export const PAGES_PER_BATCH = 4;
+/** Target size of each part of the text analysed on its own. */
+const CHUNK_CHARS = 12000;
+
+export type JobStage = 'upload' | 'ocr' | 'summarise' | 'translate';
+
+export const JOB_STAGES: JobStage[] = ['upload', 'ocr', 'summarise', 'translate'];
+
+/** Rough share of the total time each stage takes, used for the progress percentage. */
+const STAGE_WEIGHTS: Record<JobStage, number> = { upload: 10, ocr: 45, summarise: 35, translate: 10 };
+
+export type PageStatus = 'pending' | 'uploaded' | 'reading' | 'done' | 'failed';
+
+export interface JobPage {
+    source: SourceFile;
+    /** Where the page comes in the document, from 1. Pages are read and joined in this order. */
+    pageNumber: number;
+    status: PageStatus;
+    /** The page's text, once read. */
+    text?: string;
+    error?: string;
+}
+
+export interface AnalysisJob {
+    id: string;
+    createdAt: string;
+    mode: AnalysisMode;
+    /** The languages the result is translated into; always includes English. */
+    languages: LanguageCode[];
+    model?: string;
+    stage: JobStage;
+    pages: JobPage[];
+    /** How many parts the text is analysed in; 0 until the summarise stage starts. */
+    chunkCount: number;
+    /** Results of the parts analysed so far. */
+    chunks: ChunkAnalysis[];
+    /** The English result of the summarise stage, waiting to be translated. */
+    draft?: DraftSummary;
+    /** What was masked before the sources were sent, to record on the report. */
+    redactions?: RedactionRecord[];
+}
+
+/** An analysis put aside while offline, to run once the connection is back. */
+export interface QueuedAnalysis {
+    id: string;
+    queuedAt: string;
+    /** The title of the report, fixed when it was queued. */
+    title: string;
+    job: AnalysisJob;
+    /** The page images to keep with the report. */
+    images: ImageFile[];
+    redactions?: RedactionRecord[];
+}
+
+/** Thrown when some pages could not be read; the others keep their text so only the failed ones need retrying. */
+export class PageReadError extends Error {
+    readonly failedPages: number;
+
+    constructor(failedPages: number) {
+        super(`${failedPages} page${failedPages === 1 ? '' : 's'} could not be read. Retry ${failedPages === 1 ? 'it' : 'them'} to finish the analysis.`);
+        this.name = 'PageReadError';
+        this.failedPages = failedPages;
+    }
+}
+
+/**
+ * Creates a job for `sources`, which are taken to be in reading order: each
+ * becomes the page with its position as page number. Text sources need no
+ * uploading or reading, so they start out done.
+ */
+export function createAnalysisJob(sources: SourceFile[], mode: AnalysisMode, languages: LanguageCode[], model?: string): AnalysisJob {
+    return {
+        id: `job-${Date.now()}`,
+        createdAt: new Date().toISOString(),
+        mode,
+        languages: withEnglish(languages),
+        model,
+        stage: 'upload',
+        pages: sources.map((source, index) => isTextFile(source)
+            ? { source, pageNumber: index + 1, status: 'done', text: source.text }
+            : { source, pageNumber: index + 1, status: 'pending' }),
+        chunkCount: 0,
+        chunks: [],
+    };
+}
+
+/** A job's pages by page number. */
+function pagesInOrder(job: AnalysisJob): JobPage[] {
+    return [...job.pages].sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+/** The images of a job's pages in page order, in their current (compressed, once uploaded) form. */
+export function jobImages(job: AnalysisJob): ImageFile[] {
+    return pagesInOrder(job).map(page => page.source).filter(isImageFile);
+}
+
+/** Overall completion of a job from 0 to 100. */
+export function jobProgress(job: AnalysisJob): number {
+    const images = job.pages.filter(page => isImageFile(page.source));
+    const stageDone: Record<JobStage, number> = {
+        upload: images.length ? images.filter(page => page.status !== 'pending').length / images.length : 1,
+        ocr: images.length ? images.filter(page => page.status === 'done').length / images.length : 1,
+        summarise: job.draft ? 1 : job.chunkCount ? job.chunks.length / (job.chunkCount + 1) : 0,
+        translate: 0,
+    };
+    const current = JOB_STAGES.indexOf(job.stage);
+    // Stages that have nothing to do (no images) do not count towards the total.
+    const stages = JOB_STAGES.filter(stage => images.length > 0 || (stage !== 'upload' && stage !== 'ocr'));
+    const total = stages.reduce((sum, stage) => sum + STAGE_WEIGHTS[stage], 0);
+    const done = stages.reduce((sum, stage) => {
+        const index = JOB_STAGES.indexOf(stage);
+        const fraction = index < current ? 1 : index === current ? stageDone[stage] : 0;
+        return sum + STAGE_WEIGHTS[stage] * fraction;
+    }, 0);
+    return Math.round((done / total) * 100);
+}
+
+/** Splits text into parts of roughly CHUNK_CHARS, breaking between paragraphs where possible. */
+function chunkText(text: string): string[] {
+    const chunks: string[] = [];
+    let current = '';
+    for (const paragraph of text.split(/\n{2,}/)) {
+        if (current && current.length + paragraph.length > CHUNK_CHARS) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+        while (current.length > CHUNK_CHARS) {
+            chunks.push(current.slice(0, CHUNK_CHARS));
+            current = current.slice(CHUNK_CHARS);
+        }
+    }
+    if (current.trim()) chunks.push(current);
+    return chunks;
+}
+
+interface RunOptions {
+    signal?: AbortSignal;
+    /** Called with the job after every step, for display and storage. */
+    onUpdate: (job: AnalysisJob) => void;
+}
+
+/**
+ * Runs a job to the end from wherever it stopped, reporting it after every
+ * step. Pages that are already read and parts already analysed are kept, so
+ * running a job again after a failure or reload only does the remaining work.
+ */
+export async function runAnalysisJob(initial: AnalysisJob, { signal, onUpdate }: RunOptions): Promise<GeneratedSummary> {
+    // Jobs stored before pages were numbered keep the order they were listed in.
+    let job: AnalysisJob = { ...initial, pages: initial.pages.map((page, index) => ({ ...page, pageNumber: page.pageNumber ?? index + 1 })) };
+    const update = (change: Partial<AnalysisJob>) => {
+        signal?.throwIfAborted();
+        job = { ...job, ...change };
+        onUpdate(job);
+    };
+    const updatePages = (indexes: number[], change: Partial<JobPage>) => update({
+        pages: job.pages.map((page, index) => indexes.includes(index) ? { ...page, ...change } : page),
+    });
+
+    // Upload: downscale the images once, so every request after this (and the stored job) is smaller.
+    update({ stage: 'upload' });
+    for (const [index, page] of job.pages.entries()) {
+        if (page.status !== 'pending' || !isImageFile(page.source)) continue;
+        const dataUrl = await blobToDataUrl(await compressImage(page.source.dataUrl, PAGE_IMAGE_OPTIONS));
+        updatePages([index], { status: 'uploaded', source: { ...page.source, dataUrl } });
+    }
+
+    // OCR: read the pages in batches, in page order; a failed batch is marked and the others carry on.
+    update({ stage: 'ocr' });
+    const toRead = job.pages.map((page, index) => index)
+        .filter(index => job.pages[index].status !== 'done')
+        .sort((a, b) => job.pages[a].pageNumber - job.pages[b].pageNumber);
+    for (let start = 0; start < toRead.length; start += PAGES_PER_BATCH) {
+        const batch = toRead.slice(start, start + PAGES_PER_BATCH);
+        updatePages(batch, { status: 'reading', error: undefined });
+        try {
+            const pages = batch.map(index => job.pages[index]);
+            const texts = await transcribePages(pages.map(page => page.source).filter(isImageFile), pages.map(page => page.pageNumber), job.model, signal);
+            batch.forEach((pageIndex, i) => updatePages([pageIndex], { status: 'done', text: texts[i] }));
+        } catch (e) {
+            if (signal?.aborted) throw e;
+            console.error('Failed to read pages:', e);
+            updatePages(batch, { status: 'failed', error: e instanceof Error && e.message ? e.message : 'Could not read this page.' });
+        }
+    }
+    const failed = job.pages.filter(page => page.status === 'failed').length;
+    if (failed > 0) {
+        throw new PageReadError(failed);
+    }
+
+    // Summarise: one request for a short text, otherwise part by part and then merged.
+    update({ stage: 'summarise' });
+    if (!job.draft) {
+        const fullText = pagesInOrder(job).map(page => page.text).filter(Boolean).join('\n\n');
+        const chunks = chunkText(fullText);
+        if (chunks.length <= 1) {
+            update({ chunkCount: 1, draft: await summariseText(fullText, job.mode, job.model, signal) });
+        } else {
+            update({ chunkCount: chunks.length });
+            for (let index = job.chunks.length; index < chunks.length; index++) {
+                const analysis = await analyseChunk(chunks[index], index + 1, chunks.length, job.mode, job.model, signal);
+                update({ chunks: [...job.chunks, analysis] });
+            }
+            update({ draft: await mergeChunkAnalyses(fullText, job.chunks, job.mode, job.model, signal) });
+        }
+    }
+
+    update({ stage: 'translate' });
+    const summary = await translateSummary(job.draft!, job.languages, job.mode, job.model, signal);
+    return { ...summary, source_count: job.pages.length };
+}
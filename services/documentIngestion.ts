@@ -0,0 +1,128 @@
+import type { ImageFile, SourceFile, TextFile } from '../types';
+import { extractLegalText, unwrapSavedPage } from './htmlExtraction';
+
+export const isTextFile = (file: SourceFile): file is TextFile => 'text' in file;
+export const isImageFile = (file: SourceFile): file is ImageFile => 'dataUrl' in file;
+
+/** The `accept` list for the upload input. */
+export const SUPPORTED_UPLOAD_TYPES = [
+    'image/*',
+    'application/pdf',
+    '.docx',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain',
+    '.txt',
+    'text/html',
+    '.html',
+    '.htm',
+    '.mhtml',
+    '.mht',
+].join(',');
+
+// A PDF page with fewer extractable characters than this is treated as a scan.
+const MIN_EMBEDDED_TEXT_CHARS = 40;
+// Rasterised PDF pages are rendered at this scale; 2x keeps small print legible for OCR.
+const PDF_RENDER_SCALE = 2;
+
+type FileKind = 'image' | 'pdf' | 'docx' | 'text' | 'html';
+
+function detectKind(file: File): FileKind | null {
+    const extension = file.name.toLowerCase().split('.').pop() ?? '';
+    if (file.type.startsWith('image/')) return 'image';
+    if (file.type === 'application/pdf' || extension === 'pdf') return 'pdf';
+    if (file.type.includes('wordprocessingml') || extension === 'docx') return 'docx';
+    if (file.type === 'text/html' || file.type === 'multipart/related' || ['html', 'htm', 'mhtml', 'mht'].includes(extension)) return 'html';
+    if (file.type === 'text/plain' || extension === 'txt') return 'text';
+    return null;
+}
+
+let idCounter = 0;
+const nextId = (name: string) => `${name}-${Date.now()}-${idCounter++}`;
+
+function readAsDataUrl(file: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+function textFile(name: string, text: string): TextFile {
+    const trimmed = text.trim();
+    if (!trimmed) {
+        throw new Error(`"${name}" does not contain any text.`);
+    }
+    return { id: nextId(name), name, text: trimmed };
+}
+
+async function ingestPdf(file: File): Promise<SourceFile[]> {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+    const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+    const pages: SourceFile[] = [];
+    try {
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const name = `${file.name} (page ${pageNumber})`;
+            try {
+                const content = await page.getTextContent();
+                const text = content.items
+                    .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+                    .join('')
+                    .trim();
+                if (text.replace(/\s/g, '').length >= MIN_EMBEDDED_TEXT_CHARS) {
+                    pages.push({ id: nextId(name), name, text });
+                    continue;
+                }
+                // No usable text layer: this page is a scan, so hand it to OCR as an image.
+                const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+                const canvas = document.createElement('canvas');
+                canvas.width = Math.ceil(viewport.width);
+                canvas.height = Math.ceil(viewport.height);
+                await page.render({ canvas, viewport }).promise;
+                pages.push({ id: nextId(name), name, dataUrl: canvas.toDataURL('image/jpeg', 0.85) });
+            } finally {
+                page.cleanup();
+            }
+        }
+    } finally {
+        await pdf.destroy();
+    }
+    return pages;
+}
+
+async function ingestDocx(file: File): Promise<TextFile> {
+    const { default: mammoth } = await import('mammoth');
+    const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+    return textFile(file.name, result.value);
+}
+
+/** Reads a saved web page (HTML or MHTML) down to its legal text. */
+export async function readWebPage(file: File): Promise<TextFile> {
+    return textFile(file.name, extractLegalText(unwrapSavedPage(await file.text())));
+}
+
+/**
+ * Turns an uploaded file into analysis input. Images pass straight through;
+ * documents with embedded text become text, and scanned PDF pages are
+ * rasterised so OCR sees them exactly like camera captures.
+ */
+export async function ingestFile(file: File): Promise<SourceFile[]> {
+    switch (detectKind(file)) {
+        case 'image': {
+            const image: ImageFile = { id: nextId(file.name), name: file.name, dataUrl: await readAsDataUrl(file) };
+            return [image];
+        }
+        case 'pdf':
+            return ingestPdf(file);
+        case 'docx':
+            return [await ingestDocx(file)];
+        case 'html':
+            return [await readWebPage(file)];
+        case 'text':
+            return [textFile(file.name, await file.text())];
+        default:
+            throw new Error(`"${file.name}" is not a supported file type. Upload images, PDF, DOCX, TXT or HTML files.`);
+    }
+}
@@ -0,0 +1,316 @@
+// Client-side clean-up of camera photos of paper documents: finding the page
+// in the frame, warping it flat, and boosting contrast so the text reads well.
+// Everything works on canvas `ImageData`, with no server round trip.
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/** The corners of a page, clockwise from top-left. */
+export type Quad = [Point, Point, Point, Point];
+
+export type EnhanceMode = 'none' | 'contrast' | 'binarize';
+
+export const ENHANCE_MODES: EnhanceMode[] = ['none', 'contrast', 'binarize'];
+
+/** Longest side frames are shrunk to before looking for the page; plenty for finding four corners. */
+export const DETECTION_SIZE = 256;
+
+/** Pages covering less of the frame than this are taken to be noise. */
+const MIN_PAGE_AREA = 0.15;
+
+const luminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+function toGrayscale(image: ImageData): Uint8Array {
+    const gray = new Uint8Array(image.width * image.height);
+    for (let p = 0; p < gray.length; p++) {
+        gray[p] = luminance(image.data, p * 4);
+    }
+    return gray;
+}
+
+/** Box blur of the given radius, so print on the page blends into the paper around it. */
+function blur(gray: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+    const horizontal = new Uint8Array(gray.length);
+    const output = new Uint8Array(gray.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let sum = 0;
+            let count = 0;
+            for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++, count++) sum += gray[y * width + k];
+            horizontal[y * width + x] = sum / count;
+        }
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let sum = 0;
+            let count = 0;
+            for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++, count++) sum += horizontal[k * width + x];
+            output[y * width + x] = sum / count;
+        }
+    }
+    return output;
+}
+
+/** Otsu's method: the threshold that best separates the histogram into two classes. */
+function otsuThreshold(gray: Uint8Array): number {
+    const histogram = new Array(256).fill(0);
+    gray.forEach(value => histogram[value]++);
+    const total = gray.length;
+    const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+    let backgroundSum = 0;
+    let backgroundCount = 0;
+    let best = { threshold: 127, variance: 0 };
+    for (let t = 0; t < 256; t++) {
+        backgroundCount += histogram[t];
+        if (!backgroundCount) continue;
+        const foregroundCount = total - backgroundCount;
+        if (!foregroundCount) break;
+        backgroundSum += t * histogram[t];
+        const backgroundMean = backgroundSum / backgroundCount;
+        const foregroundMean = (sum - backgroundSum) / foregroundCount;
+        const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+        if (variance > best.variance) best = { threshold: t, variance };
+    }
+    return best.threshold;
+}
+
+interface Region {
+    pixels: number[];
+    touchesBorder: number;
+}
+
+/** The 4-connected regions of set pixels in a mask. */
+function connectedRegions(mask: Uint8Array, width: number, height: number): Region[] {
+    const seen = new Uint8Array(mask.length);
+    const regions: Region[] = [];
+    for (let start = 0; start < mask.length; start++) {
+        if (!mask[start] || seen[start]) continue;
+        const pixels: number[] = [];
+        const borders = new Set<string>();
+        const stack = [start];
+        seen[start] = 1;
+        while (stack.length) {
+            const p = stack.pop()!;
+            pixels.push(p);
+            const x = p % width;
+            const y = (p - x) / width;
+            if (x === 0) borders.add('left');
+            if (x === width - 1) borders.add('right');
+            if (y === 0) borders.add('top');
+            if (y === height - 1) borders.add('bottom');
+            for (const q of [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1]) {
+                if (q >= 0 && mask[q] && !seen[q]) {
+                    seen[q] = 1;
+                    stack.push(q);
+                }
+            }
+        }
+        regions.push({ pixels, touchesBorder: borders.size });
+    }
+    return regions;
+}
+
+function quadArea(quad: Quad): number {
+    let area = 0;
+    quad.forEach((point, i) => {
+        const next = quad[(i + 1) % 4];
+        area += point.x * next.y - next.x * point.y;
+    });
+    return Math.abs(area) / 2;
+}
+
+function isConvex(quad: Quad): boolean {
+    let sign = 0;
+    for (let i = 0; i < 4; i++) {
+        const [a, b, c] = [quad[i], quad[(i + 1) % 4], quad[(i + 2) % 4]];
+        const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+        if (cross === 0) return false;
+        if (sign && Math.sign(cross) !== sign) return false;
+        sign = Math.sign(cross);
+    }
+    return true;
+}
+
+/**
+ * Looks for a sheet of paper in a (small) frame: the bright region that, once
+ * the print is blurred away, Otsu's threshold separates from a darker
+ * background, preferring regions that do not spill off the frame. Its corners are the region's extreme
+ * points along the diagonals. Returns null when nothing page-shaped is found.
+ */
+export function detectDocument(image: ImageData): Quad | null {
+    const { width, height } = image;
+    const gray = blur(toGrayscale(image), width, height, 2);
+    const threshold = otsuThreshold(gray);
+    const mask = gray.map(value => value > threshold ? 1 : 0);
+    const regions = connectedRegions(mask, width, height)
+        .filter(region => region.pixels.length >= MIN_PAGE_AREA * width * height)
+        .sort((a, b) => a.touchesBorder - b.touchesBorder || b.pixels.length - a.pixels.length);
+    const region = regions[0];
+    // A region reaching three or more edges of the frame is the background, not a page.
+    if (!region || region.touchesBorder >= 3) return null;
+
+    let topLeft = { x: 0, y: 0, score: Infinity };
+    let topRight = { x: 0, y: 0, score: -Infinity };
+    let bottomRight = { x: 0, y: 0, score: -Infinity };
+    let bottomLeft = { x: 0, y: 0, score: Infinity };
+    for (const p of region.pixels) {
+        const x = p % width;
+        const y = (p - x) / width;
+        if (x + y < topLeft.score) topLeft = { x, y, score: x + y };
+        if (x + y > bottomRight.score) bottomRight = { x, y, score: x + y };
+        if (x - y > topRight.score) topRight = { x, y, score: x - y };
+        if (x - y < bottomLeft.score) bottomLeft = { x, y, score: x - y };
+    }
+    const quad: Quad = [topLeft, topRight, bottomRight, bottomLeft].map(({ x, y }) => ({ x, y })) as Quad;
+    const area = quadArea(quad);
+    // The region should fill most of its quad; a blob that doesn't is not a flat page.
+    if (!isConvex(quad) || area < MIN_PAGE_AREA * width * height || region.pixels.length < 0.85 * area) return null;
+    return quad;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export function scaleQuad(quad: Quad, factor: number): Quad {
+    return quad.map(({ x, y }) => ({ x: x * factor, y: y * factor })) as Quad;
+}
+
+/** How far the corners moved between two detections, as a fraction of the frame's diagonal. */
+export function quadMovement(previous: Quad, current: Quad, width: number, height: number): number {
+    return Math.max(...current.map((point, i) => distance(point, previous[i]))) / Math.hypot(width, height);
+}
+
+
+/** Solves the square linear system `a · x = b` by Gaussian elimination with partial pivoting. */
+function solve(a: number[][], b: number[]): number[] {
+    const n = b.length;
+    const m = a.map((row, i) => [...row, b[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        }
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+        for (let row = col + 1; row < n; row++) {
+            const factor = m[row][col] / m[col][col];
+            for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let value = m[row][n];
+        for (let k = row + 1; k < n; k++) value -= m[row][k] * x[k];
+        x[row] = value / m[row][row];
+    }
+    return x;
+}
+
+/** The homography taking the corners of a `width` × `height` rectangle to `quad`. */
+function rectangleToQuad(quad: Quad, width: number, height: number): number[] {
+    const corners: Point[] = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+    const a: number[][] = [];
+    const b: number[] = [];
+    corners.forEach(({ x: u, y: v }, i) => {
+        const { x, y } = quad[i];
+        a.push([u, v, 1, 0, 0, 0, -u * x, -v * x]);
+        b.push(x);
+        a.push([0, 0, 0, u, v, 1, -u * y, -v * y]);
+        b.push(y);
+    });
+    return solve(a, b);
+}
+
+/**
+ * Warps the page inside `quad` to a flat rectangle, sized from the lengths of
+ * the quad's sides and capped at `maxDimension`, sampling bilinearly.
+ */
+export function warpPerspective(source: ImageData, quad: Quad, maxDimension = 2000): ImageData {
+    const [topLeft, topRight, bottomRight, bottomLeft] = quad;
+    let width = Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+    let height = Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    width = Math.max(1, Math.round(width * scale));
+    height = Math.max(1, Math.round(height * scale));
+
+    const h = rectangleToQuad(quad, width, height);
+    const output = new ImageData(width, height);
+    const { data: src, width: srcWidth, height: srcHeight } = source;
+    const out = output.data;
+    for (let v = 0; v < height; v++) {
+        for (let u = 0; u < width; u++) {
+            const w = h[6] * u + h[7] * v + 1;
+            const x = Math.min(srcWidth - 1.001, Math.max(0, (h[0] * u + h[1] * v + h[2]) / w));
+            const y = Math.min(srcHeight - 1.001, Math.max(0, (h[3] * u + h[4] * v + h[5]) / w));
+            const x0 = Math.floor(x);
+            const y0 = Math.floor(y);
+            const fx = x - x0;
+            const fy = y - y0;
+            const i00 = (y0 * srcWidth + x0) * 4;
+            const i10 = i00 + 4;
+            const i01 = i00 + srcWidth * 4;
+            const i11 = i01 + 4;
+            const o = (v * width + u) * 4;
+            for (let c = 0; c < 3; c++) {
+                out[o + c] = (src[i00 + c] * (1 - fx) + src[i10 + c] * fx) * (1 - fy) + (src[i01 + c] * (1 - fx) + src[i11 + c] * fx) * fy;
+            }
+            out[o + 3] = 255;
+        }
+    }
+    return output;
+}
+
+/** Stretches the levels so the darkest and lightest 2% of pixels become black and white. */
+function stretchContrast(image: ImageData): void {
+    const { data } = image;
+    const histogram = new Array(256).fill(0);
+    for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+    const clip = (data.length / 4) * 0.02;
+    let low = 0;
+    for (let seen = 0; low < 255 && (seen += histogram[low]) < clip; low++);
+    let high = 255;
+    for (let seen = 0; high > 0 && (seen += histogram[high]) < clip; high--);
+    if (high <= low) return;
+    const factor = 255 / (high - low);
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) data[i + c] = (data[i + c] - low) * factor;
+    }
+}
+
+/**
+ * Turns the image black and white with a local (Bradley) threshold: each pixel
+ * is compared with the mean of its neighbourhood, so shadows and uneven
+ * lighting across the page do not swallow the text.
+ */
+function binarize(image: ImageData): void {
+    const { data, width, height } = image;
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += luminance(data, (y * width + x) * 4);
+            integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+        }
+    }
+    const radius = Math.max(4, Math.round(Math.max(width, height) / 32));
+    const sensitivity = 0.15;
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.max(0, y - radius);
+        const y1 = Math.min(height, y + radius + 1);
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.max(0, x - radius);
+            const x1 = Math.min(width, x + radius + 1);
+            const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1] - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+            const mean = sum / ((x1 - x0) * (y1 - y0));
+            const i = (y * width + x) * 4;
+            const value = luminance(data, i) < mean * (1 - sensitivity) ? 0 : 255;
+            data[i] = data[i + 1] = data[i + 2] = value;
+        }
+    }
+}
+
+/** Cleans up a page image in place. */
+export function enhanceImage(image: ImageData, mode: EnhanceMode): void {
+    if (mode === 'contrast') stretchContrast(image);
+    if (mode === 'binarize') binarize(image);
+}
@@ -0,0 +1,123 @@
+// Boilerplate removal for web pages, so only the legal text of a terms page is analysed.
+
+// Elements that never carry the document's own text.
+const NON_CONTENT_SELECTOR = [
+    'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'form', 'button', 'select', 'input',
+    'nav', 'header', 'footer', 'aside',
+    '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="dialog"]',
+    '[aria-hidden="true"]', '[hidden]',
+].join(', ');
+
+// Class or id fragments that mark site chrome rather than content.
+const BOILERPLATE_PATTERN = /(^|[-_ ])(nav|navbar|menu|breadcrumbs?|footer|header|masthead|sidebar|cookie|consent|gdpr|banner|share|social|subscribe|newsletter|popup|modal|promo|advert|ads?|related|comments?|skip-link)([-_ ]|$)/i;
+
+const BLOCK_SELECTOR = 'p, div, li, h1, h2, h3, h4, h5, h6, tr, section, article, blockquote, dd, dt, pre';
+
+function removeBoilerplate(root: ParentNode): void {
+    root.querySelectorAll(NON_CONTENT_SELECTOR).forEach(el => el.remove());
+    root.querySelectorAll<HTMLElement>('[class], [id]').forEach(el => {
+        // Headings and paragraphs are content whatever they are called ("section-header").
+        if (/^(H[1-6]|P|LI|DT|DD)$/.test(el.tagName)) return;
+        const label = `${el.getAttribute('class') ?? ''} ${el.id}`;
+        // Never strip a large block just because of its name: some sites wrap everything in "page-header".
+        if (BOILERPLATE_PATTERN.test(label) && (el.textContent?.length ?? 0) < 2000) {
+            el.remove();
+        }
+    });
+}
+
+function textLength(el: Element): number {
+    return (el.textContent ?? '').replace(/\s+/g, ' ').trim().length;
+}
+
+function linkTextLength(el: Element): number {
+    let total = 0;
+    el.querySelectorAll('a').forEach(a => { total += textLength(a); });
+    return total;
+}
+
+/**
+ * Finds the element holding the main text: an explicit `<main>`/`<article>`
+ * if the page has one, otherwise the container with the most non-link text,
+ * preferring the deepest one that still holds most of it.
+ */
+function findMainContent(doc: Document): Element {
+    const explicit = doc.querySelector('main, [role="main"], article');
+    if (explicit && textLength(explicit) > 200) return explicit;
+
+    let best: Element = doc.body;
+    let bestScore = 0;
+    doc.body.querySelectorAll('div, section, article, main, td').forEach(el => {
+        const score = textLength(el) - 2 * linkTextLength(el);
+        if (score > bestScore) {
+            best = el;
+            bestScore = score;
+        }
+    });
+    // The top-scoring element is usually an outer wrapper; descend while one child keeps nearly all the text.
+    let current = best;
+    while (true) {
+        const child = Array.from(current.children).find(c => textLength(c) >= textLength(current) * 0.9);
+        if (!child) return current;
+        current = child;
+    }
+}
+
+function elementToText(el: Element): string {
+    el.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+    el.querySelectorAll(BLOCK_SELECTOR).forEach(block => block.append('\n\n'));
+    return (el.textContent ?? '')
+        .replace(/[ \t\u00a0]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/** Extracts the readable legal text of an HTML page, dropping navigation and other site chrome. */
+export function extractLegalText(html: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    removeBoilerplate(doc);
+    if (!doc.body) return '';
+    return elementToText(findMainContent(doc));
+}
+
+function decodeQuotedPrintable(input: string): string {
+    const bytes: number[] = [];
+    const encoder = new TextEncoder();
+    const soft = input.replace(/=\r?\n/g, '');
+    for (let i = 0; i < soft.length; i++) {
+        if (soft[i] === '=' && /^[0-9A-F]{2}$/i.test(soft.slice(i + 1, i + 3))) {
+            bytes.push(parseInt(soft.slice(i + 1, i + 3), 16));
+            i += 2;
+        } else {
+            bytes.push(...encoder.encode(soft[i]));
+        }
+    }
+    return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+function decodeBase64(input: string): string {
+    const binary = atob(input.replace(/\s+/g, ''));
+    return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+/**
+ * Pulls the HTML out of a browser "Save page as... (single file)" MHTML archive.
+ * Returns the input unchanged when it is not MHTML.
+ */
+export function unwrapSavedPage(raw: string): string {
+    const boundary = raw.match(/boundary="?([^";\r\n]+)"?/i)?.[1];
+    if (!boundary || !/^MIME-Version:/im.test(raw)) return raw;
+    for (const part of raw.split(`--${boundary}`)) {
+        const headerEnd = part.search(/\r?\n\r?\n/);
+        if (headerEnd === -1) continue;
+        const headers = part.slice(0, headerEnd);
+        if (!/Content-Type:\s*text\/html/i.test(headers)) continue;
+        const body = part.slice(headerEnd).trim();
+        const encoding = headers.match(/Content-Transfer-Encoding:\s*([\w-]+)/i)?.[1].toLowerCase();
+        if (encoding === 'quoted-printable') return decodeQuotedPrintable(body);
+        if (encoding === 'base64') return decodeBase64(body);
+        return body;
+    }
+    return raw;
+}
@@ -0,0 +1,289 @@
+import type { Messages } from './en';
+
+export const ar: Messages = {
+    'app.title': 'ملخّص الشروط والأحكام',
+    'app.tagline': 'امسح الشروط والأحكام ضوئيًا للحصول على ملخّص بسيط.',
+    'nav.scanner': 'الماسح',
+    'nav.saved': 'الملخّصات المحفوظة ({count})',
+    'nav.libraryChat': 'اسأل المكتبة',
+    'nav.language': 'لغة الواجهة',
+    'nav.install': 'تثبيت التطبيق',
+
+    'common.analyzing': 'جارٍ التحليل...',
+    'common.back': 'العودة إلى القائمة المحفوظة',
+    'common.cancel': 'إلغاء',
+    'common.close': 'إغلاق',
+    'common.dismiss': 'تجاهل',
+    'common.unknownError': 'حدث خطأ غير معروف.',
+
+    'mode.label': 'نوع التحليل',
+    'mode.quick': 'سريع',
+    'mode.quick.description': 'أهم 5 بنود.',
+    'mode.thorough': 'شامل',
+    'mode.thorough.description': 'كل بند مهم، مجمّعًا حسب القسم. أبطأ.',
+
+    'languages.label': 'اللغات:',
+
+    'storage.hint': 'مساحة تخزين المتصفح التي يستخدمها هذا التطبيق',
+    'storage.used': 'المساحة المستخدمة',
+    'storage.amount': '{used} من {quota} ({percent}%)',
+
+    'scanner.useCamera': 'استخدام الكاميرا',
+    'scanner.uploadFiles': 'رفع ملفات',
+    'scanner.readingFiles': 'جارٍ قراءة الملفات...',
+    'scanner.uploadTypes': 'صور أو PDF أو Word أو نص أو HTML',
+    'scanner.readFileError': 'تعذّرت قراءة "{name}".',
+    'scanner.selectedPages': 'الصفحات المحددة:',
+    'scanner.removePage': 'إزالة {name}',
+    'scanner.reorderHint': 'اسحب الصفحات لترتيبها حسب القراءة؛ سيتم تحليلها بهذا الترتيب.',
+    'scanner.pageNumber': 'الصفحة {number}',
+    'scanner.moveEarlier': 'نقل {name} إلى الأمام',
+    'scanner.moveLater': 'نقل {name} إلى الخلف',
+    'scanner.rotatePage': 'تدوير {name}',
+    'scanner.cropPage': 'قص {name}',
+    'scanner.retakePage': 'إعادة التقاط {name}',
+    'scanner.editError': 'تعذّر تعديل {name}.',
+    'scanner.pasteToggle': 'أو الصق نصًا أو استورد صفحة ويب',
+    'scanner.pastePlaceholder': 'الصق الشروط والأحكام هنا...',
+    'scanner.importHtml': 'استيراد ملف HTML / صفحة محفوظة',
+    'scanner.summarizeText': 'تلخيص النص',
+    'scanner.summarize': 'تلخيص',
+    'scanner.pastedText': 'نص ملصق',
+    'scanner.captureName': 'لقطة {number}',
+    'scanner.pagesNotRead': 'الصفحات التي تعذّرت قراءتها: {count}. أعد المحاولة لإكمال التحليل.',
+    'scanner.defaultTitle': 'ملخّص {date}',
+    'scanner.titleLabel': 'عنوان الملخّص',
+    'scanner.keepImages': 'الاحتفاظ بصور الصفحات',
+    'scanner.keepImagesHint': 'حفظ نسخ مضغوطة من الصفحات مع الملخّص',
+    'scanner.save': 'حفظ',
+    'scanner.saved': 'تم حفظ الملخّص!',
+    'scanner.alreadySaved': 'هذا الملخّص محفوظ بالفعل.',
+    'scanner.startNew': 'بدء مسح جديد',
+
+    'camera.error': 'تعذّر الوصول إلى الكاميرا. يُرجى التحقق من الأذونات والمحاولة مرة أخرى.',
+    'camera.capture': 'التقاط صورة',
+    'camera.autoCrop': 'قص الصفحة تلقائيًا',
+    'camera.enhance': 'التنظيف',
+    'camera.enhance.none': 'الأصلية',
+    'camera.enhance.contrast': 'زيادة التباين',
+    'camera.enhance.binarize': 'أبيض وأسود',
+    'camera.pageFound': 'تم العثور على الصفحة',
+    'camera.noPage': 'لم يتم العثور على صفحة. ضعها على سطح أغمق.',
+    'camera.processing': 'جارٍ المعالجة…',
+    'camera.processError': 'تعذّرت معالجة الصورة. يُرجى المحاولة مرة أخرى.',
+    'camera.continuous': 'متواصل',
+    'camera.autoCapture': 'التقاط تلقائي',
+    'camera.autoCaptureHint': 'يتطلب القص التلقائي للعثور على الصفحة',
+    'camera.holdSteady': 'اثبت…',
+    'camera.done': 'تم ({count})',
+
+    'crop.heading': 'قص {name}',
+    'crop.reset': 'إعادة تعيين',
+    'crop.apply': 'تطبيق',
+
+    'ocr.engine.label': 'قراءة النص',
+    'ocr.engine.cloud': 'النموذج السحابي',
+    'ocr.engine.cloud.description': 'يقرأ نموذج الذكاء الاصطناعي صور الصفحات.',
+    'ocr.engine.device': 'على هذا الجهاز',
+    'ocr.engine.device.description': 'تُقرأ الصفحات في متصفحك؛ ولا يُرسل إلا النص الذي توافق عليه.',
+    'ocr.read': 'قراءة الصفحات',
+    'ocr.offlineFallback': 'أنت غير متصل، لذا ستُقرأ الصفحات على هذا الجهاز.',
+    'ocr.heading': 'راجع قبل الإرسال',
+    'ocr.privacy': 'تبقى صور الصفحات على هذا الجهاز. راجع النص وصحّحه؛ لا يُرسل للملخص إلا هذا النص.',
+    'ocr.loading': 'جارٍ تحميل قارئ النص…',
+    'ocr.reading': 'جارٍ قراءة الصفحة {page} من {total}…',
+    'ocr.confidence': 'الثقة {percent}%',
+    'ocr.uncertain': 'تحقق من هذه الكلمات: {words}',
+    'ocr.pageText': 'نص {name}',
+    'ocr.empty': 'لم يُعثر على نص في هذه الصفحة.',
+    'ocr.unread': 'صفحات أضيفت أو تغيرت بعد قراءتها: {count}.',
+    'ocr.readAgain': 'القراءة مرة أخرى',
+    'ocr.offline': 'أنت غير متصل. أضفه إلى قائمة الانتظار الآن وسيُلخَّص تلقائيًا عند عودة الاتصال.',
+    'ocr.download': 'تنزيل النص',
+    'ocr.summarize': 'تلخيص هذا النص',
+    'ocr.discard': 'تجاهل',
+    'redaction.toggle': 'إخفاء البيانات الشخصية قبل الإرسال',
+    'redaction.toggleHint': 'يتم العثور على الأسماء وبيانات الاتصال وأرقام الحسابات والبطاقات والعناوين وإخفاؤها على هذا الجهاز. تراجعها قبل إرسال أي شيء.',
+    'redaction.review': 'المراجعة والتلخيص',
+    'redaction.privacyImages': 'تُرسل الصفحات كصور مع تغطية البيانات المحددة باللون الأسود. راجعها أدناه.',
+    'redaction.privacyText': 'راجع النص أدناه. يُرسل هذا النص فقط للتلخيص، بعد إزالة البيانات المحددة.',
+    'redaction.heading': 'البيانات الشخصية التي ستُخفى',
+    'redaction.hint': 'تُخفى البيانات المحددة قبل إرسال أي شيء. ألغِ تحديد أي منها لإرساله كما هو، أو أضف ما فات.',
+    'redaction.none': 'لم يُعثر على بيانات شخصية. أضف ما فات.',
+    'redaction.kind.email': 'البريد الإلكتروني',
+    'redaction.kind.phone': 'الهاتف',
+    'redaction.kind.card': 'رقم البطاقة',
+    'redaction.kind.account': 'رقم الحساب',
+    'redaction.kind.address': 'العنوان',
+    'redaction.kind.name': 'الاسم',
+    'redaction.kind.custom': 'مضاف',
+    'redaction.removeTerm': 'إيقاف إخفاء {term}',
+    'redaction.addPlaceholder': 'شيء آخر لإخفائه، مثل اسم',
+    'redaction.add': 'إخفاء',
+    'redaction.preview': 'عرض النص الذي سيُرسل',
+    'redaction.summarizeImages': 'تلخيص الصفحات المخفاة',
+    'redaction.maskError': 'تعذر إخفاء البيانات في الصفحات. لم يُرسل شيء.',
+    'redaction.logHeading': 'البيانات الشخصية المخفاة قبل الإرسال ({count})',
+    'redaction.logHint': 'أُزيلت هذه من المستند قبل إرساله للتحليل. يُحفظ هنا أول حرف وآخر حرف منها فقط.',
+    'queue.heading': 'في قائمة انتظار التحليل ({count})',
+    'queue.hint': 'تُحلَّل المسوحات الموضوعة في قائمة الانتظار دون اتصال وتُحفظ تلقائيًا عند عودة الاتصال.',
+    'queue.details': 'أُضيف إلى القائمة {date} · {count} صفحات',
+    'queue.running': 'جارٍ التحليل… {percent}%',
+    'queue.next': 'سيبدأ قريبًا',
+    'queue.waiting': 'في انتظار الاتصال',
+    'queue.retry': 'إعادة المحاولة',
+    'queue.remove': 'إزالة {title} من قائمة الانتظار',
+    'queue.add': 'إضافة إلى قائمة الانتظار حتى عودة الاتصال',
+    'offline.banner': 'أنت غير متصل. لا يزال بإمكانك قراءة الملخصات المحفوظة ومحادثاتها، وتبقى المسوحات الجديدة في قائمة الانتظار حتى عودة الاتصال.',
+
+    'progress.stage.upload': 'الرفع',
+    'progress.stage.ocr': 'قراءة الصفحات',
+    'progress.stage.summarise': 'التلخيص',
+    'progress.stage.translate': 'الترجمة',
+    'progress.part': 'الجزء {current} من {total}',
+    'progress.pagesRead': 'تمت قراءة {done} من {total} صفحات',
+    'progress.paused': 'متوقف عند {percent}%',
+    'progress.failedPages': 'تعذّرت قراءة {names}. تم الاحتفاظ بباقي الصفحات.',
+    'progress.retryFailed': 'إعادة محاولة الصفحات الفاشلة',
+    'progress.resume': 'استئناف',
+
+    'saved.heading': 'الملخّصات المحفوظة',
+    'saved.compareHint': 'حدّد ملخّصين لنفس الشروط لمعرفة ما تغيّر بينهما.',
+    'saved.compare': 'مقارنة ({count}/2)',
+    'saved.loading': 'جارٍ تحميل الملخّصات المحفوظة...',
+    'saved.empty': 'ليست لديك ملخّصات محفوظة.',
+    'saved.selectForComparison': 'تحديد {title} للمقارنة',
+    'saved.view': 'عرض',
+    'saved.delete': 'حذف',
+    'saved.confirmDelete': 'هل أنت متأكد من حذف هذا الملخّص؟',
+
+    'library.search': 'البحث في الملخّصات المحفوظة',
+    'library.searchPlaceholder': 'ابحث في العناوين والملخّصات والبنود ونص المستند...',
+    'library.tag': 'وسم',
+    'library.allTags': 'كل الوسوم',
+    'library.category': 'فئة البند',
+    'library.allCategories': 'كل فئات البنود',
+    'library.from': 'من',
+    'library.to': 'إلى',
+    'library.sort': 'الترتيب',
+    'library.sort.newest': 'الأحدث أولًا',
+    'library.sort.oldest': 'الأقدم أولًا',
+    'library.sort.title': 'العنوان',
+    'library.sort.risk': 'الأعلى مخاطر أولًا',
+    'library.clear': 'مسح عوامل التصفية',
+    'library.noMatches': 'لا توجد ملخّصات محفوظة تطابق بحثك.',
+    'library.showing': 'عرض {count} من {total}',
+    'library.match.summary': 'الملخّص',
+    'library.match.clause': 'بند',
+    'library.match.full_text': 'المستند',
+
+    'backup.create': 'نسخ المكتبة احتياطيًا',
+    'backup.createHint': 'تنزيل كل الملخّصات المحفوظة وصور صفحاتها في ملف واحد',
+    'backup.creating': 'جارٍ تجهيز النسخة الاحتياطية...',
+    'backup.restore': 'الاستعادة من نسخة احتياطية',
+    'backup.restoreHint': 'إضافة ملخّصات ملف النسخة الاحتياطية إلى هذه المكتبة. لا يُستبدل أي شيء محفوظ هنا.',
+    'backup.restoring': 'جارٍ الاستعادة...',
+    'backup.result': 'تمت استعادة {imported} ملخّصات. تم تخطي {duplicates} موجودة بالفعل في مكتبتك.',
+    'backup.conflicts': 'لم تُستعد {count} ملخّصات لأن ملخّصًا مختلفًا يستخدم المعرّف نفسه:',
+    'backup.conflict': '“{title}” (يتعارض مع “{existing}”)',
+
+    'detail.savedOn': 'حُفظ في {date}',
+    'detail.addTranslation': 'إضافة ترجمة...',
+    'detail.translate': 'ترجمة',
+    'detail.translating': 'جارٍ الترجمة...',
+    'detail.originalPages': 'الصفحات الأصلية ({count})',
+    'detail.loadPagesError': 'تعذّر تحميل صور الصفحات.',
+    'detail.rerunHeading': 'تحليل هذه الصفحات مرة أخرى',
+    'detail.rerunModel': 'النموذج (اختياري، يُستخدم الافتراضي)',
+    'detail.rerun': 'إعادة التشغيل',
+    'detail.rerunHint': 'يُحفظ التحليل الجديد كملخّص منفصل، لتتمكن من مقارنته بهذا الملخّص.',
+    'detail.rerunPartial': 'قُرئت بعض صفحات هذا المستند كنص ولم تُحفظ، لذا لا يمكن تحليله مجددًا من الصفحات المحفوظة.',
+
+    'labels.company': 'الشركة أو الخدمة',
+    'labels.companyPlaceholder': 'الشركة أو الخدمة...',
+    'labels.addTag': 'أضف وسمًا...',
+    'labels.add': 'إضافة',
+    'labels.removeTag': 'إزالة الوسم {tag}',
+
+    'export.label': 'تصدير:',
+    'export.language': 'لغة التصدير',
+    'export.pdf': 'PDF',
+    'export.pdfHint': 'يفتح نافذة الطباعة. اختر "حفظ بتنسيق PDF" كطابعة.',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.html': 'HTML',
+    'export.htmlHint': 'ملف واحد يُفتح في أي متصفح، حتى دون اتصال.',
+    'export.analysedOn': 'حُلّل في {date}',
+    'export.fullText': 'النص المستخرج كاملًا',
+
+    'pages.previous': 'السابق',
+    'pages.next': 'التالي',
+    'pages.position': 'الصفحة {current} من {total}',
+    'pages.thumbnail': 'الصفحة {number}',
+
+    'summary.riskScoreHint': 'درجة المخاطر الإجمالية (0-100)',
+    'summary.risk': 'مخاطر',
+    'summary.overallRisk': 'المخاطر الإجمالية: {level}',
+    'summary.summary': 'الملخّص',
+    'summary.keyClauses': 'البنود الرئيسية',
+    'summary.quoteNotFound': 'لم يُعثر على الاقتباس في المستند، وربما يكون مختلقًا',
+    'summary.quoteNotFoundHint': 'هذا الاقتباس غير موجود في النص المستخرج. ربما اختلقه الذكاء الاصطناعي.',
+    'summary.viewFullText': 'عرض النص المستخرج كاملًا',
+
+    'category.auto_renewal': 'التجديد التلقائي',
+    'category.data_sharing': 'مشاركة البيانات',
+    'category.arbitration': 'التحكيم',
+    'category.liability': 'المسؤولية',
+    'category.termination': 'الإنهاء',
+    'category.changes_to_terms': 'تغييرات الشروط',
+    'category.payment': 'الدفع',
+    'category.other': 'أخرى',
+
+    'severity.low': 'منخفض',
+    'severity.medium': 'متوسط',
+    'severity.high': 'مرتفع',
+    'severity.unrated': 'غير مصنّف',
+
+    'chat.heading': 'اطرح سؤالًا',
+    'chat.placeholder': 'اسأل عن المستند...',
+    'chat.offline': 'أنت غير متصل. أعد الاتصال لطرح الأسئلة.',
+    'chat.send': 'إرسال',
+    'chat.error': 'عذرًا، حدث خطأ ما.',
+    'chat.quoteNotFound': 'غير موجود في المستند',
+    'chat.quoteNotFoundHint': 'هذا الاقتباس غير موجود في المستند. ربما اختلقه الذكاء الاصطناعي.',
+    'chat.clear': 'مسح المحادثة',
+    'chat.confirmClear': 'هل تريد حذف هذه المحادثة؟ ستبقى الملاحظات المثبّتة.',
+    'chat.loading': 'جارٍ تحميل المحادثة...',
+    'chat.pin': 'تثبيت كملاحظة',
+    'chat.passagesUsed': 'المقاطع المستخدمة:',
+
+    'notes.heading': 'الملاحظات',
+    'notes.remove': 'إزالة الملاحظة',
+
+    'libraryChat.heading': 'اسأل مكتبتك',
+    'libraryChat.scope': 'البحث في:',
+    'libraryChat.scopeAll': 'كل الملخّصات المحفوظة',
+    'libraryChat.scopeTag': 'الموسومة بـ “{tag}”',
+    'libraryChat.scopeCount': '{count} من {total} ملخّصات',
+    'libraryChat.choose': 'أو اختر الملخّصات يدويًا',
+    'libraryChat.selectedCount': 'تم اختيار {count} ملخّصات',
+    'libraryChat.clearSelection': 'مسح الاختيار',
+    'libraryChat.hint': 'اطرح سؤالًا عبر الشروط المحفوظة، مثل “ما الخدمات التي تتجدد تلقائيًا؟” تذكر الإجابات الملخّصات والمقاطع التي جاءت منها.',
+    'libraryChat.placeholder': 'اسأل عن شروطك المحفوظة...',
+
+    'compare.heading': 'مقارنة الإصدارات',
+    'compare.older': 'الأقدم',
+    'compare.newer': 'الأحدث',
+    'compare.whatChanged': 'ما الذي تغيّر بالنسبة لك',
+    'compare.comparing': 'يقارن الذكاء الاصطناعي بين الإصدارين...',
+    'compare.identical': 'الإصداران متطابقان.',
+    'compare.clauseChanges': 'تغييرات البنود',
+    'compare.added': 'مُضاف:',
+    'compare.removed': 'محذوف:',
+    'compare.changed': 'معدّل:',
+    'compare.textChanges': 'تغييرات النص',
+    'compare.showUnchanged': 'إظهار ما لم يتغيّر',
+    'compare.inline': 'مدمج',
+    'compare.sideBySide': 'جنبًا إلى جنب',
+    'compare.noDifferences': 'لا توجد اختلافات في النص المستخرج.',
+};
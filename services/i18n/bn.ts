@@ -0,0 +1,289 @@
+import type { Messages } from './en';
+
+export const bn: Messages = {
+    'app.title': 'শর্তাবলী সারসংক্ষেপক',
+    'app.tagline': 'সহজ সারসংক্ষেপ পেতে শর্তাবলী স্ক্যান করুন।',
+    'nav.scanner': 'স্ক্যানার',
+    'nav.saved': 'সংরক্ষিত সারসংক্ষেপ ({count})',
+    'nav.libraryChat': 'লাইব্রেরিকে জিজ্ঞাসা',
+    'nav.language': 'ইন্টারফেসের ভাষা',
+    'nav.install': 'অ্যাপ ইনস্টল করুন',
+
+    'common.analyzing': 'বিশ্লেষণ চলছে...',
+    'common.back': 'সংরক্ষিত তালিকায় ফিরে যান',
+    'common.cancel': 'বাতিল',
+    'common.close': 'বন্ধ করুন',
+    'common.dismiss': 'সরিয়ে দিন',
+    'common.unknownError': 'একটি অজানা ত্রুটি ঘটেছে।',
+
+    'mode.label': 'বিশ্লেষণের ধরন',
+    'mode.quick': 'দ্রুত',
+    'mode.quick.description': 'সবচেয়ে গুরুত্বপূর্ণ ৫টি ধারা।',
+    'mode.thorough': 'বিস্তারিত',
+    'mode.thorough.description': 'অংশ অনুযায়ী সাজানো প্রতিটি উল্লেখযোগ্য ধারা। সময় বেশি লাগে।',
+
+    'languages.label': 'ভাষা:',
+
+    'storage.hint': 'এই অ্যাপ ব্রাউজারের যতটুকু জায়গা ব্যবহার করছে',
+    'storage.used': 'ব্যবহৃত জায়গা',
+    'storage.amount': '{quota}-এর মধ্যে {used} ({percent}%)',
+
+    'scanner.useCamera': 'ক্যামেরা ব্যবহার করুন',
+    'scanner.uploadFiles': 'ফাইল আপলোড করুন',
+    'scanner.readingFiles': 'ফাইল পড়া হচ্ছে...',
+    'scanner.uploadTypes': 'ছবি, PDF, Word, টেক্সট বা HTML',
+    'scanner.readFileError': '"{name}" পড়া যায়নি।',
+    'scanner.selectedPages': 'নির্বাচিত পৃষ্ঠা:',
+    'scanner.removePage': '{name} সরান',
+    'scanner.reorderHint': 'পৃষ্ঠাগুলো টেনে পড়ার ক্রমে সাজান; এই ক্রমেই বিশ্লেষণ হবে।',
+    'scanner.pageNumber': 'পৃষ্ঠা {number}',
+    'scanner.moveEarlier': '{name} আগে সরান',
+    'scanner.moveLater': '{name} পরে সরান',
+    'scanner.rotatePage': '{name} ঘোরান',
+    'scanner.cropPage': '{name} কাটুন',
+    'scanner.retakePage': '{name} আবার তুলুন',
+    'scanner.editError': '{name} সম্পাদনা করা যায়নি।',
+    'scanner.pasteToggle': 'এর বদলে টেক্সট পেস্ট করুন বা ওয়েব পেজ আমদানি করুন',
+    'scanner.pastePlaceholder': 'শর্তাবলী এখানে পেস্ট করুন...',
+    'scanner.importHtml': 'HTML ফাইল / সংরক্ষিত পেজ আমদানি করুন',
+    'scanner.summarizeText': 'টেক্সটের সারসংক্ষেপ করুন',
+    'scanner.summarize': 'সারসংক্ষেপ করুন',
+    'scanner.pastedText': 'পেস্ট করা টেক্সট',
+    'scanner.captureName': 'ছবি {number}',
+    'scanner.pagesNotRead': 'যে পৃষ্ঠাগুলো পড়া যায়নি: {count}টি। বিশ্লেষণ শেষ করতে আবার চেষ্টা করুন।',
+    'scanner.defaultTitle': 'সারসংক্ষেপ {date}',
+    'scanner.titleLabel': 'সারসংক্ষেপের শিরোনাম',
+    'scanner.keepImages': 'পৃষ্ঠার ছবি রাখুন',
+    'scanner.keepImagesHint': 'সারসংক্ষেপের সাথে পৃষ্ঠাগুলোর সংকুচিত কপি সংরক্ষণ করুন',
+    'scanner.save': 'সংরক্ষণ করুন',
+    'scanner.saved': 'সারসংক্ষেপ সংরক্ষিত হয়েছে!',
+    'scanner.alreadySaved': 'সারসংক্ষেপটি আগেই সংরক্ষিত হয়েছে।',
+    'scanner.startNew': 'নতুন স্ক্যান শুরু করুন',
+
+    'camera.error': 'ক্যামেরা চালু করা যায়নি। অনুমতি পরীক্ষা করে আবার চেষ্টা করুন।',
+    'camera.capture': 'ছবি তুলুন',
+    'camera.autoCrop': 'পৃষ্ঠা স্বয়ংক্রিয়ভাবে কাটুন',
+    'camera.enhance': 'পরিষ্কার করা',
+    'camera.enhance.none': 'মূল',
+    'camera.enhance.contrast': 'কনট্রাস্ট বাড়ান',
+    'camera.enhance.binarize': 'সাদা-কালো',
+    'camera.pageFound': 'পৃষ্ঠা পাওয়া গেছে',
+    'camera.noPage': 'কোনো পৃষ্ঠা পাওয়া যায়নি। গাঢ় রঙের উপরিতলে রাখুন।',
+    'camera.processing': 'প্রক্রিয়া চলছে…',
+    'camera.processError': 'ছবিটি প্রক্রিয়া করা যায়নি। আবার চেষ্টা করুন।',
+    'camera.continuous': 'একটানা',
+    'camera.autoCapture': 'স্বয়ংক্রিয় ছবি',
+    'camera.autoCaptureHint': 'পৃষ্ঠা খুঁজতে স্বয়ংক্রিয় কাটা চালু থাকতে হবে',
+    'camera.holdSteady': 'স্থির রাখুন…',
+    'camera.done': 'শেষ ({count})',
+
+    'crop.heading': '{name} কাটুন',
+    'crop.reset': 'আগের মতো',
+    'crop.apply': 'প্রয়োগ করুন',
+
+    'ocr.engine.label': 'লেখা পড়া',
+    'ocr.engine.cloud': 'ক্লাউড মডেল',
+    'ocr.engine.cloud.description': 'এআই মডেল পৃষ্ঠার ছবিগুলো পড়ে।',
+    'ocr.engine.device': 'এই ডিভাইসে',
+    'ocr.engine.device.description': 'পৃষ্ঠাগুলো আপনার ব্রাউজারে পড়া হয়; শুধু আপনার অনুমোদিত লেখা পাঠানো হয়।',
+    'ocr.read': 'পৃষ্ঠা পড়ুন',
+    'ocr.offlineFallback': 'আপনি অফলাইনে আছেন, তাই পৃষ্ঠাগুলো এই ডিভাইসে পড়া হবে।',
+    'ocr.heading': 'পাঠানোর আগে দেখে নিন',
+    'ocr.privacy': 'পৃষ্ঠার ছবিগুলো এই ডিভাইসেই থাকে। লেখাটি যাচাই ও সংশোধন করুন; সারাংশের জন্য শুধু এই লেখা পাঠানো হয়।',
+    'ocr.loading': 'লেখা পড়ার টুল লোড হচ্ছে…',
+    'ocr.reading': '{total}টির মধ্যে {page} নম্বর পৃষ্ঠা পড়া হচ্ছে…',
+    'ocr.confidence': 'নির্ভরযোগ্যতা {percent}%',
+    'ocr.uncertain': 'এই শব্দগুলো যাচাই করুন: {words}',
+    'ocr.pageText': '{name}-এর লেখা',
+    'ocr.empty': 'এই পৃষ্ঠায় কোনো লেখা পাওয়া যায়নি।',
+    'ocr.unread': 'পড়ার পর যোগ বা বদলানো পৃষ্ঠা: {count}।',
+    'ocr.readAgain': 'আবার পড়ুন',
+    'ocr.offline': 'আপনি অফলাইনে আছেন। এখন সারিতে রাখুন, অনলাইনে ফিরলে নিজে থেকেই সারাংশ তৈরি হবে।',
+    'ocr.download': 'লেখা ডাউনলোড করুন',
+    'ocr.summarize': 'এই লেখার সারাংশ করুন',
+    'ocr.discard': 'বাতিল করুন',
+    'redaction.toggle': 'পাঠানোর আগে ব্যক্তিগত তথ্য ঢেকে দিন',
+    'redaction.toggleHint': 'নাম, যোগাযোগের তথ্য, অ্যাকাউন্ট ও কার্ড নম্বর এবং ঠিকানা এই ডিভাইসেই খুঁজে ঢেকে দেওয়া হয়। কিছু পাঠানোর আগে আপনি সেগুলো দেখে নেন।',
+    'redaction.review': 'দেখে সারাংশ করুন',
+    'redaction.privacyImages': 'পৃষ্ঠাগুলো ছবি হিসেবে পাঠানো হবে, চিহ্নিত তথ্য কালো করে ঢাকা থাকবে। নিচে দেখে নিন।',
+    'redaction.privacyText': 'নিচের লেখাটি দেখে নিন। সারাংশের জন্য শুধু এই লেখাই পাঠানো হবে, চিহ্নিত তথ্য বাদ দিয়ে।',
+    'redaction.heading': 'যে ব্যক্তিগত তথ্য ঢাকা হবে',
+    'redaction.hint': 'টিক দেওয়া তথ্য পাঠানোর আগে ঢেকে দেওয়া হবে। কোনোটি যেমন আছে তেমন পাঠাতে টিক তুলে দিন, বা বাদ পড়া কিছু যোগ করুন।',
+    'redaction.none': 'কোনো ব্যক্তিগত তথ্য পাওয়া যায়নি। বাদ পড়া কিছু থাকলে যোগ করুন।',
+    'redaction.kind.email': 'ইমেল',
+    'redaction.kind.phone': 'ফোন',
+    'redaction.kind.card': 'কার্ড নম্বর',
+    'redaction.kind.account': 'অ্যাকাউন্ট নম্বর',
+    'redaction.kind.address': 'ঠিকানা',
+    'redaction.kind.name': 'নাম',
+    'redaction.kind.custom': 'যোগ করা',
+    'redaction.removeTerm': '{term} আর ঢাকবেন না',
+    'redaction.addPlaceholder': 'আরও কিছু ঢাকতে চাইলে লিখুন, যেমন একটি নাম',
+    'redaction.add': 'ঢাকুন',
+    'redaction.preview': 'যে লেখা পাঠানো হবে তা দেখুন',
+    'redaction.summarizeImages': 'ঢাকা পৃষ্ঠাগুলোর সারাংশ করুন',
+    'redaction.maskError': 'পৃষ্ঠাগুলো ঢাকা যায়নি। কিছুই পাঠানো হয়নি।',
+    'redaction.logHeading': 'পাঠানোর আগে ঢাকা ব্যক্তিগত তথ্য ({count})',
+    'redaction.logHint': 'বিশ্লেষণের জন্য পাঠানোর আগে এগুলো নথি থেকে সরানো হয়েছিল। এখানে শুধু প্রথম ও শেষ অক্ষর রাখা আছে।',
+    'queue.heading': 'বিশ্লেষণের সারিতে ({count})',
+    'queue.hint': 'অফলাইনে সারিতে রাখা স্ক্যান আবার অনলাইনে এলে নিজে থেকেই বিশ্লেষণ ও সংরক্ষণ করা হয়।',
+    'queue.details': 'সারিতে রাখা হয়েছে {date} · {count}টি পৃষ্ঠা',
+    'queue.running': 'বিশ্লেষণ চলছে… {percent}%',
+    'queue.next': 'শীঘ্রই শুরু হবে',
+    'queue.waiting': 'সংযোগের অপেক্ষায়',
+    'queue.retry': 'আবার চেষ্টা করুন',
+    'queue.remove': '{title} সারি থেকে সরান',
+    'queue.add': 'অনলাইন হলে করার জন্য সারিতে রাখুন',
+    'offline.banner': 'আপনি অফলাইনে আছেন। সংরক্ষিত সারাংশ ও তাদের চ্যাট এখনও পড়া যাবে, আর নতুন স্ক্যান অনলাইনে ফেরা পর্যন্ত সারিতে থাকবে।',
+
+    'progress.stage.upload': 'আপলোড',
+    'progress.stage.ocr': 'পৃষ্ঠা পড়া',
+    'progress.stage.summarise': 'সারসংক্ষেপ',
+    'progress.stage.translate': 'অনুবাদ',
+    'progress.part': '{total}টির মধ্যে {current} নম্বর অংশ',
+    'progress.pagesRead': '{total}টির মধ্যে {done}টি পৃষ্ঠা পড়া হয়েছে',
+    'progress.paused': '{percent}%-এ থেমে আছে',
+    'progress.failedPages': '{names} পড়া যায়নি। অন্য পৃষ্ঠাগুলো রাখা হয়েছে।',
+    'progress.retryFailed': 'ব্যর্থ পৃষ্ঠাগুলো আবার চেষ্টা করুন',
+    'progress.resume': 'আবার শুরু করুন',
+
+    'saved.heading': 'সংরক্ষিত সারসংক্ষেপ',
+    'saved.compareHint': 'একই শর্তাবলীর দুটি সারসংক্ষেপে টিক দিন, দেখুন তাদের মধ্যে কী বদলেছে।',
+    'saved.compare': 'তুলনা করুন ({count}/2)',
+    'saved.loading': 'সংরক্ষিত সারসংক্ষেপ লোড হচ্ছে...',
+    'saved.empty': 'আপনার কোনো সংরক্ষিত সারসংক্ষেপ নেই।',
+    'saved.selectForComparison': 'তুলনার জন্য {title} নির্বাচন করুন',
+    'saved.view': 'দেখুন',
+    'saved.delete': 'মুছুন',
+    'saved.confirmDelete': 'আপনি কি নিশ্চিত যে এই সারসংক্ষেপটি মুছতে চান?',
+
+    'library.search': 'সংরক্ষিত সারাংশ খুঁজুন',
+    'library.searchPlaceholder': 'শিরোনাম, সারাংশ, ধারা ও নথির লেখায় খুঁজুন...',
+    'library.tag': 'ট্যাগ',
+    'library.allTags': 'সব ট্যাগ',
+    'library.category': 'ধারার শ্রেণি',
+    'library.allCategories': 'সব ধারার শ্রেণি',
+    'library.from': 'থেকে',
+    'library.to': 'পর্যন্ত',
+    'library.sort': 'সাজান',
+    'library.sort.newest': 'নতুনগুলো আগে',
+    'library.sort.oldest': 'পুরনোগুলো আগে',
+    'library.sort.title': 'শিরোনাম',
+    'library.sort.risk': 'সর্বোচ্চ ঝুঁকি আগে',
+    'library.clear': 'ফিল্টার মুছুন',
+    'library.noMatches': 'আপনার অনুসন্ধানের সাথে মেলে এমন কোনো সংরক্ষিত সারাংশ নেই।',
+    'library.showing': '{total}টির মধ্যে {count}টি দেখানো হচ্ছে',
+    'library.match.summary': 'সারাংশ',
+    'library.match.clause': 'ধারা',
+    'library.match.full_text': 'নথি',
+
+    'backup.create': 'লাইব্রেরির ব্যাকআপ নিন',
+    'backup.createHint': 'সব সংরক্ষিত সারাংশ ও পৃষ্ঠার ছবি একটি ফাইলে ডাউনলোড করুন',
+    'backup.creating': 'ব্যাকআপ তৈরি হচ্ছে...',
+    'backup.restore': 'ব্যাকআপ থেকে পুনরুদ্ধার',
+    'backup.restoreHint': 'ব্যাকআপ ফাইলের সারাংশগুলো এই লাইব্রেরিতে যোগ করুন। এখানে সংরক্ষিত কিছুই প্রতিস্থাপিত হবে না।',
+    'backup.restoring': 'পুনরুদ্ধার হচ্ছে...',
+    'backup.result': '{imported}টি সারাংশ পুনরুদ্ধার করা হয়েছে। লাইব্রেরিতে আগে থেকেই থাকা {duplicates}টি বাদ দেওয়া হয়েছে।',
+    'backup.conflicts': '{count}টি সারাংশ পুনরুদ্ধার করা হয়নি, কারণ একই আইডি অন্য একটি সারাংশ ব্যবহার করছে:',
+    'backup.conflict': '“{title}” (“{existing}”-এর সাথে সংঘর্ষ)',
+
+    'detail.savedOn': '{date}-এ সংরক্ষিত',
+    'detail.addTranslation': 'একটি অনুবাদ যোগ করুন...',
+    'detail.translate': 'অনুবাদ করুন',
+    'detail.translating': 'অনুবাদ হচ্ছে...',
+    'detail.originalPages': 'মূল পৃষ্ঠা ({count})',
+    'detail.loadPagesError': 'পৃষ্ঠার ছবিগুলো লোড করা যায়নি।',
+    'detail.rerunHeading': 'এই পৃষ্ঠাগুলো আবার বিশ্লেষণ করুন',
+    'detail.rerunModel': 'মডেল (ঐচ্ছিক, না দিলে ডিফল্ট)',
+    'detail.rerun': 'আবার চালান',
+    'detail.rerunHint': 'নতুন বিশ্লেষণটি আলাদা সারসংক্ষেপ হিসেবে সংরক্ষিত হয়, যাতে আপনি এটির সাথে তুলনা করতে পারেন।',
+    'detail.rerunPartial': 'এই নথির কিছু পৃষ্ঠা টেক্সট হিসেবে পড়া হয়েছিল এবং সংরক্ষিত হয়নি, তাই সংরক্ষিত পৃষ্ঠাগুলি থেকে এটি আবার বিশ্লেষণ করা যাবে না।',
+
+    'labels.company': 'কোম্পানি বা পরিষেবা',
+    'labels.companyPlaceholder': 'কোম্পানি বা পরিষেবা...',
+    'labels.addTag': 'একটি ট্যাগ যোগ করুন...',
+    'labels.add': 'যোগ করুন',
+    'labels.removeTag': '{tag} ট্যাগ সরান',
+
+    'export.label': 'রপ্তানি:',
+    'export.language': 'রপ্তানির ভাষা',
+    'export.pdf': 'PDF',
+    'export.pdfHint': 'প্রিন্ট ডায়ালগ খুলবে। প্রিন্টার হিসেবে "Save as PDF" বেছে নিন।',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.html': 'HTML',
+    'export.htmlHint': 'একটি ফাইল যা যেকোনো ব্রাউজারে, এমনকি অফলাইনেও খোলে।',
+    'export.analysedOn': '{date}-এ বিশ্লেষণ করা হয়েছে',
+    'export.fullText': 'সম্পূর্ণ নিষ্কাশিত পাঠ্য',
+
+    'pages.previous': 'আগের',
+    'pages.next': 'পরের',
+    'pages.position': '{total}টির মধ্যে {current} নম্বর পৃষ্ঠা',
+    'pages.thumbnail': 'পৃষ্ঠা {number}',
+
+    'summary.riskScoreHint': 'সামগ্রিক ঝুঁকি স্কোর (0-100)',
+    'summary.risk': 'ঝুঁকি',
+    'summary.overallRisk': 'সামগ্রিক ঝুঁকি: {level}',
+    'summary.summary': 'সারসংক্ষেপ',
+    'summary.keyClauses': 'মূল ধারা',
+    'summary.quoteNotFound': 'উদ্ধৃতিটি নথিতে পাওয়া যায়নি, সম্ভবত বানানো',
+    'summary.quoteNotFoundHint': 'এই উদ্ধৃতিটি নিষ্কাশিত পাঠ্যে নেই। AI হয়তো এটি বানিয়েছে।',
+    'summary.viewFullText': 'সম্পূর্ণ নিষ্কাশিত পাঠ্য দেখুন',
+
+    'category.auto_renewal': 'স্বয়ংক্রিয় নবায়ন',
+    'category.data_sharing': 'তথ্য শেয়ার',
+    'category.arbitration': 'সালিশ',
+    'category.liability': 'দায়বদ্ধতা',
+    'category.termination': 'সমাপ্তি',
+    'category.changes_to_terms': 'শর্তাবলী পরিবর্তন',
+    'category.payment': 'অর্থপ্রদান',
+    'category.other': 'অন্যান্য',
+
+    'severity.low': 'নিম্ন',
+    'severity.medium': 'মাঝারি',
+    'severity.high': 'উচ্চ',
+    'severity.unrated': 'মূল্যায়ন নেই',
+
+    'chat.heading': 'প্রশ্ন করুন',
+    'chat.placeholder': 'নথিটি সম্পর্কে জিজ্ঞাসা করুন...',
+    'chat.offline': 'আপনি অফলাইনে আছেন। প্রশ্ন করতে আবার সংযোগ করুন।',
+    'chat.send': 'পাঠান',
+    'chat.error': 'দুঃখিত, কিছু একটা সমস্যা হয়েছে।',
+    'chat.quoteNotFound': 'নথিতে পাওয়া যায়নি',
+    'chat.quoteNotFoundHint': 'এই উদ্ধৃতিটি নথিতে নেই। AI হয়তো এটি বানিয়েছে।',
+    'chat.clear': 'কথোপকথন মুছুন',
+    'chat.confirmClear': 'এই কথোপকথনটি মুছবেন? পিন করা নোটগুলো থেকে যাবে।',
+    'chat.loading': 'কথোপকথন লোড হচ্ছে...',
+    'chat.pin': 'নোট হিসেবে পিন করুন',
+    'chat.passagesUsed': 'ব্যবহৃত অংশ:',
+
+    'notes.heading': 'নোট',
+    'notes.remove': 'নোট সরান',
+
+    'libraryChat.heading': 'আপনার লাইব্রেরিকে জিজ্ঞাসা করুন',
+    'libraryChat.scope': 'যেখানে খুঁজবেন:',
+    'libraryChat.scopeAll': 'সব সংরক্ষিত সারাংশ',
+    'libraryChat.scopeTag': '“{tag}” ট্যাগযুক্ত',
+    'libraryChat.scopeCount': '{total}টির মধ্যে {count}টি সারাংশ',
+    'libraryChat.choose': 'অথবা নিজে সারাংশ বেছে নিন',
+    'libraryChat.selectedCount': '{count}টি সারাংশ বাছাই করা হয়েছে',
+    'libraryChat.clearSelection': 'বাছাই মুছুন',
+    'libraryChat.hint': 'আপনার সংরক্ষিত শর্তাবলি জুড়ে প্রশ্ন করুন, যেমন “কোন পরিষেবাগুলো স্বয়ংক্রিয়ভাবে নবায়ন হয়?” উত্তরে কোন সারাংশ ও অংশ থেকে এসেছে তা উল্লেখ থাকে।',
+    'libraryChat.placeholder': 'আপনার সংরক্ষিত শর্তাবলি সম্পর্কে জিজ্ঞাসা করুন...',
+
+    'compare.heading': 'সংস্করণ তুলনা',
+    'compare.older': 'পুরোনো',
+    'compare.newer': 'নতুন',
+    'compare.whatChanged': 'আপনার জন্য কী পরিবর্তন হয়েছে',
+    'compare.comparing': 'AI দুটি সংস্করণ তুলনা করছে...',
+    'compare.identical': 'দুটি সংস্করণ হুবহু এক।',
+    'compare.clauseChanges': 'ধারার পরিবর্তন',
+    'compare.added': 'যোগ হয়েছে:',
+    'compare.removed': 'বাদ পড়েছে:',
+    'compare.changed': 'পরিবর্তিত:',
+    'compare.textChanges': 'পাঠ্যের পরিবর্তন',
+    'compare.showUnchanged': 'অপরিবর্তিত অংশও দেখান',
+    'compare.inline': 'একসাথে',
+    'compare.sideBySide': 'পাশাপাশি',
+    'compare.noDifferences': 'নিষ্কাশিত পাঠ্যে কোনো পার্থক্য নেই।',
+};
@@ -0,0 +1,295 @@
+// The English interface text, which every other catalog translates. Keys are
+// grouped by the screen or component that shows them; `{name}` marks a value
+// filled in when the message is shown.
+
+export const en = {
+    'app.title': 'T&C Summarizer',
+    'app.tagline': 'Scan terms and conditions to get a simple summary.',
+    'nav.scanner': 'Scanner',
+    'nav.saved': 'Saved Summaries ({count})',
+    'nav.libraryChat': 'Ask library',
+    'nav.language': 'Interface language',
+    'nav.install': 'Install app',
+
+    'common.analyzing': 'Analyzing...',
+    'common.back': 'Back to Saved List',
+    'common.cancel': 'Cancel',
+    'common.close': 'Close',
+    'common.dismiss': 'Dismiss',
+    'common.unknownError': 'An unknown error occurred.',
+
+    'mode.label': 'Analysis mode',
+    'mode.quick': 'Quick',
+    'mode.quick.description': 'The 5 most critical clauses.',
+    'mode.thorough': 'Thorough',
+    'mode.thorough.description': 'Every notable clause, grouped by section. Slower.',
+
+    'languages.label': 'Languages:',
+
+    'storage.hint': 'Browser storage used by this app',
+    'storage.used': 'Storage used',
+    'storage.amount': '{used} of {quota} ({percent}%)',
+
+    'scanner.useCamera': 'Use Camera',
+    'scanner.uploadFiles': 'Upload Files',
+    'scanner.readingFiles': 'Reading files...',
+    'scanner.uploadTypes': 'Images, PDF, Word, text or HTML',
+    'scanner.readFileError': 'Could not read "{name}".',
+    'scanner.selectedPages': 'Selected Pages:',
+    'scanner.removePage': 'Remove {name}',
+    'scanner.reorderHint': 'Drag the pages into reading order; they are analysed in this order.',
+    'scanner.pageNumber': 'Page {number}',
+    'scanner.moveEarlier': 'Move {name} earlier',
+    'scanner.moveLater': 'Move {name} later',
+    'scanner.rotatePage': 'Rotate {name}',
+    'scanner.cropPage': 'Crop {name}',
+    'scanner.retakePage': 'Retake {name}',
+    'scanner.editError': 'Could not edit {name}.',
+    'scanner.pasteToggle': 'Paste text or import a web page instead',
+    'scanner.pastePlaceholder': 'Paste the terms and conditions here...',
+    'scanner.importHtml': 'Import HTML file / saved page',
+    'scanner.summarizeText': 'Summarize Text',
+    'scanner.summarize': 'Summarize',
+    'scanner.pastedText': 'Pasted text',
+    'scanner.captureName': 'Capture {number}',
+    'scanner.pagesNotRead': 'Pages that could not be read: {count}. Retry them to finish the analysis.',
+    'scanner.defaultTitle': 'Summary {date}',
+    'scanner.titleLabel': 'Summary title',
+    'scanner.keepImages': 'Keep page images',
+    'scanner.keepImagesHint': 'Store compressed copies of the pages with the summary',
+    'scanner.save': 'Save',
+    'scanner.saved': 'Summary saved!',
+    'scanner.alreadySaved': 'Summary is already saved.',
+    'scanner.startNew': 'Start New Scan',
+
+    'camera.error': 'Could not access camera. Please check permissions and try again.',
+    'camera.capture': 'Take photo',
+    'camera.autoCrop': 'Auto-crop page',
+    'camera.enhance': 'Clean-up',
+    'camera.enhance.none': 'Original',
+    'camera.enhance.contrast': 'Boost contrast',
+    'camera.enhance.binarize': 'Black & white',
+    'camera.pageFound': 'Page found',
+    'camera.noPage': 'No page found. Place it on a darker surface.',
+    'camera.processing': 'Processing…',
+    'camera.processError': 'Could not process the photo. Please try again.',
+    'camera.continuous': 'Continuous',
+    'camera.autoCapture': 'Auto-capture',
+    'camera.autoCaptureHint': 'Needs auto-crop to find the page',
+    'camera.holdSteady': 'Hold steady…',
+    'camera.done': 'Done ({count})',
+
+    'crop.heading': 'Crop {name}',
+    'crop.reset': 'Reset',
+    'crop.apply': 'Apply',
+
+    'ocr.engine.label': 'Text reading',
+    'ocr.engine.cloud': 'Cloud model',
+    'ocr.engine.cloud.description': 'The AI model reads the page images.',
+    'ocr.engine.device': 'On this device',
+    'ocr.engine.device.description': 'Pages are read in your browser; only the text you approve is sent.',
+    'ocr.read': 'Read pages',
+    'ocr.offlineFallback': "You're offline, so the pages will be read on this device.",
+    'ocr.heading': 'Check before sending',
+    'ocr.privacy': 'The page images stay on this device. Check and correct the text; only this text is sent for the summary.',
+    'ocr.loading': 'Loading the text reader…',
+    'ocr.reading': 'Reading page {page} of {total}…',
+    'ocr.confidence': 'Confidence {percent}%',
+    'ocr.uncertain': 'Check these words: {words}',
+    'ocr.pageText': 'Text of {name}',
+    'ocr.empty': 'No text was found on this page.',
+    'ocr.unread': 'Pages added or changed since they were read: {count}.',
+    'ocr.readAgain': 'Read again',
+    'ocr.offline': "You're offline. Queue it now and it is summarized automatically once you're back online.",
+    'ocr.download': 'Download text',
+    'ocr.summarize': 'Summarize this text',
+    'ocr.discard': 'Discard',
+    'redaction.toggle': 'Mask personal details before sending',
+    'redaction.toggleHint': 'Names, contact details, account and card numbers and addresses are found on this device and masked. You check them before anything is sent.',
+    'redaction.review': 'Check and summarize',
+    'redaction.privacyImages': 'The pages are sent as images with the marked details blacked out. Check them below.',
+    'redaction.privacyText': 'Check the text below. Only this text is sent for the summary, with the marked details removed.',
+    'redaction.heading': 'Personal details to mask',
+    'redaction.hint': 'Ticked details are masked before anything is sent. Untick one to send it as it is, or add anything that was missed.',
+    'redaction.none': 'No personal details were found. Add any that were missed.',
+    'redaction.kind.email': 'Email',
+    'redaction.kind.phone': 'Phone',
+    'redaction.kind.card': 'Card number',
+    'redaction.kind.account': 'Account number',
+    'redaction.kind.address': 'Address',
+    'redaction.kind.name': 'Name',
+    'redaction.kind.custom': 'Added',
+    'redaction.removeTerm': 'Stop masking {term}',
+    'redaction.addPlaceholder': 'Something else to mask, e.g. a name',
+    'redaction.add': 'Mask',
+    'redaction.preview': 'Show the text that will be sent',
+    'redaction.summarizeImages': 'Summarize the masked pages',
+    'redaction.maskError': 'The pages could not be masked. Nothing was sent.',
+    'redaction.logHeading': 'Personal details masked before sending ({count})',
+    'redaction.logHint': 'These were removed from the document before it was sent for analysis. Only their first and last characters are kept here.',
+    'queue.heading': 'Queued for analysis ({count})',
+    'queue.hint': "Scans queued while offline are analysed and saved automatically once you're back online.",
+    'queue.details': 'Queued {date} · {count} pages',
+    'queue.running': 'Analysing… {percent}%',
+    'queue.next': 'Starting soon',
+    'queue.waiting': 'Waiting for a connection',
+    'queue.retry': 'Retry',
+    'queue.remove': 'Remove {title} from the queue',
+    'queue.add': 'Queue for when online',
+    'offline.banner': "You're offline. Saved summaries and their chats can still be read, and new scans are queued until you're back online.",
+
+    'progress.stage.upload': 'Upload',
+    'progress.stage.ocr': 'Read pages',
+    'progress.stage.summarise': 'Summarise',
+    'progress.stage.translate': 'Translate',
+    'progress.part': 'Part {current} of {total}',
+    'progress.pagesRead': '{done} of {total} pages read',
+    'progress.paused': 'Paused at {percent}%',
+    'progress.failedPages': 'Could not read {names}. The other pages are kept.',
+    'progress.retryFailed': 'Retry failed pages',
+    'progress.resume': 'Resume',
+
+    'saved.heading': 'Saved Summaries',
+    'saved.compareHint': 'Tick two summaries of the same terms to see what changed between them.',
+    'saved.compare': 'Compare ({count}/2)',
+    'saved.loading': 'Loading saved summaries...',
+    'saved.empty': 'You have no saved summaries.',
+    'saved.selectForComparison': 'Select {title} for comparison',
+    'saved.view': 'View',
+    'saved.delete': 'Delete',
+    'saved.confirmDelete': 'Are you sure you want to delete this summary?',
+
+    'library.search': 'Search saved summaries',
+    'library.searchPlaceholder': 'Search titles, summaries, clauses and document text...',
+    'library.tag': 'Tag',
+    'library.allTags': 'All tags',
+    'library.category': 'Clause category',
+    'library.allCategories': 'All clause categories',
+    'library.from': 'From',
+    'library.to': 'To',
+    'library.sort': 'Sort by',
+    'library.sort.newest': 'Newest first',
+    'library.sort.oldest': 'Oldest first',
+    'library.sort.title': 'Title',
+    'library.sort.risk': 'Highest risk first',
+    'library.clear': 'Clear filters',
+    'library.noMatches': 'No saved summaries match your search.',
+    'library.showing': 'Showing {count} of {total}',
+    'library.match.summary': 'Summary',
+    'library.match.clause': 'Clause',
+    'library.match.full_text': 'Document',
+
+    'backup.create': 'Back up library',
+    'backup.createHint': 'Download every saved summary and its page images as one file',
+    'backup.creating': 'Preparing backup...',
+    'backup.restore': 'Restore from backup',
+    'backup.restoreHint': 'Add the summaries in a backup file to this library. Nothing saved here is replaced.',
+    'backup.restoring': 'Restoring...',
+    'backup.result': 'Restored {imported} summaries. Skipped {duplicates} already in your library.',
+    'backup.conflicts': '{count} summaries were not restored because a different summary already uses the same id:',
+    'backup.conflict': '“{title}” (clashes with “{existing}”)',
+
+    'detail.savedOn': 'Saved on {date}',
+    'detail.addTranslation': 'Add a translation...',
+    'detail.translate': 'Translate',
+    'detail.translating': 'Translating...',
+    'detail.originalPages': 'Original Pages ({count})',
+    'detail.loadPagesError': 'Could not load the page images.',
+    'detail.rerunHeading': 'Analyse these pages again',
+    'detail.rerunModel': 'Model (optional, uses the default)',
+    'detail.rerun': 'Re-run',
+    'detail.rerunHint': 'The new analysis is saved as a separate summary, so you can compare it with this one.',
+    'detail.rerunPartial': 'Some pages of this document were read as text and not kept, so it cannot be analysed again from the stored pages.',
+
+    'labels.company': 'Company or service',
+    'labels.companyPlaceholder': 'Company or service...',
+    'labels.addTag': 'Add a tag...',
+    'labels.add': 'Add',
+    'labels.removeTag': 'Remove tag {tag}',
+
+    'export.label': 'Export:',
+    'export.language': 'Export language',
+    'export.pdf': 'PDF',
+    'export.pdfHint': 'Opens the print dialog. Choose "Save as PDF" as the printer.',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.html': 'HTML',
+    'export.htmlHint': 'A single file that opens in any browser, even offline.',
+    'export.analysedOn': 'Analysed on {date}',
+    'export.fullText': 'Full extracted text',
+
+    'pages.previous': 'Previous',
+    'pages.next': 'Next',
+    'pages.position': 'Page {current} of {total}',
+    'pages.thumbnail': 'Page {number}',
+
+    'summary.riskScoreHint': 'Overall risk score (0-100)',
+    'summary.risk': 'risk',
+    'summary.overallRisk': 'Overall risk: {level}',
+    'summary.summary': 'Summary',
+    'summary.keyClauses': 'Key Clauses',
+    'summary.quoteNotFound': 'Quote not found in the document, possibly hallucinated',
+    'summary.quoteNotFoundHint': 'This quote does not appear in the extracted text. The AI may have invented it.',
+    'summary.viewFullText': 'View Full Extracted Text',
+
+    'category.auto_renewal': 'Auto-renewal',
+    'category.data_sharing': 'Data sharing',
+    'category.arbitration': 'Arbitration',
+    'category.liability': 'Liability',
+    'category.termination': 'Termination',
+    'category.changes_to_terms': 'Changes to terms',
+    'category.payment': 'Payment',
+    'category.other': 'Other',
+
+    'severity.low': 'Low',
+    'severity.medium': 'Medium',
+    'severity.high': 'High',
+    'severity.unrated': 'Unrated',
+
+    'chat.heading': 'Ask a Question',
+    'chat.placeholder': 'Ask about the document...',
+    'chat.offline': "You're offline. Reconnect to ask questions.",
+    'chat.send': 'Send',
+    'chat.error': 'Sorry, something went wrong.',
+    'chat.quoteNotFound': 'not found in document',
+    'chat.quoteNotFoundHint': 'This quote does not appear in the document. The AI may have invented it.',
+    'chat.clear': 'Clear conversation',
+    'chat.confirmClear': 'Delete this conversation? Pinned notes are kept.',
+    'chat.loading': 'Loading conversation...',
+    'chat.pin': 'Pin as note',
+    'chat.passagesUsed': 'Passages used:',
+
+    'notes.heading': 'Notes',
+    'notes.remove': 'Remove note',
+
+    'libraryChat.heading': 'Ask your library',
+    'libraryChat.scope': 'Ask across:',
+    'libraryChat.scopeAll': 'All saved summaries',
+    'libraryChat.scopeTag': 'Tagged “{tag}”',
+    'libraryChat.scopeCount': '{count} of {total} summaries',
+    'libraryChat.choose': 'Or choose summaries by hand',
+    'libraryChat.selectedCount': '{count} summaries chosen',
+    'libraryChat.clearSelection': 'Clear the selection',
+    'libraryChat.hint': 'Ask a question across your saved terms, e.g. “Which services renew automatically?” Answers name the summaries and passages they come from.',
+    'libraryChat.placeholder': 'Ask about your saved terms...',
+
+    'compare.heading': 'Compare Versions',
+    'compare.older': 'Older',
+    'compare.newer': 'Newer',
+    'compare.whatChanged': 'What changed for you',
+    'compare.comparing': 'AI is comparing the two versions...',
+    'compare.identical': 'The two versions are identical.',
+    'compare.clauseChanges': 'Clause changes',
+    'compare.added': 'Added:',
+    'compare.removed': 'Removed:',
+    'compare.changed': 'Changed:',
+    'compare.textChanges': 'Text changes',
+    'compare.showUnchanged': 'Show unchanged',
+    'compare.inline': 'Inline',
+    'compare.sideBySide': 'Side by side',
+    'compare.noDifferences': 'No differences in the extracted text.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,289 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+    'app.title': 'Resumidor de Términos',
+    'app.tagline': 'Escanea términos y condiciones para obtener un resumen sencillo.',
+    'nav.scanner': 'Escáner',
+    'nav.saved': 'Resúmenes guardados ({count})',
+    'nav.libraryChat': 'Preguntar a la biblioteca',
+    'nav.language': 'Idioma de la interfaz',
+    'nav.install': 'Instalar app',
+
+    'common.analyzing': 'Analizando...',
+    'common.back': 'Volver a la lista guardada',
+    'common.cancel': 'Cancelar',
+    'common.close': 'Cerrar',
+    'common.dismiss': 'Descartar',
+    'common.unknownError': 'Se produjo un error desconocido.',
+
+    'mode.label': 'Modo de análisis',
+    'mode.quick': 'Rápido',
+    'mode.quick.description': 'Las 5 cláusulas más importantes.',
+    'mode.thorough': 'Completo',
+    'mode.thorough.description': 'Todas las cláusulas relevantes, agrupadas por sección. Más lento.',
+
+    'languages.label': 'Idiomas:',
+
+    'storage.hint': 'Almacenamiento del navegador que usa esta aplicación',
+    'storage.used': 'Almacenamiento usado',
+    'storage.amount': '{used} de {quota} ({percent}%)',
+
+    'scanner.useCamera': 'Usar la cámara',
+    'scanner.uploadFiles': 'Subir archivos',
+    'scanner.readingFiles': 'Leyendo archivos...',
+    'scanner.uploadTypes': 'Imágenes, PDF, Word, texto o HTML',
+    'scanner.readFileError': 'No se pudo leer "{name}".',
+    'scanner.selectedPages': 'Páginas seleccionadas:',
+    'scanner.removePage': 'Quitar {name}',
+    'scanner.reorderHint': 'Arrastra las páginas al orden de lectura; se analizan en este orden.',
+    'scanner.pageNumber': 'Página {number}',
+    'scanner.moveEarlier': 'Mover {name} antes',
+    'scanner.moveLater': 'Mover {name} después',
+    'scanner.rotatePage': 'Girar {name}',
+    'scanner.cropPage': 'Recortar {name}',
+    'scanner.retakePage': 'Repetir {name}',
+    'scanner.editError': 'No se pudo editar {name}.',
+    'scanner.pasteToggle': 'O pega texto o importa una página web',
+    'scanner.pastePlaceholder': 'Pega aquí los términos y condiciones...',
+    'scanner.importHtml': 'Importar archivo HTML / página guardada',
+    'scanner.summarizeText': 'Resumir texto',
+    'scanner.summarize': 'Resumir',
+    'scanner.pastedText': 'Texto pegado',
+    'scanner.captureName': 'Captura {number}',
+    'scanner.pagesNotRead': 'Páginas que no se pudieron leer: {count}. Vuelve a intentarlo para terminar el análisis.',
+    'scanner.defaultTitle': 'Resumen {date}',
+    'scanner.titleLabel': 'Título del resumen',
+    'scanner.keepImages': 'Guardar las imágenes de las páginas',
+    'scanner.keepImagesHint': 'Guarda copias comprimidas de las páginas junto con el resumen',
+    'scanner.save': 'Guardar',
+    'scanner.saved': '¡Resumen guardado!',
+    'scanner.alreadySaved': 'El resumen ya está guardado.',
+    'scanner.startNew': 'Nuevo escaneo',
+
+    'camera.error': 'No se pudo acceder a la cámara. Revisa los permisos e inténtalo de nuevo.',
+    'camera.capture': 'Tomar foto',
+    'camera.autoCrop': 'Recortar página automáticamente',
+    'camera.enhance': 'Limpieza',
+    'camera.enhance.none': 'Original',
+    'camera.enhance.contrast': 'Aumentar contraste',
+    'camera.enhance.binarize': 'Blanco y negro',
+    'camera.pageFound': 'Página detectada',
+    'camera.noPage': 'No se detecta ninguna página. Colócala sobre una superficie más oscura.',
+    'camera.processing': 'Procesando…',
+    'camera.processError': 'No se pudo procesar la foto. Inténtalo de nuevo.',
+    'camera.continuous': 'Continuo',
+    'camera.autoCapture': 'Captura automática',
+    'camera.autoCaptureHint': 'Requiere el recorte automático para encontrar la página',
+    'camera.holdSteady': 'Mantén firme…',
+    'camera.done': 'Listo ({count})',
+
+    'crop.heading': 'Recortar {name}',
+    'crop.reset': 'Restablecer',
+    'crop.apply': 'Aplicar',
+
+    'ocr.engine.label': 'Lectura del texto',
+    'ocr.engine.cloud': 'Modelo en la nube',
+    'ocr.engine.cloud.description': 'El modelo de IA lee las imágenes de las páginas.',
+    'ocr.engine.device': 'En este dispositivo',
+    'ocr.engine.device.description': 'Las páginas se leen en tu navegador; solo se envía el texto que apruebes.',
+    'ocr.read': 'Leer páginas',
+    'ocr.offlineFallback': 'Estás sin conexión, así que las páginas se leerán en este dispositivo.',
+    'ocr.heading': 'Revisa antes de enviar',
+    'ocr.privacy': 'Las imágenes de las páginas se quedan en este dispositivo. Revisa y corrige el texto; solo este texto se envía para el resumen.',
+    'ocr.loading': 'Cargando el lector de texto…',
+    'ocr.reading': 'Leyendo la página {page} de {total}…',
+    'ocr.confidence': 'Confianza {percent}%',
+    'ocr.uncertain': 'Revisa estas palabras: {words}',
+    'ocr.pageText': 'Texto de {name}',
+    'ocr.empty': 'No se encontró texto en esta página.',
+    'ocr.unread': 'Páginas añadidas o cambiadas después de leerlas: {count}.',
+    'ocr.readAgain': 'Volver a leer',
+    'ocr.offline': 'Estás sin conexión. Ponlo en cola y se resumirá automáticamente cuando vuelvas a estar en línea.',
+    'ocr.download': 'Descargar texto',
+    'ocr.summarize': 'Resumir este texto',
+    'ocr.discard': 'Descartar',
+    'redaction.toggle': 'Ocultar datos personales antes de enviar',
+    'redaction.toggleHint': 'Los nombres, datos de contacto, números de cuenta y de tarjeta y direcciones se detectan y ocultan en este dispositivo. Los revisas antes de enviar nada.',
+    'redaction.review': 'Revisar y resumir',
+    'redaction.privacyImages': 'Las páginas se envían como imágenes con los datos marcados tapados en negro. Revísalas abajo.',
+    'redaction.privacyText': 'Revisa el texto de abajo. Solo se envía este texto para el resumen, sin los datos marcados.',
+    'redaction.heading': 'Datos personales que se ocultarán',
+    'redaction.hint': 'Los datos marcados se ocultan antes de enviar nada. Desmarca uno para enviarlo tal cual, o añade lo que falte.',
+    'redaction.none': 'No se encontraron datos personales. Añade los que falten.',
+    'redaction.kind.email': 'Correo',
+    'redaction.kind.phone': 'Teléfono',
+    'redaction.kind.card': 'Número de tarjeta',
+    'redaction.kind.account': 'Número de cuenta',
+    'redaction.kind.address': 'Dirección',
+    'redaction.kind.name': 'Nombre',
+    'redaction.kind.custom': 'Añadido',
+    'redaction.removeTerm': 'Dejar de ocultar {term}',
+    'redaction.addPlaceholder': 'Otra cosa que ocultar, p. ej. un nombre',
+    'redaction.add': 'Ocultar',
+    'redaction.preview': 'Ver el texto que se enviará',
+    'redaction.summarizeImages': 'Resumir las páginas ocultadas',
+    'redaction.maskError': 'No se pudieron ocultar los datos de las páginas. No se envió nada.',
+    'redaction.logHeading': 'Datos personales ocultados antes de enviar ({count})',
+    'redaction.logHint': 'Se quitaron del documento antes de enviarlo para su análisis. Aquí solo se guardan su primer y último carácter.',
+    'queue.heading': 'En cola para analizar ({count})',
+    'queue.hint': 'Los escaneos puestos en cola sin conexión se analizan y guardan automáticamente cuando vuelves a estar en línea.',
+    'queue.details': 'En cola {date} · {count} páginas',
+    'queue.running': 'Analizando… {percent}%',
+    'queue.next': 'Empezará en breve',
+    'queue.waiting': 'Esperando conexión',
+    'queue.retry': 'Reintentar',
+    'queue.remove': 'Quitar {title} de la cola',
+    'queue.add': 'Poner en cola para cuando haya conexión',
+    'offline.banner': 'Estás sin conexión. Puedes seguir leyendo los resúmenes guardados y sus chats, y los nuevos escaneos quedan en cola hasta que vuelvas a estar en línea.',
+
+    'progress.stage.upload': 'Subida',
+    'progress.stage.ocr': 'Lectura de páginas',
+    'progress.stage.summarise': 'Resumen',
+    'progress.stage.translate': 'Traducción',
+    'progress.part': 'Parte {current} de {total}',
+    'progress.pagesRead': '{done} de {total} páginas leídas',
+    'progress.paused': 'En pausa al {percent}%',
+    'progress.failedPages': 'No se pudo leer {names}. Las demás páginas se conservan.',
+    'progress.retryFailed': 'Reintentar las páginas fallidas',
+    'progress.resume': 'Reanudar',
+
+    'saved.heading': 'Resúmenes guardados',
+    'saved.compareHint': 'Marca dos resúmenes de los mismos términos para ver qué cambió entre ellos.',
+    'saved.compare': 'Comparar ({count}/2)',
+    'saved.loading': 'Cargando resúmenes guardados...',
+    'saved.empty': 'No tienes resúmenes guardados.',
+    'saved.selectForComparison': 'Seleccionar {title} para comparar',
+    'saved.view': 'Ver',
+    'saved.delete': 'Eliminar',
+    'saved.confirmDelete': '¿Seguro que quieres eliminar este resumen?',
+
+    'library.search': 'Buscar en los resúmenes guardados',
+    'library.searchPlaceholder': 'Busca en títulos, resúmenes, cláusulas y texto del documento...',
+    'library.tag': 'Etiqueta',
+    'library.allTags': 'Todas las etiquetas',
+    'library.category': 'Categoría de cláusula',
+    'library.allCategories': 'Todas las categorías',
+    'library.from': 'Desde',
+    'library.to': 'Hasta',
+    'library.sort': 'Ordenar por',
+    'library.sort.newest': 'Más recientes primero',
+    'library.sort.oldest': 'Más antiguos primero',
+    'library.sort.title': 'Título',
+    'library.sort.risk': 'Mayor riesgo primero',
+    'library.clear': 'Quitar filtros',
+    'library.noMatches': 'Ningún resumen guardado coincide con tu búsqueda.',
+    'library.showing': 'Mostrando {count} de {total}',
+    'library.match.summary': 'Resumen',
+    'library.match.clause': 'Cláusula',
+    'library.match.full_text': 'Documento',
+
+    'backup.create': 'Hacer copia de seguridad',
+    'backup.createHint': 'Descarga todos los resúmenes guardados y sus imágenes en un solo archivo',
+    'backup.creating': 'Preparando la copia...',
+    'backup.restore': 'Restaurar copia de seguridad',
+    'backup.restoreHint': 'Añade a esta biblioteca los resúmenes de una copia de seguridad. No se reemplaza nada de lo guardado aquí.',
+    'backup.restoring': 'Restaurando...',
+    'backup.result': 'Se restauraron {imported} resúmenes. Se omitieron {duplicates} que ya estaban en tu biblioteca.',
+    'backup.conflicts': '{count} resúmenes no se restauraron porque otro resumen distinto ya usa el mismo id:',
+    'backup.conflict': '«{title}» (choca con «{existing}»)',
+
+    'detail.savedOn': 'Guardado el {date}',
+    'detail.addTranslation': 'Añadir una traducción...',
+    'detail.translate': 'Traducir',
+    'detail.translating': 'Traduciendo...',
+    'detail.originalPages': 'Páginas originales ({count})',
+    'detail.loadPagesError': 'No se pudieron cargar las imágenes de las páginas.',
+    'detail.rerunHeading': 'Analizar de nuevo estas páginas',
+    'detail.rerunModel': 'Modelo (opcional, se usa el predeterminado)',
+    'detail.rerun': 'Volver a analizar',
+    'detail.rerunHint': 'El nuevo análisis se guarda como un resumen aparte, para que puedas compararlo con este.',
+    'detail.rerunPartial': 'Algunas páginas de este documento se leyeron como texto y no se guardaron, así que no puede analizarse de nuevo a partir de las páginas guardadas.',
+
+    'labels.company': 'Empresa o servicio',
+    'labels.companyPlaceholder': 'Empresa o servicio...',
+    'labels.addTag': 'Añadir etiqueta...',
+    'labels.add': 'Añadir',
+    'labels.removeTag': 'Quitar la etiqueta {tag}',
+
+    'export.label': 'Exportar:',
+    'export.language': 'Idioma de exportación',
+    'export.pdf': 'PDF',
+    'export.pdfHint': 'Abre el diálogo de impresión. Elige "Guardar como PDF" como impresora.',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.html': 'HTML',
+    'export.htmlHint': 'Un único archivo que se abre en cualquier navegador, incluso sin conexión.',
+    'export.analysedOn': 'Analizado el {date}',
+    'export.fullText': 'Texto extraído completo',
+
+    'pages.previous': 'Anterior',
+    'pages.next': 'Siguiente',
+    'pages.position': 'Página {current} de {total}',
+    'pages.thumbnail': 'Página {number}',
+
+    'summary.riskScoreHint': 'Puntuación de riesgo global (0-100)',
+    'summary.risk': 'riesgo',
+    'summary.overallRisk': 'Riesgo global: {level}',
+    'summary.summary': 'Resumen',
+    'summary.keyClauses': 'Cláusulas clave',
+    'summary.quoteNotFound': 'La cita no aparece en el documento; puede ser inventada',
+    'summary.quoteNotFoundHint': 'Esta cita no aparece en el texto extraído. Es posible que la IA la haya inventado.',
+    'summary.viewFullText': 'Ver el texto extraído completo',
+
+    'category.auto_renewal': 'Renovación automática',
+    'category.data_sharing': 'Compartir datos',
+    'category.arbitration': 'Arbitraje',
+    'category.liability': 'Responsabilidad',
+    'category.termination': 'Terminación',
+    'category.changes_to_terms': 'Cambios en los términos',
+    'category.payment': 'Pago',
+    'category.other': 'Otro',
+
+    'severity.low': 'Bajo',
+    'severity.medium': 'Medio',
+    'severity.high': 'Alto',
+    'severity.unrated': 'Sin valorar',
+
+    'chat.heading': 'Haz una pregunta',
+    'chat.placeholder': 'Pregunta sobre el documento...',
+    'chat.offline': 'Estás sin conexión. Vuelve a conectarte para hacer preguntas.',
+    'chat.send': 'Enviar',
+    'chat.error': 'Lo sentimos, algo salió mal.',
+    'chat.quoteNotFound': 'no aparece en el documento',
+    'chat.quoteNotFoundHint': 'Esta cita no aparece en el documento. Es posible que la IA la haya inventado.',
+    'chat.clear': 'Borrar la conversación',
+    'chat.confirmClear': '¿Eliminar esta conversación? Las notas fijadas se conservan.',
+    'chat.loading': 'Cargando la conversación...',
+    'chat.pin': 'Fijar como nota',
+    'chat.passagesUsed': 'Pasajes usados:',
+
+    'notes.heading': 'Notas',
+    'notes.remove': 'Quitar la nota',
+
+    'libraryChat.heading': 'Pregunta a tu biblioteca',
+    'libraryChat.scope': 'Preguntar en:',
+    'libraryChat.scopeAll': 'Todos los resúmenes guardados',
+    'libraryChat.scopeTag': 'Con la etiqueta «{tag}»',
+    'libraryChat.scopeCount': '{count} de {total} resúmenes',
+    'libraryChat.choose': 'O elige los resúmenes a mano',
+    'libraryChat.selectedCount': '{count} resúmenes elegidos',
+    'libraryChat.clearSelection': 'Quitar la selección',
+    'libraryChat.hint': 'Haz una pregunta sobre todos tus términos guardados, p. ej. «¿Qué servicios se renuevan automáticamente?». Las respuestas indican de qué resúmenes y pasajes proceden.',
+    'libraryChat.placeholder': 'Pregunta sobre tus términos guardados...',
+
+    'compare.heading': 'Comparar versiones',
+    'compare.older': 'Anterior',
+    'compare.newer': 'Más reciente',
+    'compare.whatChanged': 'Qué cambió para ti',
+    'compare.comparing': 'La IA está comparando las dos versiones...',
+    'compare.identical': 'Las dos versiones son idénticas.',
+    'compare.clauseChanges': 'Cambios en las cláusulas',
+    'compare.added': 'Añadida:',
+    'compare.removed': 'Eliminada:',
+    'compare.changed': 'Modificada:',
+    'compare.textChanges': 'Cambios en el texto',
+    'compare.showUnchanged': 'Mostrar lo que no cambió',
+    'compare.inline': 'En línea',
+    'compare.sideBySide': 'Lado a lado',
+    'compare.noDifferences': 'No hay diferencias en el texto extraído.',
+};
@@ -0,0 +1,289 @@
+import type { Messages } from './en';
+
+export const hi: Messages = {
+    'app.title': 'नियम व शर्तें सारांशक',
+    'app.tagline': 'आसान सारांश पाने के लिए नियम व शर्तें स्कैन करें।',
+    'nav.scanner': 'स्कैनर',
+    'nav.saved': 'सहेजे गए सारांश ({count})',
+    'nav.libraryChat': 'लाइब्रेरी से पूछें',
+    'nav.language': 'इंटरफ़ेस की भाषा',
+    'nav.install': 'ऐप इंस्टॉल करें',
+
+    'common.analyzing': 'विश्लेषण हो रहा है...',
+    'common.back': 'सहेजी गई सूची पर लौटें',
+    'common.cancel': 'रद्द करें',
+    'common.close': 'बंद करें',
+    'common.dismiss': 'हटाएँ',
+    'common.unknownError': 'एक अज्ञात त्रुटि हुई।',
+
+    'mode.label': 'विश्लेषण का प्रकार',
+    'mode.quick': 'त्वरित',
+    'mode.quick.description': 'सबसे ज़रूरी 5 धाराएँ।',
+    'mode.thorough': 'विस्तृत',
+    'mode.thorough.description': 'हर उल्लेखनीय धारा, खंड के अनुसार। इसमें अधिक समय लगता है।',
+
+    'languages.label': 'भाषाएँ:',
+
+    'storage.hint': 'यह ऐप ब्राउज़र की जितनी जगह इस्तेमाल कर रहा है',
+    'storage.used': 'इस्तेमाल की गई जगह',
+    'storage.amount': '{quota} में से {used} ({percent}%)',
+
+    'scanner.useCamera': 'कैमरा इस्तेमाल करें',
+    'scanner.uploadFiles': 'फ़ाइलें अपलोड करें',
+    'scanner.readingFiles': 'फ़ाइलें पढ़ी जा रही हैं...',
+    'scanner.uploadTypes': 'छवियाँ, PDF, Word, टेक्स्ट या HTML',
+    'scanner.readFileError': '"{name}" पढ़ी नहीं जा सकी।',
+    'scanner.selectedPages': 'चुने गए पृष्ठ:',
+    'scanner.removePage': '{name} हटाएँ',
+    'scanner.reorderHint': 'पेजों को खींचकर पढ़ने के क्रम में लगाएँ; विश्लेषण इसी क्रम में होगा।',
+    'scanner.pageNumber': 'पेज {number}',
+    'scanner.moveEarlier': '{name} को पहले ले जाएँ',
+    'scanner.moveLater': '{name} को बाद में ले जाएँ',
+    'scanner.rotatePage': '{name} घुमाएँ',
+    'scanner.cropPage': '{name} क्रॉप करें',
+    'scanner.retakePage': '{name} दोबारा लें',
+    'scanner.editError': '{name} संपादित नहीं हो सका।',
+    'scanner.pasteToggle': 'इसके बजाय टेक्स्ट पेस्ट करें या वेब पेज आयात करें',
+    'scanner.pastePlaceholder': 'नियम व शर्तें यहाँ पेस्ट करें...',
+    'scanner.importHtml': 'HTML फ़ाइल / सहेजा गया पेज आयात करें',
+    'scanner.summarizeText': 'टेक्स्ट का सारांश बनाएँ',
+    'scanner.summarize': 'सारांश बनाएँ',
+    'scanner.pastedText': 'पेस्ट किया गया टेक्स्ट',
+    'scanner.captureName': 'फ़ोटो {number}',
+    'scanner.pagesNotRead': 'जो पृष्ठ पढ़े नहीं जा सके: {count}। विश्लेषण पूरा करने के लिए उन्हें फिर से आज़माएँ।',
+    'scanner.defaultTitle': 'सारांश {date}',
+    'scanner.titleLabel': 'सारांश का शीर्षक',
+    'scanner.keepImages': 'पृष्ठों की छवियाँ रखें',
+    'scanner.keepImagesHint': 'सारांश के साथ पृष्ठों की संपीड़ित प्रतियाँ सहेजें',
+    'scanner.save': 'सहेजें',
+    'scanner.saved': 'सारांश सहेज लिया गया!',
+    'scanner.alreadySaved': 'यह सारांश पहले से सहेजा हुआ है।',
+    'scanner.startNew': 'नया स्कैन शुरू करें',
+
+    'camera.error': 'कैमरा चालू नहीं हो सका। कृपया अनुमतियाँ जाँचें और फिर से कोशिश करें।',
+    'camera.capture': 'फ़ोटो लें',
+    'camera.autoCrop': 'पेज अपने-आप क्रॉप करें',
+    'camera.enhance': 'साफ़-सफ़ाई',
+    'camera.enhance.none': 'मूल',
+    'camera.enhance.contrast': 'कंट्रास्ट बढ़ाएँ',
+    'camera.enhance.binarize': 'श्वेत-श्याम',
+    'camera.pageFound': 'पेज मिल गया',
+    'camera.noPage': 'कोई पेज नहीं मिला। इसे गहरे रंग की सतह पर रखें।',
+    'camera.processing': 'प्रोसेस हो रहा है…',
+    'camera.processError': 'फ़ोटो प्रोसेस नहीं हो सकी। कृपया फिर से कोशिश करें।',
+    'camera.continuous': 'लगातार',
+    'camera.autoCapture': 'अपने-आप फ़ोटो',
+    'camera.autoCaptureHint': 'पेज ढूँढने के लिए ऑटो-क्रॉप चालू होना चाहिए',
+    'camera.holdSteady': 'स्थिर रखें…',
+    'camera.done': 'हो गया ({count})',
+
+    'crop.heading': '{name} क्रॉप करें',
+    'crop.reset': 'रीसेट करें',
+    'crop.apply': 'लागू करें',
+
+    'ocr.engine.label': 'टेक्स्ट पढ़ना',
+    'ocr.engine.cloud': 'क्लाउड मॉडल',
+    'ocr.engine.cloud.description': 'एआई मॉडल पेज की छवियाँ पढ़ता है।',
+    'ocr.engine.device': 'इसी डिवाइस पर',
+    'ocr.engine.device.description': 'पेज आपके ब्राउज़र में पढ़े जाते हैं; केवल आपका स्वीकृत टेक्स्ट भेजा जाता है।',
+    'ocr.read': 'पेज पढ़ें',
+    'ocr.offlineFallback': 'आप ऑफ़लाइन हैं, इसलिए पेज इसी डिवाइस पर पढ़े जाएँगे।',
+    'ocr.heading': 'भेजने से पहले जाँचें',
+    'ocr.privacy': 'पेज की छवियाँ इसी डिवाइस पर रहती हैं। टेक्स्ट जाँचें और सुधारें; सारांश के लिए केवल यही टेक्स्ट भेजा जाता है।',
+    'ocr.loading': 'टेक्स्ट रीडर लोड हो रहा है…',
+    'ocr.reading': '{total} में से पेज {page} पढ़ा जा रहा है…',
+    'ocr.confidence': 'विश्वसनीयता {percent}%',
+    'ocr.uncertain': 'इन शब्दों को जाँचें: {words}',
+    'ocr.pageText': '{name} का टेक्स्ट',
+    'ocr.empty': 'इस पेज पर कोई टेक्स्ट नहीं मिला।',
+    'ocr.unread': 'पढ़ने के बाद जोड़े या बदले गए पेज: {count}।',
+    'ocr.readAgain': 'फिर से पढ़ें',
+    'ocr.offline': 'आप ऑफ़लाइन हैं। अभी कतार में रखें, ऑनलाइन लौटने पर सारांश अपने-आप बन जाएगा।',
+    'ocr.download': 'टेक्स्ट डाउनलोड करें',
+    'ocr.summarize': 'इस टेक्स्ट का सारांश बनाएँ',
+    'ocr.discard': 'हटाएँ',
+    'redaction.toggle': 'भेजने से पहले निजी जानकारी छिपाएँ',
+    'redaction.toggleHint': 'नाम, संपर्क जानकारी, खाता और कार्ड नंबर और पते इसी डिवाइस पर ढूँढकर छिपाए जाते हैं। कुछ भी भेजने से पहले आप उन्हें जाँच लेते हैं।',
+    'redaction.review': 'जाँचें और सारांश बनाएँ',
+    'redaction.privacyImages': 'पेज तस्वीरों के रूप में भेजे जाएँगे, चिह्नित जानकारी काली करके। नीचे जाँच लें।',
+    'redaction.privacyText': 'नीचे का टेक्स्ट जाँच लें। सारांश के लिए सिर्फ़ यही टेक्स्ट भेजा जाएगा, चिह्नित जानकारी हटाकर।',
+    'redaction.heading': 'छिपाई जाने वाली निजी जानकारी',
+    'redaction.hint': 'टिक की गई जानकारी भेजने से पहले छिपाई जाएगी। किसी को जैसा है वैसा भेजने के लिए टिक हटाएँ, या छूटी हुई जानकारी जोड़ें।',
+    'redaction.none': 'कोई निजी जानकारी नहीं मिली। छूटी हुई जानकारी जोड़ें।',
+    'redaction.kind.email': 'ईमेल',
+    'redaction.kind.phone': 'फ़ोन',
+    'redaction.kind.card': 'कार्ड नंबर',
+    'redaction.kind.account': 'खाता नंबर',
+    'redaction.kind.address': 'पता',
+    'redaction.kind.name': 'नाम',
+    'redaction.kind.custom': 'जोड़ा गया',
+    'redaction.removeTerm': '{term} को छिपाना बंद करें',
+    'redaction.addPlaceholder': 'छिपाने के लिए कुछ और, जैसे कोई नाम',
+    'redaction.add': 'छिपाएँ',
+    'redaction.preview': 'भेजा जाने वाला टेक्स्ट देखें',
+    'redaction.summarizeImages': 'छिपाए गए पेजों का सारांश बनाएँ',
+    'redaction.maskError': 'पेजों को छिपाया नहीं जा सका। कुछ भी नहीं भेजा गया।',
+    'redaction.logHeading': 'भेजने से पहले छिपाई गई निजी जानकारी ({count})',
+    'redaction.logHint': 'विश्लेषण के लिए भेजने से पहले इन्हें दस्तावेज़ से हटा दिया गया था। यहाँ सिर्फ़ इनका पहला और आख़िरी अक्षर रखा गया है।',
+    'queue.heading': 'विश्लेषण की कतार में ({count})',
+    'queue.hint': 'ऑफ़लाइन रहते कतार में रखे स्कैन फिर से ऑनलाइन होने पर अपने-आप विश्लेषित और सहेजे जाते हैं।',
+    'queue.details': 'कतार में रखा गया {date} · {count} पेज',
+    'queue.running': 'विश्लेषण हो रहा है… {percent}%',
+    'queue.next': 'जल्द शुरू होगा',
+    'queue.waiting': 'कनेक्शन का इंतज़ार',
+    'queue.retry': 'फिर से कोशिश करें',
+    'queue.remove': '{title} को कतार से हटाएँ',
+    'queue.add': 'ऑनलाइन होने पर करने के लिए कतार में रखें',
+    'offline.banner': 'आप ऑफ़लाइन हैं। सहेजे गए सारांश और उनकी चैट अब भी पढ़ी जा सकती हैं, और नए स्कैन ऑनलाइन लौटने तक कतार में रहते हैं।',
+
+    'progress.stage.upload': 'अपलोड',
+    'progress.stage.ocr': 'पृष्ठ पढ़ना',
+    'progress.stage.summarise': 'सारांश',
+    'progress.stage.translate': 'अनुवाद',
+    'progress.part': '{total} में से भाग {current}',
+    'progress.pagesRead': '{total} में से {done} पृष्ठ पढ़े गए',
+    'progress.paused': '{percent}% पर रुका हुआ',
+    'progress.failedPages': '{names} पढ़े नहीं जा सके। बाकी पृष्ठ रखे गए हैं।',
+    'progress.retryFailed': 'विफल पृष्ठ फिर से आज़माएँ',
+    'progress.resume': 'जारी रखें',
+
+    'saved.heading': 'सहेजे गए सारांश',
+    'saved.compareHint': 'एक ही शर्तों के दो सारांशों पर टिक करें और देखें कि उनके बीच क्या बदला।',
+    'saved.compare': 'तुलना करें ({count}/2)',
+    'saved.loading': 'सहेजे गए सारांश लोड हो रहे हैं...',
+    'saved.empty': 'आपके पास कोई सहेजा गया सारांश नहीं है।',
+    'saved.selectForComparison': 'तुलना के लिए {title} चुनें',
+    'saved.view': 'देखें',
+    'saved.delete': 'मिटाएँ',
+    'saved.confirmDelete': 'क्या आप वाकई यह सारांश मिटाना चाहते हैं?',
+
+    'library.search': 'सहेजे गए सारांश खोजें',
+    'library.searchPlaceholder': 'शीर्षक, सारांश, खंड और दस्तावेज़ का पाठ खोजें...',
+    'library.tag': 'टैग',
+    'library.allTags': 'सभी टैग',
+    'library.category': 'खंड की श्रेणी',
+    'library.allCategories': 'सभी खंड श्रेणियाँ',
+    'library.from': 'से',
+    'library.to': 'तक',
+    'library.sort': 'क्रम',
+    'library.sort.newest': 'नए पहले',
+    'library.sort.oldest': 'पुराने पहले',
+    'library.sort.title': 'शीर्षक',
+    'library.sort.risk': 'सबसे अधिक जोखिम पहले',
+    'library.clear': 'फ़िल्टर हटाएँ',
+    'library.noMatches': 'आपकी खोज से मेल खाता कोई सहेजा गया सारांश नहीं है।',
+    'library.showing': '{total} में से {count} दिखाए जा रहे हैं',
+    'library.match.summary': 'सारांश',
+    'library.match.clause': 'खंड',
+    'library.match.full_text': 'दस्तावेज़',
+
+    'backup.create': 'लाइब्रेरी का बैकअप लें',
+    'backup.createHint': 'सभी सहेजे गए सारांश और पृष्ठों की छवियाँ एक फ़ाइल में डाउनलोड करें',
+    'backup.creating': 'बैकअप तैयार हो रहा है...',
+    'backup.restore': 'बैकअप से पुनर्स्थापित करें',
+    'backup.restoreHint': 'बैकअप फ़ाइल के सारांश इस लाइब्रेरी में जोड़ें। यहाँ सहेजा गया कुछ भी बदला नहीं जाता।',
+    'backup.restoring': 'पुनर्स्थापित हो रहा है...',
+    'backup.result': '{imported} सारांश पुनर्स्थापित किए गए। लाइब्रेरी में पहले से मौजूद {duplicates} छोड़ दिए गए।',
+    'backup.conflicts': '{count} सारांश पुनर्स्थापित नहीं किए गए, क्योंकि वही आईडी किसी दूसरे सारांश की है:',
+    'backup.conflict': '“{title}” (“{existing}” से टकराव)',
+
+    'detail.savedOn': '{date} को सहेजा गया',
+    'detail.addTranslation': 'एक अनुवाद जोड़ें...',
+    'detail.translate': 'अनुवाद करें',
+    'detail.translating': 'अनुवाद हो रहा है...',
+    'detail.originalPages': 'मूल पृष्ठ ({count})',
+    'detail.loadPagesError': 'पृष्ठों की छवियाँ लोड नहीं हो सकीं।',
+    'detail.rerunHeading': 'इन पृष्ठों का फिर से विश्लेषण करें',
+    'detail.rerunModel': 'मॉडल (वैकल्पिक, खाली रहने पर डिफ़ॉल्ट)',
+    'detail.rerun': 'फिर से चलाएँ',
+    'detail.rerunHint': 'नया विश्लेषण अलग सारांश के रूप में सहेजा जाता है, ताकि आप इसकी तुलना इससे कर सकें।',
+    'detail.rerunPartial': 'इस दस्तावेज़ के कुछ पृष्ठ टेक्स्ट के रूप में पढ़े गए थे और सहेजे नहीं गए, इसलिए सहेजे गए पृष्ठों से इसका दोबारा विश्लेषण नहीं किया जा सकता।',
+
+    'labels.company': 'कंपनी या सेवा',
+    'labels.companyPlaceholder': 'कंपनी या सेवा...',
+    'labels.addTag': 'टैग जोड़ें...',
+    'labels.add': 'जोड़ें',
+    'labels.removeTag': 'टैग {tag} हटाएँ',
+
+    'export.label': 'निर्यात:',
+    'export.language': 'निर्यात की भाषा',
+    'export.pdf': 'PDF',
+    'export.pdfHint': 'प्रिंट डायलॉग खुलेगा। प्रिंटर के रूप में "Save as PDF" चुनें।',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.html': 'HTML',
+    'export.htmlHint': 'एक ही फ़ाइल जो किसी भी ब्राउज़र में, ऑफ़लाइन भी, खुलती है।',
+    'export.analysedOn': '{date} को विश्लेषण किया गया',
+    'export.fullText': 'निकाला गया पूरा टेक्स्ट',
+
+    'pages.previous': 'पिछला',
+    'pages.next': 'अगला',
+    'pages.position': '{total} में से पृष्ठ {current}',
+    'pages.thumbnail': 'पृष्ठ {number}',
+
+    'summary.riskScoreHint': 'कुल जोखिम स्कोर (0-100)',
+    'summary.risk': 'जोखिम',
+    'summary.overallRisk': 'कुल जोखिम: {level}',
+    'summary.summary': 'सारांश',
+    'summary.keyClauses': 'मुख्य धाराएँ',
+    'summary.quoteNotFound': 'उद्धरण दस्तावेज़ में नहीं मिला, शायद गढ़ा गया है',
+    'summary.quoteNotFoundHint': 'यह उद्धरण निकाले गए टेक्स्ट में नहीं है। हो सकता है AI ने इसे गढ़ा हो।',
+    'summary.viewFullText': 'निकाला गया पूरा टेक्स्ट देखें',
+
+    'category.auto_renewal': 'स्वतः नवीनीकरण',
+    'category.data_sharing': 'डेटा साझाकरण',
+    'category.arbitration': 'मध्यस्थता',
+    'category.liability': 'दायित्व',
+    'category.termination': 'समाप्ति',
+    'category.changes_to_terms': 'शर्तों में बदलाव',
+    'category.payment': 'भुगतान',
+    'category.other': 'अन्य',
+
+    'severity.low': 'कम',
+    'severity.medium': 'मध्यम',
+    'severity.high': 'उच्च',
+    'severity.unrated': 'अमूल्यांकित',
+
+    'chat.heading': 'सवाल पूछें',
+    'chat.placeholder': 'दस्तावेज़ के बारे में पूछें...',
+    'chat.offline': 'आप ऑफ़लाइन हैं। सवाल पूछने के लिए फिर से कनेक्ट करें।',
+    'chat.send': 'भेजें',
+    'chat.error': 'क्षमा करें, कुछ गड़बड़ हो गई।',
+    'chat.quoteNotFound': 'दस्तावेज़ में नहीं मिला',
+    'chat.quoteNotFoundHint': 'यह उद्धरण दस्तावेज़ में नहीं है। हो सकता है AI ने इसे गढ़ा हो।',
+    'chat.clear': 'बातचीत साफ़ करें',
+    'chat.confirmClear': 'यह बातचीत हटाएँ? पिन किए गए नोट बने रहेंगे।',
+    'chat.loading': 'बातचीत लोड हो रही है...',
+    'chat.pin': 'नोट के रूप में पिन करें',
+    'chat.passagesUsed': 'उपयोग किए गए अंश:',
+
+    'notes.heading': 'नोट',
+    'notes.remove': 'नोट हटाएँ',
+
+    'libraryChat.heading': 'अपनी लाइब्रेरी से पूछें',
+    'libraryChat.scope': 'कहाँ पूछें:',
+    'libraryChat.scopeAll': 'सभी सहेजे गए सारांश',
+    'libraryChat.scopeTag': '“{tag}” टैग वाले',
+    'libraryChat.scopeCount': '{total} में से {count} सारांश',
+    'libraryChat.choose': 'या सारांश स्वयं चुनें',
+    'libraryChat.selectedCount': '{count} सारांश चुने गए',
+    'libraryChat.clearSelection': 'चयन हटाएँ',
+    'libraryChat.hint': 'अपनी सहेजी गई शर्तों में सवाल पूछें, जैसे “कौन-सी सेवाएँ अपने-आप नवीनीकृत होती हैं?” उत्तर बताते हैं कि वे किन सारांशों और अंशों से आए हैं।',
+    'libraryChat.placeholder': 'अपनी सहेजी गई शर्तों के बारे में पूछें...',
+
+    'compare.heading': 'संस्करणों की तुलना',
+    'compare.older': 'पुराना',
+    'compare.newer': 'नया',
+    'compare.whatChanged': 'आपके लिए क्या बदला',
+    'compare.comparing': 'AI दोनों संस्करणों की तुलना कर रहा है...',
+    'compare.identical': 'दोनों संस्करण बिल्कुल एक जैसे हैं।',
+    'compare.clauseChanges': 'धाराओं में बदलाव',
+    'compare.added': 'जोड़ा गया:',
+    'compare.removed': 'हटाया गया:',
+    'compare.changed': 'बदला गया:',
+    'compare.textChanges': 'टेक्स्ट में बदलाव',
+    'compare.showUnchanged': 'बिना बदले हिस्से भी दिखाएँ',
+    'compare.inline': 'एक साथ',
+    'compare.sideBySide': 'अगल-बगल',
+    'compare.noDifferences': 'निकाले गए टेक्स्ट में कोई अंतर नहीं है।',
+};
@@ -0,0 +1,32 @@
+import type { LanguageCode } from '../../types';
+import { LANGUAGE_CODES } from '../languages';
+import { en, type MessageKey, type Messages } from './en';
+import { bn } from './bn';
+import { hi } from './hi';
+import { ur } from './ur';
+import { es } from './es';
+import { ar } from './ar';
+
+export type { MessageKey, Messages };
+
+/** Values substituted for the `{name}` placeholders of a message. */
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<LanguageCode, Messages> = { en, bn, hi, ur, es, ar };
+
+/** Looks up an interface message in the given language and fills in its placeholders. */
+export function translate(lang: LanguageCode, key: MessageKey, params?: MessageParams): string {
+    const template = CATALOGS[lang]?.[key] ?? en[key];
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder);
+}
+
+/** The first of the browser's preferred languages the interface is available in, or English. */
+export function detectLanguage(): LanguageCode {
+    const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+    for (const tag of preferred) {
+        const code = tag.split('-')[0].toLowerCase() as LanguageCode;
+        if (LANGUAGE_CODES.includes(code)) return code;
+    }
+    return 'en';
+}
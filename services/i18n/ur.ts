@@ -0,0 +1,289 @@
+import type { Messages } from './en';
+
+export const ur: Messages = {
+    'app.title': 'شرائط و ضوابط خلاصہ ساز',
+    'app.tagline': 'آسان خلاصہ حاصل کرنے کے لیے شرائط و ضوابط اسکین کریں۔',
+    'nav.scanner': 'اسکینر',
+    'nav.saved': 'محفوظ شدہ خلاصے ({count})',
+    'nav.libraryChat': 'لائبریری سے پوچھیں',
+    'nav.language': 'انٹرفیس کی زبان',
+    'nav.install': 'ایپ انسٹال کریں',
+
+    'common.analyzing': 'تجزیہ ہو رہا ہے...',
+    'common.back': 'محفوظ فہرست پر واپس جائیں',
+    'common.cancel': 'منسوخ کریں',
+    'common.close': 'بند کریں',
+    'common.dismiss': 'ہٹائیں',
+    'common.unknownError': 'ایک نامعلوم خرابی پیش آئی۔',
+
+    'mode.label': 'تجزیے کی قسم',
+    'mode.quick': 'فوری',
+    'mode.quick.description': 'سب سے اہم 5 شقیں۔',
+    'mode.thorough': 'تفصیلی',
+    'mode.thorough.description': 'ہر قابل ذکر شق، حصوں کے لحاظ سے۔ زیادہ وقت لگتا ہے۔',
+
+    'languages.label': 'زبانیں:',
+
+    'storage.hint': 'یہ ایپ براؤزر کی جتنی جگہ استعمال کر رہی ہے',
+    'storage.used': 'استعمال شدہ جگہ',
+    'storage.amount': '{quota} میں سے {used} ({percent}%)',
+
+    'scanner.useCamera': 'کیمرا استعمال کریں',
+    'scanner.uploadFiles': 'فائلیں اپ لوڈ کریں',
+    'scanner.readingFiles': 'فائلیں پڑھی جا رہی ہیں...',
+    'scanner.uploadTypes': 'تصاویر، PDF، Word، متن یا HTML',
+    'scanner.readFileError': '"{name}" پڑھی نہیں جا سکی۔',
+    'scanner.selectedPages': 'منتخب صفحات:',
+    'scanner.removePage': '{name} ہٹائیں',
+    'scanner.reorderHint': 'صفحات کو گھسیٹ کر پڑھنے کی ترتیب میں لگائیں؛ تجزیہ اسی ترتیب سے ہوگا۔',
+    'scanner.pageNumber': 'صفحہ {number}',
+    'scanner.moveEarlier': '{name} کو پہلے لے جائیں',
+    'scanner.moveLater': '{name} کو بعد میں لے جائیں',
+    'scanner.rotatePage': '{name} گھمائیں',
+    'scanner.cropPage': '{name} کاٹیں',
+    'scanner.retakePage': '{name} دوبارہ لیں',
+    'scanner.editError': '{name} میں ترمیم نہیں ہو سکی۔',
+    'scanner.pasteToggle': 'اس کے بجائے متن پیسٹ کریں یا ویب صفحہ درآمد کریں',
+    'scanner.pastePlaceholder': 'شرائط و ضوابط یہاں پیسٹ کریں...',
+    'scanner.importHtml': 'HTML فائل / محفوظ صفحہ درآمد کریں',
+    'scanner.summarizeText': 'متن کا خلاصہ بنائیں',
+    'scanner.summarize': 'خلاصہ بنائیں',
+    'scanner.pastedText': 'پیسٹ کیا گیا متن',
+    'scanner.captureName': 'تصویر {number}',
+    'scanner.pagesNotRead': 'جو صفحات پڑھے نہیں جا سکے: {count}۔ تجزیہ مکمل کرنے کے لیے انہیں دوبارہ آزمائیں۔',
+    'scanner.defaultTitle': 'خلاصہ {date}',
+    'scanner.titleLabel': 'خلاصے کا عنوان',
+    'scanner.keepImages': 'صفحات کی تصاویر رکھیں',
+    'scanner.keepImagesHint': 'خلاصے کے ساتھ صفحات کی کمپریس شدہ کاپیاں محفوظ کریں',
+    'scanner.save': 'محفوظ کریں',
+    'scanner.saved': 'خلاصہ محفوظ ہو گیا!',
+    'scanner.alreadySaved': 'یہ خلاصہ پہلے سے محفوظ ہے۔',
+    'scanner.startNew': 'نیا اسکین شروع کریں',
+
+    'camera.error': 'کیمرا نہیں کھل سکا۔ براہ کرم اجازتیں چیک کریں اور دوبارہ کوشش کریں۔',
+    'camera.capture': 'تصویر لیں',
+    'camera.autoCrop': 'صفحہ خودکار طور پر کاٹیں',
+    'camera.enhance': 'صفائی',
+    'camera.enhance.none': 'اصل',
+    'camera.enhance.contrast': 'کنٹراسٹ بڑھائیں',
+    'camera.enhance.binarize': 'سیاہ و سفید',
+    'camera.pageFound': 'صفحہ مل گیا',
+    'camera.noPage': 'کوئی صفحہ نہیں ملا۔ اسے گہرے رنگ کی سطح پر رکھیں۔',
+    'camera.processing': 'پروسیس ہو رہا ہے…',
+    'camera.processError': 'تصویر پروسیس نہیں ہو سکی۔ براہ کرم دوبارہ کوشش کریں۔',
+    'camera.continuous': 'مسلسل',
+    'camera.autoCapture': 'خودکار تصویر',
+    'camera.autoCaptureHint': 'صفحہ ڈھونڈنے کے لیے خودکار کٹائی آن ہونی چاہیے',
+    'camera.holdSteady': 'ساکن رکھیں…',
+    'camera.done': 'مکمل ({count})',
+
+    'crop.heading': '{name} کاٹیں',
+    'crop.reset': 'ری سیٹ کریں',
+    'crop.apply': 'لاگو کریں',
+
+    'ocr.engine.label': 'متن پڑھنا',
+    'ocr.engine.cloud': 'کلاؤڈ ماڈل',
+    'ocr.engine.cloud.description': 'اے آئی ماڈل صفحات کی تصاویر پڑھتا ہے۔',
+    'ocr.engine.device': 'اسی ڈیوائس پر',
+    'ocr.engine.device.description': 'صفحات آپ کے براؤزر میں پڑھے جاتے ہیں؛ صرف آپ کا منظور کردہ متن بھیجا جاتا ہے۔',
+    'ocr.read': 'صفحات پڑھیں',
+    'ocr.offlineFallback': 'آپ آف لائن ہیں، اس لیے صفحات اسی ڈیوائس پر پڑھے جائیں گے۔',
+    'ocr.heading': 'بھیجنے سے پہلے جانچ لیں',
+    'ocr.privacy': 'صفحات کی تصاویر اسی ڈیوائس پر رہتی ہیں۔ متن چیک کریں اور درست کریں؛ خلاصے کے لیے صرف یہی متن بھیجا جاتا ہے۔',
+    'ocr.loading': 'متن ریڈر لوڈ ہو رہا ہے…',
+    'ocr.reading': '{total} میں سے صفحہ {page} پڑھا جا رہا ہے…',
+    'ocr.confidence': 'اعتماد {percent}%',
+    'ocr.uncertain': 'یہ الفاظ چیک کریں: {words}',
+    'ocr.pageText': '{name} کا متن',
+    'ocr.empty': 'اس صفحے پر کوئی متن نہیں ملا۔',
+    'ocr.unread': 'پڑھنے کے بعد شامل یا تبدیل کیے گئے صفحات: {count}۔',
+    'ocr.readAgain': 'دوبارہ پڑھیں',
+    'ocr.offline': 'آپ آف لائن ہیں۔ ابھی قطار میں رکھیں، آن لائن واپسی پر خلاصہ خود بخود بن جائے گا۔',
+    'ocr.download': 'متن ڈاؤن لوڈ کریں',
+    'ocr.summarize': 'اس متن کا خلاصہ بنائیں',
+    'ocr.discard': 'رد کریں',
+    'redaction.toggle': 'بھیجنے سے پہلے ذاتی معلومات چھپائیں',
+    'redaction.toggleHint': 'نام، رابطے کی معلومات، اکاؤنٹ اور کارڈ نمبر اور پتے اسی ڈیوائس پر تلاش کر کے چھپائے جاتے ہیں۔ کچھ بھی بھیجنے سے پہلے آپ انہیں دیکھ لیتے ہیں۔',
+    'redaction.review': 'جانچ کر خلاصہ بنائیں',
+    'redaction.privacyImages': 'صفحات تصاویر کے طور پر بھیجے جائیں گے، نشان زدہ معلومات سیاہ کر کے۔ نیچے دیکھ لیں۔',
+    'redaction.privacyText': 'نیچے کا متن دیکھ لیں۔ خلاصے کے لیے صرف یہی متن بھیجا جائے گا، نشان زدہ معلومات ہٹا کر۔',
+    'redaction.heading': 'چھپائی جانے والی ذاتی معلومات',
+    'redaction.hint': 'نشان لگی معلومات بھیجنے سے پہلے چھپائی جائیں گی۔ کسی کو جوں کا توں بھیجنے کے لیے نشان ہٹائیں، یا رہ جانے والی معلومات شامل کریں۔',
+    'redaction.none': 'کوئی ذاتی معلومات نہیں ملیں۔ رہ جانے والی معلومات شامل کریں۔',
+    'redaction.kind.email': 'ای میل',
+    'redaction.kind.phone': 'فون',
+    'redaction.kind.card': 'کارڈ نمبر',
+    'redaction.kind.account': 'اکاؤنٹ نمبر',
+    'redaction.kind.address': 'پتہ',
+    'redaction.kind.name': 'نام',
+    'redaction.kind.custom': 'شامل کردہ',
+    'redaction.removeTerm': '{term} کو چھپانا بند کریں',
+    'redaction.addPlaceholder': 'چھپانے کے لیے کچھ اور، مثلاً کوئی نام',
+    'redaction.add': 'چھپائیں',
+    'redaction.preview': 'بھیجا جانے والا متن دیکھیں',
+    'redaction.summarizeImages': 'چھپائے گئے صفحات کا خلاصہ بنائیں',
+    'redaction.maskError': 'صفحات چھپائے نہیں جا سکے۔ کچھ نہیں بھیجا گیا۔',
+    'redaction.logHeading': 'بھیجنے سے پہلے چھپائی گئی ذاتی معلومات ({count})',
+    'redaction.logHint': 'تجزیے کے لیے بھیجنے سے پہلے یہ دستاویز سے ہٹا دی گئی تھیں۔ یہاں صرف ان کا پہلا اور آخری حرف رکھا گیا ہے۔',
+    'queue.heading': 'تجزیے کی قطار میں ({count})',
+    'queue.hint': 'آف لائن ہوتے ہوئے قطار میں رکھے گئے اسکین دوبارہ آن لائن ہونے پر خود بخود تجزیہ کر کے محفوظ کر دیے جاتے ہیں۔',
+    'queue.details': 'قطار میں رکھا گیا {date} · {count} صفحات',
+    'queue.running': 'تجزیہ ہو رہا ہے… {percent}%',
+    'queue.next': 'جلد شروع ہوگا',
+    'queue.waiting': 'کنکشن کا انتظار',
+    'queue.retry': 'دوبارہ کوشش کریں',
+    'queue.remove': '{title} کو قطار سے ہٹائیں',
+    'queue.add': 'آن لائن ہونے پر کرنے کے لیے قطار میں رکھیں',
+    'offline.banner': 'آپ آف لائن ہیں۔ محفوظ خلاصے اور ان کی چیٹ اب بھی پڑھی جا سکتی ہیں، اور نئے اسکین آن لائن واپسی تک قطار میں رہتے ہیں۔',
+
+    'progress.stage.upload': 'اپ لوڈ',
+    'progress.stage.ocr': 'صفحات پڑھنا',
+    'progress.stage.summarise': 'خلاصہ',
+    'progress.stage.translate': 'ترجمہ',
+    'progress.part': '{total} میں سے حصہ {current}',
+    'progress.pagesRead': '{total} میں سے {done} صفحات پڑھے گئے',
+    'progress.paused': '{percent}% پر رکا ہوا',
+    'progress.failedPages': '{names} پڑھے نہیں جا سکے۔ باقی صفحات رکھے گئے ہیں۔',
+    'progress.retryFailed': 'ناکام صفحات دوبارہ آزمائیں',
+    'progress.resume': 'جاری رکھیں',
+
+    'saved.heading': 'محفوظ شدہ خلاصے',
+    'saved.compareHint': 'ایک ہی شرائط کے دو خلاصوں پر نشان لگائیں اور دیکھیں کہ ان کے درمیان کیا بدلا۔',
+    'saved.compare': 'موازنہ کریں ({count}/2)',
+    'saved.loading': 'محفوظ شدہ خلاصے لوڈ ہو رہے ہیں...',
+    'saved.empty': 'آپ کے پاس کوئی محفوظ خلاصہ نہیں ہے۔',
+    'saved.selectForComparison': 'موازنے کے لیے {title} منتخب کریں',
+    'saved.view': 'دیکھیں',
+    'saved.delete': 'حذف کریں',
+    'saved.confirmDelete': 'کیا آپ واقعی یہ خلاصہ حذف کرنا چاہتے ہیں؟',
+
+    'library.search': 'محفوظ شدہ خلاصے تلاش کریں',
+    'library.searchPlaceholder': 'عنوانات، خلاصے، شقیں اور دستاویز کا متن تلاش کریں...',
+    'library.tag': 'ٹیگ',
+    'library.allTags': 'تمام ٹیگ',
+    'library.category': 'شق کی قسم',
+    'library.allCategories': 'شقوں کی تمام اقسام',
+    'library.from': 'سے',
+    'library.to': 'تک',
+    'library.sort': 'ترتیب',
+    'library.sort.newest': 'نئے پہلے',
+    'library.sort.oldest': 'پرانے پہلے',
+    'library.sort.title': 'عنوان',
+    'library.sort.risk': 'سب سے زیادہ خطرہ پہلے',
+    'library.clear': 'فلٹر صاف کریں',
+    'library.noMatches': 'آپ کی تلاش سے کوئی محفوظ خلاصہ نہیں ملتا۔',
+    'library.showing': '{total} میں سے {count} دکھائے جا رہے ہیں',
+    'library.match.summary': 'خلاصہ',
+    'library.match.clause': 'شق',
+    'library.match.full_text': 'دستاویز',
+
+    'backup.create': 'لائبریری کا بیک اپ لیں',
+    'backup.createHint': 'تمام محفوظ خلاصے اور صفحات کی تصاویر ایک فائل میں ڈاؤن لوڈ کریں',
+    'backup.creating': 'بیک اپ تیار ہو رہا ہے...',
+    'backup.restore': 'بیک اپ سے بحال کریں',
+    'backup.restoreHint': 'بیک اپ فائل کے خلاصے اس لائبریری میں شامل کریں۔ یہاں محفوظ کوئی چیز تبدیل نہیں ہوتی۔',
+    'backup.restoring': 'بحال ہو رہا ہے...',
+    'backup.result': '{imported} خلاصے بحال کیے گئے۔ لائبریری میں پہلے سے موجود {duplicates} چھوڑ دیے گئے۔',
+    'backup.conflicts': '{count} خلاصے بحال نہیں کیے گئے کیونکہ یہی آئی ڈی کسی دوسرے خلاصے کی ہے:',
+    'backup.conflict': '“{title}” (“{existing}” سے ٹکراؤ)',
+
+    'detail.savedOn': '{date} کو محفوظ کیا گیا',
+    'detail.addTranslation': 'ایک ترجمہ شامل کریں...',
+    'detail.translate': 'ترجمہ کریں',
+    'detail.translating': 'ترجمہ ہو رہا ہے...',
+    'detail.originalPages': 'اصل صفحات ({count})',
+    'detail.loadPagesError': 'صفحات کی تصاویر لوڈ نہیں ہو سکیں۔',
+    'detail.rerunHeading': 'ان صفحات کا دوبارہ تجزیہ کریں',
+    'detail.rerunModel': 'ماڈل (اختیاری، خالی ہو تو ڈیفالٹ)',
+    'detail.rerun': 'دوبارہ چلائیں',
+    'detail.rerunHint': 'نیا تجزیہ الگ خلاصے کے طور پر محفوظ ہوتا ہے، تاکہ آپ اس کا موازنہ اِس سے کر سکیں۔',
+    'detail.rerunPartial': 'اس دستاویز کے کچھ صفحات متن کے طور پر پڑھے گئے تھے اور محفوظ نہیں کیے گئے، اس لیے محفوظ صفحات سے اس کا دوبارہ تجزیہ نہیں ہو سکتا۔',
+
+    'labels.company': 'کمپنی یا سروس',
+    'labels.companyPlaceholder': 'کمپنی یا سروس...',
+    'labels.addTag': 'ٹیگ شامل کریں...',
+    'labels.add': 'شامل کریں',
+    'labels.removeTag': 'ٹیگ {tag} ہٹائیں',
+
+    'export.label': 'برآمد:',
+    'export.language': 'برآمد کی زبان',
+    'export.pdf': 'PDF',
+    'export.pdfHint': 'پرنٹ ڈائیلاگ کھلے گا۔ پرنٹر کے طور پر "Save as PDF" منتخب کریں۔',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.html': 'HTML',
+    'export.htmlHint': 'ایک ہی فائل جو کسی بھی براؤزر میں، آف لائن بھی، کھلتی ہے۔',
+    'export.analysedOn': '{date} کو تجزیہ کیا گیا',
+    'export.fullText': 'نکالا گیا مکمل متن',
+
+    'pages.previous': 'پچھلا',
+    'pages.next': 'اگلا',
+    'pages.position': '{total} میں سے صفحہ {current}',
+    'pages.thumbnail': 'صفحہ {number}',
+
+    'summary.riskScoreHint': 'مجموعی خطرے کا اسکور (0-100)',
+    'summary.risk': 'خطرہ',
+    'summary.overallRisk': 'مجموعی خطرہ: {level}',
+    'summary.summary': 'خلاصہ',
+    'summary.keyClauses': 'اہم شقیں',
+    'summary.quoteNotFound': 'اقتباس دستاویز میں نہیں ملا، ممکن ہے گھڑا گیا ہو',
+    'summary.quoteNotFoundHint': 'یہ اقتباس نکالے گئے متن میں موجود نہیں۔ ممکن ہے AI نے اسے گھڑ لیا ہو۔',
+    'summary.viewFullText': 'نکالا گیا مکمل متن دیکھیں',
+
+    'category.auto_renewal': 'خودکار تجدید',
+    'category.data_sharing': 'ڈیٹا شیئرنگ',
+    'category.arbitration': 'ثالثی',
+    'category.liability': 'ذمہ داری',
+    'category.termination': 'اختتام',
+    'category.changes_to_terms': 'شرائط میں تبدیلی',
+    'category.payment': 'ادائیگی',
+    'category.other': 'دیگر',
+
+    'severity.low': 'کم',
+    'severity.medium': 'درمیانہ',
+    'severity.high': 'زیادہ',
+    'severity.unrated': 'غیر درجہ بند',
+
+    'chat.heading': 'سوال پوچھیں',
+    'chat.placeholder': 'دستاویز کے بارے میں پوچھیں...',
+    'chat.offline': 'آپ آف لائن ہیں۔ سوال پوچھنے کے لیے دوبارہ کنیکٹ کریں۔',
+    'chat.send': 'بھیجیں',
+    'chat.error': 'معذرت، کچھ غلط ہو گیا۔',
+    'chat.quoteNotFound': 'دستاویز میں نہیں ملا',
+    'chat.quoteNotFoundHint': 'یہ اقتباس دستاویز میں موجود نہیں۔ ممکن ہے AI نے اسے گھڑ لیا ہو۔',
+    'chat.clear': 'گفتگو صاف کریں',
+    'chat.confirmClear': 'یہ گفتگو حذف کریں؟ پن کیے گئے نوٹس باقی رہیں گے۔',
+    'chat.loading': 'گفتگو لوڈ ہو رہی ہے...',
+    'chat.pin': 'نوٹ کے طور پر پن کریں',
+    'chat.passagesUsed': 'استعمال شدہ اقتباسات:',
+
+    'notes.heading': 'نوٹس',
+    'notes.remove': 'نوٹ ہٹائیں',
+
+    'libraryChat.heading': 'اپنی لائبریری سے پوچھیں',
+    'libraryChat.scope': 'کہاں پوچھیں:',
+    'libraryChat.scopeAll': 'تمام محفوظ شدہ خلاصے',
+    'libraryChat.scopeTag': '“{tag}” ٹیگ والے',
+    'libraryChat.scopeCount': '{total} میں سے {count} خلاصے',
+    'libraryChat.choose': 'یا خلاصے خود منتخب کریں',
+    'libraryChat.selectedCount': '{count} خلاصے منتخب کیے گئے',
+    'libraryChat.clearSelection': 'انتخاب صاف کریں',
+    'libraryChat.hint': 'اپنی محفوظ شرائط میں سوال پوچھیں، مثلاً “کون سی سروسز خود بخود تجدید ہوتی ہیں؟” جوابات بتاتے ہیں کہ وہ کن خلاصوں اور اقتباسات سے لیے گئے۔',
+    'libraryChat.placeholder': 'اپنی محفوظ شرائط کے بارے میں پوچھیں...',
+
+    'compare.heading': 'ورژنز کا موازنہ',
+    'compare.older': 'پرانا',
+    'compare.newer': 'نیا',
+    'compare.whatChanged': 'آپ کے لیے کیا بدلا',
+    'compare.comparing': 'AI دونوں ورژنز کا موازنہ کر رہا ہے...',
+    'compare.identical': 'دونوں ورژن بالکل ایک جیسے ہیں۔',
+    'compare.clauseChanges': 'شقوں میں تبدیلیاں',
+    'compare.added': 'شامل کی گئی:',
+    'compare.removed': 'ہٹائی گئی:',
+    'compare.changed': 'تبدیل شدہ:',
+    'compare.textChanges': 'متن میں تبدیلیاں',
+    'compare.showUnchanged': 'غیر تبدیل شدہ حصے بھی دکھائیں',
+    'compare.inline': 'ایک ساتھ',
+    'compare.sideBySide': 'ساتھ ساتھ',
+    'compare.noDifferences': 'نکالے گئے متن میں کوئی فرق نہیں۔',
+};
@@ -0,0 +1,170 @@
+import type { ImageFile, ReportPage } from '../types';
+
+export interface CompressOptions {
+    /** Longest side of the output, in pixels. Smaller images are not upscaled. */
+    maxDimension: number;
+    mimeType?: 'image/jpeg' | 'image/webp';
+    quality?: number;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Could not decode the image.'));
+        image.src = src;
+    });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the image.')), mimeType, quality);
+    });
+}
+
+/** Downscales and re-encodes an image so it is cheap to store. */
+export async function compressImage(dataUrl: string, { maxDimension, mimeType = 'image/jpeg', quality = 0.8 }: CompressOptions): Promise<Blob> {
+    const image = await loadImage(dataUrl);
+    const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported in this browser.');
+    // JPEG has no alpha channel; paint white first so transparent areas don't turn black.
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvasToBlob(canvas, mimeType, quality);
+}
+
+export interface TargetSizeOptions extends CompressOptions {
+    /** Largest encoded size, in bytes. */
+    maxBytes: number;
+}
+
+const MIN_QUALITY = 0.5;
+
+/**
+ * Encodes a canvas at `maxDimension`, then steps the quality and, if that is
+ * not enough, the size down until the result fits in `maxBytes`. Browsers that
+ * cannot encode WebP hand back PNG; JPEG is used for those instead.
+ */
+export async function encodeToTargetSize(source: HTMLCanvasElement, { maxDimension, maxBytes, mimeType = 'image/jpeg', quality = 0.85 }: TargetSizeOptions): Promise<Blob> {
+    let scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+    let blob: Blob | null = null;
+    while (true) {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(source.width * scale));
+        canvas.height = Math.max(1, Math.round(source.height * scale));
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not supported in this browser.');
+        context.fillStyle = '#fff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(source, 0, 0, canvas.width, canvas.height);
+        for (let q = quality; q >= MIN_QUALITY; q -= 0.1) {
+            blob = await canvasToBlob(canvas, mimeType, q);
+            if (blob.type !== mimeType) {
+                mimeType = 'image/jpeg';
+                blob = await canvasToBlob(canvas, mimeType, q);
+            }
+            if (blob.size <= maxBytes) return blob;
+        }
+        // Below a few hundred pixels the text is unreadable; better an oversized page than a useless one.
+        if (Math.max(canvas.width, canvas.height) < 800) return blob!;
+        scale *= 0.8;
+    }
+}
+
+/** A rectangle as fractions (0–1) of an image's width and height. */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Turns an image a number of quarter turns clockwise. */
+export async function rotateImage(dataUrl: string, quarterTurns: number): Promise<string> {
+    const image = await loadImage(dataUrl);
+    const turns = ((quarterTurns % 4) + 4) % 4;
+    const canvas = document.createElement('canvas');
+    canvas.width = turns % 2 ? image.naturalHeight : image.naturalWidth;
+    canvas.height = turns % 2 ? image.naturalWidth : image.naturalHeight;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported in this browser.');
+    context.translate(canvas.width / 2, canvas.height / 2);
+    context.rotate(turns * Math.PI / 2);
+    context.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+    return blobToDataUrl(await encodeToTargetSize(canvas, SCAN_OPTIONS));
+}
+
+/** Cuts an image down to `rect`. */
+export async function cropImage(dataUrl: string, rect: CropRect): Promise<string> {
+    const image = await loadImage(dataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(rect.width * image.naturalWidth));
+    canvas.height = Math.max(1, Math.round(rect.height * image.naturalHeight));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported in this browser.');
+    context.drawImage(image, rect.x * image.naturalWidth, rect.y * image.naturalHeight, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+    return blobToDataUrl(await encodeToTargetSize(canvas, SCAN_OPTIONS));
+}
+
+/** A rectangle in image pixels. */
+export interface PixelBox {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+/** Paints solid black over parts of an image, so what was there cannot be recovered from the result. */
+export async function maskRegions(dataUrl: string, boxes: PixelBox[]): Promise<string> {
+    const image = await loadImage(dataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported in this browser.');
+    context.drawImage(image, 0, 0);
+    context.fillStyle = '#000';
+    for (const box of boxes) {
+        context.fillRect(box.x0, box.y0, box.x1 - box.x0, box.y1 - box.y0);
+    }
+    return blobToDataUrl(await encodeToTargetSize(canvas, SCAN_OPTIONS));
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+export const PAGE_IMAGE_OPTIONS: CompressOptions = { maxDimension: 2000, quality: 0.82 };
+export const THUMBNAIL_OPTIONS: CompressOptions = { maxDimension: 240, quality: 0.7 };
+/** Camera scans: big enough to read small print, small enough to upload quickly. */
+export const SCAN_OPTIONS: TargetSizeOptions = { maxDimension: 2000, maxBytes: 600 * 1024, mimeType: 'image/webp' };
+
+/** Turns captured or uploaded images into compressed pages plus thumbnails for storage. */
+export async function toStoredPages(reportId: string, images: ImageFile[]): Promise<ReportPage[]> {
+    return Promise.all(images.map(async (img, index) => ({
+        reportId,
+        index,
+        name: img.name,
+        image: await compressImage(img.dataUrl, PAGE_IMAGE_OPTIONS),
+        thumbnail: await compressImage(img.dataUrl, THUMBNAIL_OPTIONS),
+    })));
+}
+
+/** Turns stored pages back into images that can be sent for analysis again. */
+export async function fromStoredPages(pages: ReportPage[]): Promise<ImageFile[]> {
+    return Promise.all(pages.map(async page => ({
+        id: `${page.reportId}-page-${page.index}`,
+        name: page.name,
+        dataUrl: await blobToDataUrl(page.image),
+    })));
+}
@@ -0,0 +1,173 @@
+import type { JsonSchema } from './providers';
+
+export interface ValidationIssue {
+    /** Dotted path to the offending field, e.g. `key_clauses[2].explanation_bn`. */
+    path: string;
+    message: string;
+}
+
+/** Thrown when the model keeps returning JSON that does not match the expected schema. */
+export class InvalidAIResponseError extends Error {
+    readonly issues: ValidationIssue[];
+
+    constructor(issues: ValidationIssue[]) {
+        const details = issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join('; ');
+        super(`The AI returned an invalid response (${details}). Please try again.`);
+        this.name = 'InvalidAIResponseError';
+        this.issues = issues;
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function collectIssues(value: unknown, schema: JsonSchema, path: string, issues: ValidationIssue[]): void {
+    const at = path || '(root)';
+    switch (schema.type) {
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                issues.push({ path: at, message: `expected an object but got ${describe(value)}` });
+                return;
+            }
+            const record = value as Record<string, unknown>;
+            for (const key of schema.required ?? []) {
+                if (record[key] === undefined || record[key] === null) {
+                    issues.push({ path: path ? `${path}.${key}` : key, message: 'is required but missing' });
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+                if (record[key] !== undefined && record[key] !== null) {
+                    collectIssues(record[key], propertySchema, path ? `${path}.${key}` : key, issues);
+                }
+            }
+            return;
+        }
+        case 'array':
+            if (!Array.isArray(value)) {
+                issues.push({ path: at, message: `expected an array but got ${describe(value)}` });
+                return;
+            }
+            if (schema.items) {
+                value.forEach((item, index) => collectIssues(item, schema.items!, `${path}[${index}]`, issues));
+            }
+            return;
+        case 'string':
+            if (typeof value !== 'string') {
+                issues.push({ path: at, message: `expected a string but got ${describe(value)}` });
+            } else if (!value.trim()) {
+                issues.push({ path: at, message: 'must not be empty' });
+            } else if (schema.enum && !schema.enum.includes(value)) {
+                issues.push({ path: at, message: `must be one of ${schema.enum.join(', ')}` });
+            }
+            return;
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || Number.isNaN(value)) {
+                issues.push({ path: at, message: `expected a number but got ${describe(value)}` });
+            } else if (schema.type === 'integer' && !Number.isInteger(value)) {
+                issues.push({ path: at, message: 'expected a whole number' });
+            }
+            return;
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                issues.push({ path: at, message: `expected a boolean but got ${describe(value)}` });
+            }
+            return;
+    }
+}
+
+/**
+ * Checks a parsed value against a schema and returns every problem found; an
+ * empty list means the value is valid. Strings must be non-blank, since an
+ * empty summary or explanation is as useless to the reader as a missing one.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    collectIssues(value, schema, '', issues);
+    return issues;
+}
+
+interface ScanResult {
+    /** Unclosed `{` / `[` in the order they were opened. */
+    openBrackets: string[];
+    inString: boolean;
+    /** Offsets of commas that sit outside any string. */
+    commas: number[];
+}
+
+function scan(text: string): ScanResult {
+    const openBrackets: string[] = [];
+    const commas: number[] = [];
+    let inString = false;
+    let escaped = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{' || char === '[') openBrackets.push(char);
+        else if (char === '}' || char === ']') openBrackets.pop();
+        else if (char === ',') commas.push(i);
+    }
+    return { openBrackets, inString, commas };
+}
+
+/** Terminates an open string and closes every open bracket of a cut-off JSON document. */
+function closeTruncated(text: string): string {
+    const { openBrackets, inString } = scan(text);
+    let closed = text;
+    if (inString) {
+        closed = closed.replace(/\\+$/, match => match.length % 2 ? match.slice(1) : match) + '"';
+    }
+    closed = closed.replace(/[\s,:]+$/, '');
+    return closed + openBrackets.reverse().map(bracket => bracket === '{' ? '}' : ']').join('');
+}
+
+/**
+ * Parses model output that should be a single JSON object, salvaging what it
+ * can: markdown fences and surrounding prose are stripped, and a response cut
+ * off partway is closed at the last complete value. Returns `undefined` when
+ * nothing usable can be recovered.
+ */
+export function parseModelJson(raw: string): unknown {
+    let text = raw.trim();
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+    if (fenced) {
+        text = fenced[1].trim();
+    }
+    const start = text.search(/[{[]/);
+    if (start === -1) return undefined;
+    text = text.slice(start);
+
+    try {
+        return JSON.parse(text);
+    } catch {
+        // Fall through to the salvage attempts below.
+    }
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (end !== -1) {
+        try {
+            return JSON.parse(text.slice(0, end + 1));
+        } catch {
+            // Trailing junk was not the only problem; treat it as truncated.
+        }
+    }
+
+    let candidate = text;
+    while (candidate) {
+        try {
+            return JSON.parse(closeTruncated(candidate));
+        } catch {
+            const { commas } = scan(candidate);
+            candidate = commas.length ? candidate.slice(0, commas[commas.length - 1]) : '';
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,39 @@
+import type { LanguageCode, Localized } from '../types';
+
+export interface LanguageInfo {
+    /** The language's name in English, as used in prompts. */
+    name: string;
+    /** The language's name in itself, as shown to users. */
+    nativeName: string;
+    dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+    en: { name: 'English', nativeName: 'English', dir: 'ltr' },
+    bn: { name: 'Bengali (Bangla)', nativeName: 'বাংলা', dir: 'ltr' },
+    hi: { name: 'Hindi', nativeName: 'हिन्दी', dir: 'ltr' },
+    ur: { name: 'Urdu', nativeName: 'اردو', dir: 'rtl' },
+    es: { name: 'Spanish', nativeName: 'Español', dir: 'ltr' },
+    ar: { name: 'Arabic', nativeName: 'العربية', dir: 'rtl' },
+};
+
+/** Every supported language, in the order they are offered. */
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+
+/** What reports were written in before the choice existed, and the default choice. */
+export const DEFAULT_LANGUAGES: LanguageCode[] = ['en', 'bn'];
+
+/** The languages a piece of text is available in, in LANGUAGE_CODES order. */
+export function languagesOf(text: Localized): LanguageCode[] {
+    return LANGUAGE_CODES.filter(code => !!text[code]);
+}
+
+/** The text in the given language, or in English when it has not been translated. */
+export function inLanguage(text: Localized, lang: LanguageCode): string {
+    return text[lang] || text.en;
+}
+
+/** English is always analysed, so it is always included and always first. */
+export function withEnglish(languages: LanguageCode[]): LanguageCode[] {
+    return LANGUAGE_CODES.filter(code => code === 'en' || languages.includes(code));
+}
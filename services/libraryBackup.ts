@@ -0,0 +1,276 @@
+import type { ChatMessage, ReportPage, SummaryReport } from '../types';
+import type { JsonSchema } from './providers';
+import { blobToDataUrl } from './imageProcessing';
+import { validateAgainstSchema, type ValidationIssue } from './jsonValidation';
+import { downloadFile } from './reportExport';
+import { LIBRARY_CHAT_ID, addReport, getChatThread, listReportPages, listReports, putChatThread, upgradeStoredReport } from './reportRepository';
+
+// A backup is a single JSON file holding every saved report together with its
+// page images (as data URLs) and chat thread, and the library chat, so it can be restored in another
+// browser or on another device. Restoring only ever adds to the library:
+// reports that are already there are skipped, and reports that clash with
+// different ones are reported back instead of replacing them.
+
+const BACKUP_FORMAT = 'tc-summarizer-backup';
+
+/** Bump when the archive layout changes, and teach `parseBackup` to read the old one. */
+const BACKUP_VERSION = 3;
+
+interface BackupPage {
+    index: number;
+    name: string;
+    /** Data URL of the compressed page image. */
+    image: string;
+    /** Data URL of the page thumbnail. */
+    thumbnail: string;
+}
+
+interface BackupEntry {
+    report: SummaryReport;
+    pages: BackupPage[];
+    /** The report's chat thread; absent from version 1 backups. */
+    chat?: ChatMessage[];
+}
+
+interface BackupArchive {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exported_at: string;
+    reports: BackupEntry[];
+    /** The conversation across the library; absent before version 3. */
+    library_chat?: ChatMessage[];
+}
+
+export interface ParsedBackup {
+    entries: BackupEntry[];
+    libraryChat?: ChatMessage[];
+}
+
+export interface BackupConflict {
+    /** Title of the report in the backup that was not restored. */
+    title: string;
+    /** Title of the different report that already has its id. */
+    existingTitle: string;
+}
+
+export interface RestoreResult {
+    imported: number;
+    /** Reports already in the library, by id or by content. */
+    duplicates: number;
+    conflicts: BackupConflict[];
+}
+
+/** Thrown when a file is not a backup this version of the app can read. */
+export class BackupError extends Error {
+    readonly issues: ValidationIssue[];
+
+    constructor(message: string, issues: ValidationIssue[] = []) {
+        const details = issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join('; ');
+        super(details ? `${message} (${details})` : message);
+        this.name = 'BackupError';
+        this.issues = issues;
+    }
+}
+
+const pageSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        index: { type: 'integer' },
+        name: { type: 'string' },
+        image: { type: 'string' },
+        thumbnail: { type: 'string' },
+    },
+    required: ['index', 'name', 'image', 'thumbnail'],
+};
+
+/** Only what every version of a stored report has; older shapes are upgraded after this check. */
+const storedReportSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        title: { type: 'string' },
+        timestamp: { type: 'string' },
+        key_clauses: { type: 'array', items: { type: 'object' } },
+    },
+    required: ['id', 'title', 'timestamp', 'key_clauses'],
+};
+
+const chatMessageSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        role: { type: 'string', enum: ['user', 'model'] },
+        text: { type: 'string' },
+    },
+    required: ['role', 'text'],
+};
+
+const archiveSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        reports: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    report: storedReportSchema,
+                    pages: { type: 'array', items: pageSchema },
+                    chat: { type: 'array', items: chatMessageSchema },
+                },
+                required: ['report'],
+            },
+        },
+        library_chat: { type: 'array', items: chatMessageSchema },
+    },
+    required: ['reports'],
+};
+
+const upgradedReportSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'object', properties: { en: { type: 'string' } }, required: ['en'] },
+        key_clauses: {
+            type: 'array',
+            items: { type: 'object', properties: { clause: { type: 'object' }, explanation: { type: 'object' } }, required: ['clause', 'explanation'] },
+        },
+    },
+    required: ['summary', 'key_clauses'],
+};
+
+/**
+ * Reads and validates a backup file, upgrading reports saved by older versions
+ * of the app. A bare array of reports, as older versions kept under the
+ * `savedSummaries` localStorage key, is accepted too.
+ */
+export function parseBackup(text: string): ParsedBackup {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new BackupError('This file is not a valid backup: it could not be read as JSON.');
+    }
+    if (Array.isArray(data)) {
+        data = { format: BACKUP_FORMAT, version: BACKUP_VERSION, reports: data.map(report => ({ report })) };
+    }
+    const archive = data as Partial<BackupArchive>;
+    if (archive?.format !== BACKUP_FORMAT) {
+        throw new BackupError('This file is not a backup of saved summaries.');
+    }
+    if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+        throw new BackupError('This backup was made by a newer version of the app. Update the app and try again.');
+    }
+    const issues = validateAgainstSchema(archive, archiveSchema);
+    if (issues.length) {
+        throw new BackupError('This backup is damaged and was not restored.', issues);
+    }
+
+    const entries = archive.reports!.map(entry => ({ report: upgradeStoredReport(entry.report), pages: entry.pages ?? [], chat: entry.chat }));
+    const upgradeIssues = entries.flatMap((entry, index) => validateAgainstSchema(entry.report, upgradedReportSchema)
+        .map(issue => ({ ...issue, path: `reports[${index}].report.${issue.path}` })));
+    if (upgradeIssues.length) {
+        throw new BackupError('This backup is damaged and was not restored.', upgradeIssues);
+    }
+    return { entries, libraryChat: archive.library_chat };
+}
+
+/**
+ * Fingerprint of what a report says about its document: the extracted text,
+ * the English summary and the English clause titles. Translations are left
+ * out, so a copy that has since been translated still counts as the same report.
+ */
+async function contentHash(report: SummaryReport): Promise<string> {
+    const content = JSON.stringify([report.full_text ?? '', report.summary.en, report.key_clauses.map(clause => clause.clause.en)]);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function toBackupPages(pages: ReportPage[]): Promise<BackupPage[]> {
+    return Promise.all(pages.map(async page => ({
+        index: page.index,
+        name: page.name,
+        image: await blobToDataUrl(page.image),
+        thumbnail: await blobToDataUrl(page.thumbnail),
+    })));
+}
+
+async function fromBackupPages(reportId: string, pages: BackupPage[]): Promise<ReportPage[]> {
+    return Promise.all(pages.map(async page => ({
+        reportId,
+        index: page.index,
+        name: page.name,
+        image: await (await fetch(page.image)).blob(),
+        thumbnail: await (await fetch(page.thumbnail)).blob(),
+    })));
+}
+
+/** Builds a backup of every saved report with its page images and chat, and of the library chat. */
+export async function createBackup(): Promise<string> {
+    const reports = await listReports();
+    const entries: BackupEntry[] = [];
+    for (const report of reports) {
+        const pages = report.page_count ? await toBackupPages(await listReportPages(report.id)) : [];
+        const chat = (await getChatThread(report.id))?.messages;
+        entries.push({ report, pages, ...(chat?.length ? { chat } : {}) });
+    }
+    const libraryChat = (await getChatThread(LIBRARY_CHAT_ID))?.messages;
+    const archive: BackupArchive = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exported_at: new Date().toISOString(),
+        reports: entries,
+        ...(libraryChat?.length ? { library_chat: libraryChat } : {}),
+    };
+    return JSON.stringify(archive);
+}
+
+/** Downloads a backup of the whole library as a dated JSON file. */
+export async function downloadBackup(): Promise<void> {
+    const backup = await createBackup();
+    downloadFile(backup, `tc-summaries-backup-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+}
+
+/**
+ * Adds the reports in a backup file to the library. A report is skipped when
+ * one with the same id and content, or the same content under another id, is
+ * already saved; one whose id is taken by a different report is left out and
+ * listed as a conflict. The library chat is restored only when there is none.
+ * Nothing already saved is changed.
+ */
+export async function restoreBackup(file: File): Promise<RestoreResult> {
+    const { entries, libraryChat } = parseBackup(await file.text());
+    const existing = await listReports();
+    const byId = new Map(existing.map(report => [report.id, report]));
+    const hashById = new Map<string, string>();
+    for (const report of existing) {
+        hashById.set(report.id, await contentHash(report));
+    }
+    const knownHashes = new Set(hashById.values());
+
+    const result: RestoreResult = { imported: 0, duplicates: 0, conflicts: [] };
+    for (const { report, pages, chat } of entries) {
+        const hash = await contentHash(report);
+        const sameId = byId.get(report.id);
+        if (sameId) {
+            if (hashById.get(sameId.id) === hash) {
+                result.duplicates++;
+            } else {
+                result.conflicts.push({ title: report.title, existingTitle: sameId.title });
+            }
+            continue;
+        }
+        if (knownHashes.has(hash)) {
+            result.duplicates++;
+            continue;
+        }
+        const restoredPages = await fromBackupPages(report.id, pages);
+        const thread = chat?.length ? { reportId: report.id, messages: chat, updatedAt: new Date().toISOString() } : undefined;
+        await addReport({ ...report, page_count: restoredPages.length || undefined }, restoredPages, thread);
+        byId.set(report.id, report);
+        hashById.set(report.id, hash);
+        knownHashes.add(hash);
+        result.imported++;
+    }
+    if (libraryChat?.length && !(await getChatThread(LIBRARY_CHAT_ID))?.messages.length) {
+        await putChatThread({ reportId: LIBRARY_CHAT_ID, messages: libraryChat, updatedAt: new Date().toISOString() });
+    }
+    return result;
+}
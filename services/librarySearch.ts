@@ -0,0 +1,151 @@
+import type { ClauseCategory, SummaryReport, TextSpan } from '../types';
+
+// Searching and filtering run over the reports already loaded into memory;
+// even a few hundred reports with their full text are quick to scan, and it
+// keeps the search working offline and across every language of a report.
+
+export type LibrarySort = 'newest' | 'oldest' | 'title' | 'risk';
+
+export const LIBRARY_SORTS: LibrarySort[] = ['newest', 'oldest', 'title', 'risk'];
+
+export interface LibraryFilter {
+    query: string;
+    tag?: string;
+    category?: ClauseCategory;
+    /** Earliest analysis date to include, as `YYYY-MM-DD` in local time. */
+    from?: string;
+    /** Latest analysis date to include, as `YYYY-MM-DD` in local time. */
+    to?: string;
+}
+
+export const EMPTY_FILTER: LibraryFilter = { query: '' };
+
+/** Where in a report a search matched, outside its title and company. */
+export type MatchField = 'summary' | 'clause' | 'full_text';
+
+export interface SearchSnippet {
+    field: MatchField;
+    /** A short excerpt around the first match. */
+    text: string;
+    matches: TextSpan[];
+}
+
+export interface LibraryResult {
+    report: SummaryReport;
+    titleMatches: TextSpan[];
+    companyMatches: TextSpan[];
+    snippet?: SearchSnippet;
+}
+
+const SNIPPET_RADIUS = 60;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Splits a query into the terms that must all appear somewhere in a report. */
+export function searchTerms(query: string): string[] {
+    return query.normalize('NFC').trim().split(/\s+/).filter(Boolean);
+}
+
+/** Every occurrence of any of the terms in the text, case-insensitively, in order and without overlaps. */
+export function findMatches(text: string, terms: string[]): TextSpan[] {
+    if (!terms.length || !text) return [];
+    const pattern = new RegExp(terms.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|'), 'giu');
+    return Array.from(text.matchAll(pattern), match => ({ start: match.index!, end: match.index! + match[0].length }));
+}
+
+/** Cuts an excerpt around the first match, shifting the match positions to fit it. */
+function snippetOf(field: MatchField, text: string, matches: TextSpan[]): SearchSnippet {
+    const start = Math.max(0, matches[0].start - SNIPPET_RADIUS);
+    const end = Math.min(text.length, matches[0].end + SNIPPET_RADIUS);
+    const prefix = start > 0 ? '…' : '';
+    const shift = prefix.length - start;
+    return {
+        field,
+        text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+        matches: matches.filter(match => match.end <= end).map(match => ({ start: match.start + shift, end: match.end + shift })),
+    };
+}
+
+/** The searchable text of a report by field, in every language it has. */
+function searchableFields(report: SummaryReport): [MatchField | 'title' | 'meta', string][] {
+    return [
+        ['title', report.title],
+        ['meta', [report.company ?? '', ...(report.tags ?? [])].join(' ')],
+        ...Object.values(report.summary).map((text): [MatchField, string] => ['summary', text ?? '']),
+        ...report.key_clauses.flatMap(clause => [
+            ...Object.values(clause.clause),
+            ...Object.values(clause.explanation),
+            clause.quote ?? '',
+        ].map((text): [MatchField, string] => ['clause', text ?? ''])),
+        ['full_text', report.full_text ?? ''],
+    ];
+}
+
+function matchesAllTerms(report: SummaryReport, terms: string[]): boolean {
+    const haystack = searchableFields(report).map(([, text]) => text).join('\n').normalize('NFC').toLocaleLowerCase();
+    return terms.every(term => haystack.includes(term.toLocaleLowerCase()));
+}
+
+function firstSnippet(report: SummaryReport, terms: string[]): SearchSnippet | undefined {
+    for (const [field, text] of searchableFields(report)) {
+        if (field === 'title' || field === 'meta') continue;
+        const matches = findMatches(text, terms);
+        if (matches.length) return snippetOf(field, text, matches);
+    }
+    return undefined;
+}
+
+function inDateRange(timestamp: string, from?: string, to?: string): boolean {
+    const time = new Date(timestamp).getTime();
+    if (from && time < new Date(`${from}T00:00:00`).getTime()) return false;
+    if (to && time > new Date(`${to}T23:59:59.999`).getTime()) return false;
+    return true;
+}
+
+const comparators: Record<LibrarySort, (a: SummaryReport, b: SummaryReport) => number> = {
+    newest: (a, b) => b.timestamp.localeCompare(a.timestamp),
+    oldest: (a, b) => a.timestamp.localeCompare(b.timestamp),
+    title: (a, b) => a.title.localeCompare(b.title),
+    // Unscored reports go last.
+    risk: (a, b) => (b.risk_score ?? -1) - (a.risk_score ?? -1),
+};
+
+/** Applies the search and filters to the library and sorts what is left. */
+export function filterLibrary(reports: SummaryReport[], filter: LibraryFilter, sort: LibrarySort): LibraryResult[] {
+    const terms = searchTerms(filter.query);
+    const tag = filter.tag?.toLocaleLowerCase();
+    return reports
+        .filter(report => (!tag || (report.tags ?? []).some(t => t.toLocaleLowerCase() === tag))
+            && (!filter.category || report.key_clauses.some(clause => clause.category === filter.category))
+            && inDateRange(report.timestamp, filter.from, filter.to)
+            && (!terms.length || matchesAllTerms(report, terms)))
+        .sort(comparators[sort])
+        .map(report => ({
+            report,
+            titleMatches: findMatches(report.title, terms),
+            companyMatches: findMatches(report.company ?? '', terms),
+            snippet: firstSnippet(report, terms),
+        }));
+}
+
+export function isFiltered(filter: LibraryFilter): boolean {
+    return !!(filter.query.trim() || filter.tag || filter.category || filter.from || filter.to);
+}
+
+/** Trims tags and drops empty ones and repeats, ignoring case. */
+export function normaliseTags(tags: string[]): string[] {
+    const seen = new Set<string>();
+    return tags.map(tag => tag.normalize('NFC').trim().replace(/\s+/g, ' ')).filter(tag => {
+        const key = tag.toLocaleLowerCase();
+        if (!tag || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/** Every tag used in the library, alphabetically. */
+export function libraryTags(reports: SummaryReport[]): string[] {
+    return normaliseTags(reports.flatMap(report => report.tags ?? [])).sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,88 @@
+import type { ImageFile } from '../types';
+import type { PixelBox } from './imageProcessing';
+
+// On-device OCR with Tesseract compiled to WebAssembly. Page images are read
+// in the browser, so they never leave the device; only the text the user
+// approves is sent on. The engine and the English and Bengali language data
+// are downloaded on first use and cached by the browser after that.
+
+/** Who reads the page images: the cloud model as part of the analysis, or the on-device engine. */
+export type OcrEngine = 'cloud' | 'device';
+
+export const OCR_ENGINES: OcrEngine[] = ['cloud', 'device'];
+
+/** Tesseract's names for the languages the pages are read in. */
+export const OCR_LANGUAGES = ['eng', 'ben'];
+
+/** Words Tesseract is less sure of than this (0–100) are pointed out for review. */
+export const LOW_CONFIDENCE = 60;
+
+export interface OcrWord {
+    text: string;
+    /** Tesseract's confidence in the word, 0–100. */
+    confidence: number;
+    box: PixelBox;
+    /** Which line of the page the word is on, from 0. */
+    line: number;
+}
+
+/** The text read from one page image, with the position of every word. */
+export interface OcrPage {
+    sourceId: string;
+    name: string;
+    text: string;
+    /** Mean confidence over the page, 0–100. */
+    confidence: number;
+    words: OcrWord[];
+}
+
+export interface OcrProgress {
+    /** The page being read, from 1. */
+    page: number;
+    pageCount: number;
+    /** Progress through the current page, 0–1, or null while the engine is loading. */
+    fraction: number | null;
+}
+
+/**
+ * Reads the text of page images on the device, one page after another.
+ * Aborting stops the engine, and the promise rejects with the abort reason.
+ */
+export async function recognizePages(images: ImageFile[], onProgress: (progress: OcrProgress) => void, signal?: AbortSignal): Promise<OcrPage[]> {
+    let page = 0;
+    const { createWorker, OEM } = await import('tesseract.js');
+    const worker = await createWorker(OCR_LANGUAGES, OEM.LSTM_ONLY, {
+        logger: message => {
+            const reading = message.status === 'recognizing text';
+            onProgress({ page: Math.max(page, 1), pageCount: images.length, fraction: reading ? message.progress : null });
+        },
+    }).catch(e => {
+        console.error('Failed to start the OCR engine:', e);
+        throw new Error('The on-device text reader could not be loaded. Connect to the internet once so it can be downloaded.');
+    });
+    // A terminated worker never settles the job it was running, so waiting on a page also ends on abort.
+    const aborted = new Promise<never>((_, reject) => signal?.addEventListener('abort', () => reject(signal.reason), { once: true }));
+    aborted.catch(() => {});
+    try {
+        const pages: OcrPage[] = [];
+        for (const image of images) {
+            signal?.throwIfAborted();
+            page++;
+            onProgress({ page, pageCount: images.length, fraction: 0 });
+            const { data } = await Promise.race([worker.recognize(image.dataUrl, {}, { text: true, blocks: true }), aborted]);
+            const words = (data.blocks ?? [])
+                .flatMap(block => block.paragraphs)
+                .flatMap(paragraph => paragraph.lines)
+                .flatMap((line, lineIndex) => line.words.map(word => ({ text: word.text, confidence: word.confidence, box: word.bbox, line: lineIndex })));
+            pages.push({ sourceId: image.id, name: image.name, text: data.text.trim(), confidence: data.confidence, words });
+        }
+        return pages;
+    } finally {
+        await worker.terminate();
+    }
+}
+
+/** The distinct words of a page the engine was unsure of, in reading order. */
+export function uncertainWords(page: OcrPage): string[] {
+    return Array.from(new Set(page.words.filter(word => word.confidence < LOW_CONFIDENCE && word.text.trim()).map(word => word.text)));
+}
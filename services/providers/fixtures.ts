@@ -0,0 +1,125 @@
+// Canned data served by the mock provider so the app can be demoed without a key or network.
+
+export const SAMPLE_TERMS_TEXT = `ACME STREAMING - TERMS OF SERVICE
+
+1. Acceptance of Terms
+By creating an account or using the ACME Streaming service you agree to be bound by these Terms. If you do not agree, you must not use the service.
+
+2. Subscription and Automatic Renewal
+Your subscription renews automatically at the end of each billing period at the then-current price unless you cancel at least 24 hours before the renewal date. Fees already paid are non-refundable.
+
+3. Privacy and Data Sharing
+We collect information about your viewing activity, device and location. We may share this information with advertising partners and affiliated companies to personalise content and advertisements.
+
+4. Changes to These Terms
+We may modify these Terms at any time. Continued use of the service after changes are posted means you accept the updated Terms.
+
+5. Limitation of Liability
+To the maximum extent permitted by law, ACME is not liable for any indirect, incidental or consequential damages, and our total liability is limited to the amount you paid in the last three months.
+
+6. Dispute Resolution
+Any dispute will be resolved by binding individual arbitration. You waive the right to participate in a class action lawsuit.
+
+7. Termination
+We may suspend or terminate your account at any time, with or without notice, if we believe you have violated these Terms.`;
+
+export const SAMPLE_SUMMARY = {
+    full_text: SAMPLE_TERMS_TEXT,
+    summary_en: 'This is a streaming subscription that renews automatically and is non-refundable. ACME tracks what you watch and shares it with advertisers, can change the terms or close your account at any time, limits what it owes you if something goes wrong, and requires private arbitration instead of court.',
+    summary_bn: 'এটি একটি স্ট্রিমিং সাবস্ক্রিপশন যা স্বয়ংক্রিয়ভাবে নবায়ন হয় এবং অর্থ ফেরতযোগ্য নয়। ACME আপনি কী দেখেন তা ট্র্যাক করে এবং বিজ্ঞাপনদাতাদের সাথে শেয়ার করে, যেকোনো সময় শর্তাবলী পরিবর্তন বা আপনার অ্যাকাউন্ট বন্ধ করতে পারে, কোনো সমস্যা হলে তার দায় সীমিত রাখে এবং আদালতের পরিবর্তে ব্যক্তিগত সালিশ বাধ্যতামূলক করে।',
+    key_clauses: [
+        {
+            clause: 'Subscription and Automatic Renewal',
+            clause_bn: 'সাবস্ক্রিপশন ও স্বয়ংক্রিয় নবায়ন',
+            category: 'auto_renewal',
+            severity: 'high',
+            rationale: 'Charges repeat automatically and nothing already paid can be refunded.',
+            quote: 'Your subscription renews automatically at the end of each billing period at the then-current price unless you cancel at least 24 hours before the renewal date.',
+            explanation_en: 'You will be charged again every period unless you cancel at least a day before renewal, and you cannot get money back.',
+            explanation_bn: 'নবায়নের অন্তত একদিন আগে বাতিল না করলে প্রতি মেয়াদে আবার টাকা কাটা হবে, এবং টাকা ফেরত পাওয়া যাবে না।',
+        },
+        {
+            clause: 'Privacy and Data Sharing',
+            clause_bn: 'গোপনীয়তা ও তথ্য শেয়ার',
+            category: 'data_sharing',
+            severity: 'high',
+            rationale: 'Personal viewing and location data is passed to advertisers.',
+            quote: 'We may share this information with advertising partners and affiliated companies to personalise content and advertisements.',
+            explanation_en: 'Your viewing history, device and location are collected and may be shared with advertisers.',
+            explanation_bn: 'আপনার দেখার ইতিহাস, ডিভাইস ও অবস্থান সংগ্রহ করা হয় এবং বিজ্ঞাপনদাতাদের সাথে শেয়ার করা হতে পারে।',
+        },
+        {
+            clause: 'Limitation of Liability',
+            clause_bn: 'দায়বদ্ধতার সীমা',
+            category: 'liability',
+            severity: 'medium',
+            rationale: 'Compensation is capped at a small amount even if ACME is at fault.',
+            quote: 'our total liability is limited to the amount you paid in the last three months.',
+            explanation_en: 'If something goes wrong, ACME will pay you at most what you paid in the last three months.',
+            explanation_bn: 'কোনো সমস্যা হলে ACME সর্বোচ্চ গত তিন মাসে আপনার দেওয়া অর্থের সমপরিমাণ দায় নেবে।',
+        },
+        {
+            clause: 'Dispute Resolution',
+            clause_bn: 'বিরোধ নিষ্পত্তি',
+            category: 'arbitration',
+            severity: 'high',
+            rationale: 'You give up the right to go to court or join a class action.',
+            quote: 'Any dispute will be resolved by binding individual arbitration.',
+            explanation_en: 'You cannot sue in court or join a class action; disputes go to private arbitration.',
+            explanation_bn: 'আপনি আদালতে মামলা বা সম্মিলিত মামলায় যোগ দিতে পারবেন না; বিরোধ ব্যক্তিগত সালিশে নিষ্পত্তি হবে।',
+        },
+        {
+            clause: 'Termination',
+            clause_bn: 'অ্যাকাউন্ট বন্ধ',
+            category: 'termination',
+            severity: 'medium',
+            rationale: 'Access can be lost at any time without notice or refund.',
+            quote: 'We may suspend or terminate your account at any time, with or without notice, if we believe you have violated these Terms.',
+            explanation_en: 'ACME can close your account at any time without warning.',
+            explanation_bn: 'ACME কোনো সতর্কতা ছাড়াই যেকোনো সময় আপনার অ্যাকাউন্ট বন্ধ করতে পারে।',
+        },
+    ],
+};
+
+const SECTIONS: Record<string, string> = {
+    'Subscription and Automatic Renewal': '2. Subscription and Automatic Renewal',
+    'Privacy and Data Sharing': '3. Privacy and Data Sharing',
+    'Limitation of Liability': '5. Limitation of Liability',
+    'Dispute Resolution': '6. Dispute Resolution',
+    'Termination': '7. Termination',
+};
+
+export const SAMPLE_THOROUGH_SUMMARY = {
+    ...SAMPLE_SUMMARY,
+    key_clauses: [
+        {
+            clause: 'Acceptance by Use',
+            clause_bn: 'ব্যবহারের মাধ্যমে সম্মতি',
+            category: 'other',
+            severity: 'low',
+            rationale: 'Standard wording that simply makes the terms binding.',
+            section: '1. Acceptance of Terms',
+            quote: 'By creating an account or using the ACME Streaming service you agree to be bound by these Terms.',
+            explanation_en: 'Signing up or using the service counts as agreeing to these terms.',
+            explanation_bn: 'সাইন আপ করা বা পরিষেবা ব্যবহার করলেই এই শর্তাবলীতে সম্মতি দেওয়া হয়।',
+        },
+        ...SAMPLE_SUMMARY.key_clauses.slice(0, 2).map(clause => ({ ...clause, section: SECTIONS[clause.clause] })),
+        {
+            clause: 'Unilateral Changes',
+            clause_bn: 'একতরফা পরিবর্তন',
+            category: 'changes_to_terms',
+            severity: 'medium',
+            rationale: 'The rules can change without your explicit agreement.',
+            section: '4. Changes to These Terms',
+            quote: 'Continued use of the service after changes are posted means you accept the updated Terms.',
+            explanation_en: 'ACME can change the terms at any time, and simply keeping on using the service means you accept them.',
+            explanation_bn: 'ACME যেকোনো সময় শর্তাবলী পরিবর্তন করতে পারে, এবং পরিষেবা ব্যবহার চালিয়ে গেলেই আপনি তা মেনে নিয়েছেন বলে ধরা হবে।',
+        },
+        ...SAMPLE_SUMMARY.key_clauses.slice(2).map(clause => ({ ...clause, section: SECTIONS[clause.clause] })),
+    ],
+};
+
+export const SAMPLE_CHANGE_NOTE: Record<string, string> = {
+    en: 'This is a demo comparison made without an AI model. Review the highlighted additions and removals below to see exactly how the terms changed.',
+    bn: 'এটি AI মডেল ছাড়া তৈরি একটি ডেমো তুলনা। শর্তাবলী ঠিক কীভাবে পরিবর্তিত হয়েছে তা দেখতে নিচের চিহ্নিত সংযোজন ও বাদ দেওয়া অংশগুলো দেখুন।',
+};
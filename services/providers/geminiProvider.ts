@@ -0,0 +1,90 @@
+import { GoogleGenAI, Type, type Schema } from "@google/genai";
+import type { AIProvider, ChatOptions, ChatSession, GenerateRequest, JsonSchema } from './types';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const typeMap: Record<JsonSchema['type'], Type> = {
+    object: Type.OBJECT,
+    array: Type.ARRAY,
+    string: Type.STRING,
+    number: Type.NUMBER,
+    integer: Type.INTEGER,
+    boolean: Type.BOOLEAN,
+};
+
+function toGeminiSchema(schema: JsonSchema): Schema {
+    return {
+        type: typeMap[schema.type],
+        description: schema.description,
+        enum: schema.enum,
+        required: schema.required,
+        items: schema.items ? toGeminiSchema(schema.items) : undefined,
+        properties: schema.properties
+            ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+            : undefined,
+    };
+}
+
+function fileToGenerativePart(dataUrl: string) {
+  const mimeType = dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';'));
+  const base64Data = dataUrl.substring(dataUrl.indexOf(',') + 1);
+  return {
+    inlineData: {
+      data: base64Data,
+      mimeType,
+    },
+  };
+}
+
+export class GeminiProvider implements AIProvider {
+    readonly id = 'gemini';
+    readonly label: string;
+    private readonly ai: GoogleGenAI;
+    private readonly model: string;
+
+    constructor(apiKey: string, model?: string) {
+        this.model = model || DEFAULT_MODEL;
+        this.label = `Gemini (${this.model})`;
+        this.ai = new GoogleGenAI({ apiKey });
+    }
+
+    async generate(request: GenerateRequest): Promise<string> {
+        const imageParts = (request.images ?? []).map(img => fileToGenerativePart(img.dataUrl));
+        const response = await this.ai.models.generateContent({
+            model: request.model || this.model,
+            // FIX: The parts for a multimodal prompt must be in a single content object.
+            contents: {
+                parts: [
+                    ...imageParts,
+                    { text: request.prompt }
+                ]
+            },
+            config: {
+                abortSignal: request.signal,
+                ...(request.schema ? {
+                    responseMimeType: "application/json",
+                    responseSchema: toGeminiSchema(request.schema),
+                } : {}),
+            },
+        });
+        return response.text ?? '';
+    }
+
+    startChat(options: ChatOptions): ChatSession {
+        const chat = this.ai.chats.create({
+            model: this.model,
+            history: (options.history ?? []).map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+            config: {
+                systemInstruction: options.systemInstruction,
+            },
+        });
+        return {
+            async *sendMessageStream(message: string) {
+                const responseStream = await chat.sendMessageStream({ message });
+                for await (const chunk of responseStream) {
+                    if (chunk.text) yield chunk.text;
+                }
+            },
+        };
+    }
+}
@@ -0,0 +1,43 @@
+import type { AIProvider, ProviderId } from './types';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { MockProvider } from './mockProvider';
+
+export type { AIProvider, ChatSession, JsonSchema } from './types';
+
+function resolveProviderId(): ProviderId {
+    const configured = process.env.AI_PROVIDER?.toLowerCase();
+    if (configured === 'gemini' || configured === 'openai' || configured === 'mock') {
+        return configured;
+    }
+    // With nothing configured, fall back to the offline mock rather than failing to boot.
+    return process.env.API_KEY ? 'gemini' : 'mock';
+}
+
+function createProvider(): AIProvider {
+    switch (resolveProviderId()) {
+        case 'gemini':
+            if (!process.env.API_KEY) {
+                throw new Error("API_KEY environment variable not set");
+            }
+            return new GeminiProvider(process.env.API_KEY, process.env.AI_MODEL);
+        case 'openai':
+            return new OpenAICompatibleProvider({
+                baseUrl: process.env.AI_BASE_URL,
+                model: process.env.AI_MODEL,
+                apiKey: process.env.AI_API_KEY,
+            });
+        case 'mock':
+            return new MockProvider();
+    }
+}
+
+let provider: AIProvider | null = null;
+
+/** Returns the provider selected by configuration, creating it on first use. */
+export function getAIProvider(): AIProvider {
+    if (!provider) {
+        provider = createProvider();
+    }
+    return provider;
+}
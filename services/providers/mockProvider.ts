@@ -0,0 +1,96 @@
+import type { AIProvider, AITask, ChatSession, GenerateRequest } from './types';
+import { SAMPLE_CHANGE_NOTE, SAMPLE_SUMMARY, SAMPLE_TERMS_TEXT, SAMPLE_THOROUGH_SUMMARY } from './fixtures';
+
+const NOT_FOUND = 'I cannot find that information in the document.';
+
+const SAMPLE_SECTIONS = SAMPLE_TERMS_TEXT.split(/\n\n(?=\d+\.)/);
+
+const fixtures: Record<AITask, (request: GenerateRequest) => unknown> = {
+    summary: () => SAMPLE_SUMMARY,
+    thoroughSummary: () => SAMPLE_THOROUGH_SUMMARY,
+    changeNote: request => Object.fromEntries((request.schema?.required ?? []).map(code => [code, SAMPLE_CHANGE_NOTE[code] ?? SAMPLE_CHANGE_NOTE.en])),
+    // Deal the sample's sections out across the pages, so a long scan reads as one document.
+    transcribe: request => ({
+        pages: (request.images ?? []).map((_, index) => SAMPLE_SECTIONS[index % SAMPLE_SECTIONS.length]),
+    }),
+    // Report the sample clauses whose quote appears in this part.
+    chunkClauses: request => ({
+        notes: 'Demo notes for this part of the document.',
+        key_clauses: SAMPLE_THOROUGH_SUMMARY.key_clauses.filter(clause => request.prompt.includes(clause.quote)),
+    }),
+    // Keep every candidate listed in the prompt.
+    mergeSummary: request => ({
+        summary_en: SAMPLE_SUMMARY.summary_en,
+        selected_clauses: Array.from(request.prompt.matchAll(/^\[(\d+)\]/gm), match => Number(match[1])),
+    }),
+    // Use the sample's Bengali where it has one, and tag echoed English for any other language.
+    translate: request => {
+        const numbered = (section = '') => Array.from(section.matchAll(/^\[\d+\] (.*)$/gm), match => match[1]);
+        const [titleSection, explanationSection] = request.prompt.split('CLAUSE EXPLANATIONS:');
+        const titles = numbered(titleSection);
+        const explanations = numbered(explanationSection);
+        const clauses = SAMPLE_THOROUGH_SUMMARY.key_clauses;
+        return Object.fromEntries((request.schema?.required ?? []).map(code => [code, code === 'bn' ? {
+            summary: SAMPLE_SUMMARY.summary_bn,
+            titles: titles.map(text => clauses.find(clause => clause.clause === text)?.clause_bn ?? text),
+            explanations: explanations.map(text => clauses.find(clause => clause.explanation_en === text)?.explanation_bn ?? text),
+        } : {
+            summary: `[${code}] ${SAMPLE_SUMMARY.summary_en}`,
+            titles: titles.map(text => `[${code}] ${text}`),
+            explanations: explanations.map(text => `[${code}] ${text}`),
+        }]));
+    },
+};
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [];
+}
+
+/**
+ * Answers from the numbered passages sent with the question, by picking the
+ * sentence sharing the most words with it and citing its passage.
+ */
+function answerFromPassages(message: string): string {
+    const [passageSection, question = message] = message.split(/^QUESTION:\s*/m);
+    const questionWords = new Set(tokenize(question));
+    let best = { score: 0, sentence: '', passage: 0 };
+    for (const block of passageSection.split(/^(?=\[\d+\] )/m)) {
+        const match = block.match(/^\[(\d+)\] ([\s\S]*)/);
+        if (!match) continue;
+        // Library passages start with the document they come from, which is not part of the text.
+        const text = match[2].replace(/^\(From: [^)]*\)\s*/, '');
+        for (const sentence of text.split(/(?<=[.!?])\s+|\n+/)) {
+            const score = tokenize(sentence).filter(word => questionWords.has(word)).length;
+            if (score > best.score) {
+                best = { score, sentence: sentence.trim(), passage: Number(match[1]) };
+            }
+        }
+    }
+    return best.score > 0 ? `The document says: "${best.sentence}" [${best.passage}]\nQUOTE: ${best.sentence}` : NOT_FOUND;
+}
+
+/**
+ * A deterministic, offline provider backed by fixtures. It ignores its input
+ * images and always returns the same canned analysis, and answers chat
+ * questions by quoting the best-matching sentence of the passages sent.
+ */
+export class MockProvider implements AIProvider {
+    readonly id = 'mock';
+    readonly label = 'Offline demo (mock)';
+
+    async generate(request: GenerateRequest): Promise<string> {
+        request.signal?.throwIfAborted();
+        return JSON.stringify(fixtures[request.task](request));
+    }
+
+    startChat(): ChatSession {
+        return {
+            async *sendMessageStream(message: string) {
+                const answer = answerFromPassages(message);
+                for (const word of answer.split(/(?<= )/)) {
+                    yield word;
+                }
+            },
+        };
+    }
+}
@@ -0,0 +1,107 @@
+import type { AIProvider, ChatOptions, ChatSession, GenerateRequest } from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llava';
+
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | ContentPart[];
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API, such as
+ * Ollama, llama.cpp's server, LM Studio or vLLM.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+    readonly id = 'openai';
+    readonly label: string;
+    private readonly baseUrl: string;
+    private readonly model: string;
+    private readonly apiKey?: string;
+
+    constructor(options: { baseUrl?: string; model?: string; apiKey?: string }) {
+        this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.model = options.model || DEFAULT_MODEL;
+        this.apiKey = options.apiKey;
+        this.label = `${this.model} @ ${this.baseUrl}`;
+    }
+
+    private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers.Authorization = `Bearer ${this.apiKey}`;
+        }
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ model: this.model, ...body }),
+            signal,
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`The AI server responded with ${response.status}${detail ? `: ${detail}` : ''}`);
+        }
+        return response;
+    }
+
+    async generate(request: GenerateRequest): Promise<string> {
+        const content: ContentPart[] = [
+            ...(request.images ?? []).map((img): ContentPart => ({ type: 'image_url', image_url: { url: img.dataUrl } })),
+            { type: 'text', text: request.prompt },
+        ];
+        const response = await this.post({
+            ...(request.model ? { model: request.model } : {}),
+            messages: [{ role: 'user', content }],
+            response_format: request.schema
+                ? { type: 'json_schema', json_schema: { name: request.task, schema: request.schema } }
+                : undefined,
+        }, request.signal);
+        const data = await response.json();
+        return data.choices?.[0]?.message?.content ?? '';
+    }
+
+    startChat(options: ChatOptions): ChatSession {
+        const history: OpenAIMessage[] = [
+            { role: 'system', content: options.systemInstruction },
+            ...(options.history ?? []).map((message): OpenAIMessage => ({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text })),
+        ];
+        const post = this.post.bind(this);
+        return {
+            async *sendMessageStream(message: string) {
+                const turn: OpenAIMessage = { role: 'user', content: message };
+                const response = await post({ messages: [...history, turn], stream: true });
+                let reply = '';
+                for await (const delta of readEventStream(response)) {
+                    reply += delta;
+                    yield delta;
+                }
+                // Only a completed exchange joins the history, so a failed request leaves no unanswered turn behind.
+                history.push(turn, { role: 'assistant', content: reply });
+            },
+        };
+    }
+}
+
+/** Yields the content deltas of a server-sent-events chat completion stream. */
+async function* readEventStream(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            const data = line.replace(/^data:\s*/, '').trim();
+            if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+            const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+        }
+    }
+}
@@ -0,0 +1,49 @@
+import type { ChatMessage, ImageFile } from '../../types';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+/**
+ * A provider-neutral subset of JSON Schema. Each provider translates it into
+ * whatever its API expects for structured output.
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    enum?: string[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+}
+
+/** Identifies what a request is for, so fixture-backed providers can answer it. */
+export type AITask = 'summary' | 'thoroughSummary' | 'changeNote' | 'transcribe' | 'chunkClauses' | 'mergeSummary' | 'translate';
+
+export interface GenerateRequest {
+    task: AITask;
+    prompt: string;
+    images?: ImageFile[];
+    schema?: JsonSchema;
+    /** Overrides the provider's configured model for this request. */
+    model?: string;
+    /** Cancels the request when aborted. */
+    signal?: AbortSignal;
+}
+
+export interface ChatOptions {
+    systemInstruction: string;
+    /** Earlier turns, oldest first, that the conversation carries on from. */
+    history?: ChatMessage[];
+}
+
+export interface ChatSession {
+    /** Sends a user message and yields the reply as it streams in. */
+    sendMessageStream(message: string): AsyncGenerator<string>;
+}
+
+export interface AIProvider {
+    readonly id: ProviderId;
+    readonly label: string;
+    /** Runs a single (optionally multimodal) request and returns the raw text of the reply. */
+    generate(request: GenerateRequest): Promise<string>;
+    startChat(options: ChatOptions): ChatSession;
+}
@@ -0,0 +1,192 @@
+import type { ImageFile, PiiKind, RedactionRecord, SourceFile } from '../types';
+import { isImageFile } from './documentIngestion';
+import { maskRegions, type PixelBox } from './imageProcessing';
+import { findMatches } from './librarySearch';
+import type { OcrPage } from './localOcr';
+
+// Finding and masking personal details (names, contact details, account and
+// card numbers, addresses) before a document leaves the device. Detection is
+// pattern-based, so it errs towards flagging too much; the user reviews the
+// result and can keep a detail or add one that was missed.
+
+export interface PiiMatch {
+    kind: PiiKind;
+    start: number;
+    end: number;
+    text: string;
+}
+
+/** What the user decided in review. Details are matched by their text, so the choices survive edits to the text. */
+export interface RedactionChoices {
+    /** Detected details the user chose to send unmasked. */
+    kept: string[];
+    /** Further text the user asked to mask wherever it occurs. */
+    added: string[];
+}
+
+export const NO_CHOICES: RedactionChoices = { kept: [], added: [] };
+
+/** The order kinds are tried in; where matches overlap, the earlier kind wins. */
+const PATTERNS: { kind: PiiKind; pattern: RegExp; valid?: (text: string) => boolean }[] = [
+    { kind: 'email', pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu },
+    { kind: 'card', pattern: /\b(?:\d[ -]?){12,18}\d\b/g, valid: text => passesLuhn(text.replace(/\D/g, '')) },
+    // IBANs, then numbers introduced as account numbers.
+    { kind: 'account', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+    // The label is matched in any case but the number is not, so words after "account" are never taken for one.
+    { kind: 'account', pattern: /\b(?:[Aa](?:ccount|CCOUNT|cct|CCT)|[Aa]\/[Cc])\.?\s*(?:[Nn][Oo]\.?|[Nn](?:umber|UMBER)|#|:)\s*[:.]?\s*([A-Z0-9][A-Z0-9 -]{4,}[0-9])/g, valid: isMostlyDigits },
+    // Not after another digit group, so large amounts written with spaces ("1 500 000") are left alone.
+    { kind: 'phone', pattern: /(?<!\d[\s.,]?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?(?<!\d)\d{2,5}(?:[\s.-]?\d{2,6}){1,4}(?!\d)/g, valid: isPhoneNumber },
+    { kind: 'address', pattern: /\b(?:Address|Residing at|Resident of)\s*[:-]\s*([^\n]{4,120})/gi },
+    { kind: 'address', pattern: /\b(?:House|Flat|Apt\.?|Apartment|Holding)\s*(?:No\.?|#)?\s*[\w/-]+(?:,?\s*(?:Road|Rd\.?|Block|Sector|Lane|Section)\s*(?:No\.?|#)?\s*[\w/-]+)*/gi },
+    { kind: 'address', pattern: /\b\d{1,5}[A-Za-z]?,?\s+(?:[\p{Lu}][\p{L}.'-]*\s+){0,4}(?:Street|St\.?|Road|Rd\.?|Avenue|Ave\.?|Lane|Ln\.?|Boulevard|Blvd\.?|Drive|Way|Place|Court|Square)(?![\p{L}])/gu },
+    // Names are only recognised where the document introduces them, so clause text is left alone.
+    { kind: 'name', pattern: /\b(?:Name|Full name|Customer|Account holder|Signed by|Signature|Borrower|Tenant|Landlord|Employee|Client|Applicant)\s*[:-]\s*([\p{Lu}][\p{L}'.-]+(?:[ \t]+[\p{Lu}][\p{L}'.-]+){0,3})/gu },
+    { kind: 'name', pattern: /\b(?:Mr|Mrs|Ms|Miss|Dr|Md)\.?[ \t]+([\p{Lu}][\p{L}'-]+(?:[ \t]+[\p{Lu}][\p{L}'-]+){0,3})/gu },
+];
+
+function passesLuhn(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+/** Account numbers are mostly digits; a reference that is mostly letters is more likely a word or code. */
+function isMostlyDigits(text: string): boolean {
+    const characters = text.replace(/[\s-]/g, '');
+    return text.replace(/\D/g, '').length > characters.length / 2;
+}
+
+/** Long enough to be a phone number, and not a date or a run of clause numbers. */
+function isPhoneNumber(text: string): boolean {
+    const digits = text.replace(/\D/g, '').length;
+    if (digits < 9 || digits > 15) return false;
+    return !/^\d{4}[-./]\d{1,2}[-./]\d{1,2}$|^\d{1,2}[-./]\d{1,2}[-./]\d{2,4}$/.test(text.trim());
+}
+
+/** Keeps the earliest of overlapping matches, preferring the longer one where they start together. */
+function withoutOverlaps(matches: PiiMatch[]): PiiMatch[] {
+    const sorted = [...matches].sort((a, b) => a.start - b.start || b.end - a.end);
+    const kept: PiiMatch[] = [];
+    for (const match of sorted) {
+        if (kept.length && match.start < kept[kept.length - 1].end) continue;
+        kept.push(match);
+    }
+    return kept;
+}
+
+/** Finds the personal details in `text`, in order and without overlaps. */
+export function detectPii(text: string): PiiMatch[] {
+    const matches: PiiMatch[] = [];
+    for (const { kind, pattern, valid } of PATTERNS) {
+        for (const match of text.matchAll(pattern)) {
+            // Where the pattern captures, only the captured part (the name or number after its label) is personal.
+            const value = (match[1] ?? match[0]).trim();
+            const start = match.index! + match[0].lastIndexOf(value);
+            if (!valid || valid(value)) matches.push({ kind, start, end: start + value.length, text: value });
+        }
+    }
+    // A detail found by an earlier pattern is not found again by a later one.
+    const byPriority = matches.filter((match, i) => !matches.slice(0, i).some(other => other.start < match.end && match.start < other.end));
+    return withoutOverlaps(byPriority);
+}
+
+/** The details to mask in `text`: those detected and not kept, plus every occurrence of the text the user added. */
+export function findRedactions(text: string, choices: RedactionChoices): PiiMatch[] {
+    const detected = detectPii(text).filter(match => !choices.kept.includes(match.text));
+    // Matched on the original text, since lower-casing can change its length and shift the offsets.
+    const added = findMatches(text, choices.added.filter(Boolean))
+        .map(({ start, end }): PiiMatch => ({ kind: 'custom', start, end, text: text.slice(start, end) }));
+    return withoutOverlaps([...added, ...detected]);
+}
+
+/** Replaces each match with a label naming what was removed, e.g. "[EMAIL REMOVED]". */
+export function applyRedactions(text: string, matches: PiiMatch[]): string {
+    let result = '';
+    let cursor = 0;
+    for (const match of matches) {
+        result += `${text.slice(cursor, match.start)}[${match.kind.toUpperCase()} REMOVED]`;
+        cursor = match.end;
+    }
+    return result + text.slice(cursor);
+}
+
+/** Hides all but the first and last characters, so the record says what was removed without keeping it. */
+export function maskPreview(text: string): string {
+    const chars = Array.from(text);
+    if (chars.length <= 3) return '•'.repeat(chars.length);
+    return chars[0] + '•'.repeat(chars.length - 2) + chars[chars.length - 1];
+}
+
+export function toRecords(matches: PiiMatch[], source: string): RedactionRecord[] {
+    return matches.map(match => ({ kind: match.kind, source, preview: maskPreview(match.text) }));
+}
+
+/** Extra margin around masked words, in pixels, so descenders and accents are covered too. */
+const BOX_PADDING = 3;
+
+/**
+ * Finds the details to mask on a page image from its OCR words, which are
+ * joined back into lines of text to look for them. Returns the matches and
+ * the boxes of the words they cover.
+ */
+export function findImageRedactions(page: OcrPage, choices: RedactionChoices): { matches: PiiMatch[]; boxes: PixelBox[] } {
+    const offsets: number[] = [];
+    let text = '';
+    page.words.forEach((word, i) => {
+        if (i > 0) text += word.line === page.words[i - 1].line ? ' ' : '\n';
+        offsets.push(text.length);
+        text += word.text;
+    });
+    const matches = findRedactions(text, choices);
+    const boxes = page.words
+        .filter((word, i) => matches.some(match => offsets[i] < match.end && match.start < offsets[i] + word.text.length))
+        .map(({ box }) => ({ x0: box.x0 - BOX_PADDING, y0: box.y0 - BOX_PADDING, x1: box.x1 + BOX_PADDING, y1: box.y1 + BOX_PADDING }));
+    return { matches, boxes };
+}
+
+/** Finds what to mask on a reviewed page: in its OCR words if the image itself is sent, otherwise in its (corrected) text. */
+export function pageRedactions(page: OcrPage, choices: RedactionChoices, asImage: boolean): PiiMatch[] {
+    return asImage ? findImageRedactions(page, choices).matches : findRedactions(page.text, choices);
+}
+
+export interface RedactedSources {
+    /** What is sent for analysis, in page order. */
+    sent: SourceFile[];
+    /** The page images to keep with the report, masked wherever something was found on them. */
+    images: ImageFile[];
+    records: RedactionRecord[];
+}
+
+/**
+ * Prepares reviewed sources for sending. Page images are either sent masked
+ * or replaced by their reviewed text; text is sent with its details replaced.
+ * Without `choices` nothing is masked and only the OCR text stands in for images.
+ */
+export async function redactSources(sources: SourceFile[], pages: OcrPage[], choices: RedactionChoices | null, sendImages: boolean): Promise<RedactedSources> {
+    const result: RedactedSources = { sent: [], images: [], records: [] };
+    for (const source of sources) {
+        const page = pages.find(candidate => candidate.sourceId === source.id);
+        if (!page) continue;
+        const matches = choices ? pageRedactions(page, choices, isImageFile(source) && sendImages) : [];
+        result.records.push(...toRecords(matches, source.name));
+        if (isImageFile(source)) {
+            const { boxes } = choices ? findImageRedactions(page, choices) : { boxes: [] };
+            const image = boxes.length ? { ...source, dataUrl: await maskRegions(source.dataUrl, boxes) } : source;
+            result.images.push(image);
+            if (sendImages) {
+                result.sent.push(image);
+                continue;
+            }
+        }
+        const text = applyRedactions(page.text, matches).trim();
+        if (text) result.sent.push({ id: isImageFile(source) ? `${source.id}-text` : source.id, name: source.name, text });
+    }
+    return result;
+}
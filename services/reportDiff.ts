@@ -0,0 +1,231 @@
+import type { KeyClause, Localized, SummaryReport } from '../types';
+
+export interface WordChange {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+export type ParagraphChange =
+    | { type: 'same'; before: string; after: string }
+    | { type: 'added'; after: string }
+    | { type: 'removed'; before: string }
+    | { type: 'changed'; before: string; after: string; words: WordChange[] };
+
+export type ClauseChange =
+    | { type: 'added'; after: KeyClause }
+    | { type: 'removed'; before: KeyClause }
+    | { type: 'changed'; before: KeyClause; after: KeyClause };
+
+/** The AI-written, plain-language explanation of a diff. */
+export interface ChangeNote {
+    what_changed: Localized;
+}
+
+export interface ReportDiff {
+    older: SummaryReport;
+    newer: SummaryReport;
+    paragraphs: ParagraphChange[];
+    clauses: ClauseChange[];
+}
+
+// Paragraphs sharing at least this fraction of their words count as edits of each other.
+const PARAGRAPH_SIMILARITY_THRESHOLD = 0.5;
+// Blocks longer than this are split further, at line breaks and then at sentence ends,
+// since OCR text often has no blank lines at all.
+const MAX_PARAGRAPH_CHARS = 1200;
+// Past this many table cells the changed middle of two sequences is reported as a plain
+// replacement rather than aligned, which would take too long and too much memory.
+const MAX_ALIGNMENT_CELLS = 1_000_000;
+// The same limit for pairing up removed and added paragraphs, where each comparison is a word-set similarity.
+const MAX_PAIRING_COMPARISONS = 10_000;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function words(text: string): string[] {
+    return normalize(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function similarity(a: string, b: string): number {
+    const left = new Set(words(a));
+    const right = new Set(words(b));
+    if (left.size === 0 && right.size === 0) return 1;
+    let shared = 0;
+    left.forEach(word => { if (right.has(word)) shared++; });
+    return shared / (left.size + right.size - shared);
+}
+
+function splitLong(block: string, separators: RegExp[]): string[] {
+    if (block.length <= MAX_PARAGRAPH_CHARS || separators.length === 0) return [block];
+    const [separator, ...rest] = separators;
+    return block.split(separator).flatMap(part => splitLong(part, rest));
+}
+
+export function splitParagraphs(text: string): string[] {
+    return text.split(/\n\s*\n/)
+        .flatMap(block => splitLong(block, [/\n/, /(?<=[.!?;。।؟])\s+/]))
+        .map(paragraph => paragraph.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Longest-common-subsequence alignment of two sequences. Returns matched index
+ * pairs in order; everything in between is an insertion or deletion. The
+ * unchanged start and end are matched directly, and a middle too large to
+ * align is left unmatched, i.e. reported as removed and re-added.
+ */
+function alignSequences<T>(left: T[], right: T[], equals: (a: T, b: T) => boolean): [number, number][] {
+    let start = 0;
+    while (start < left.length && start < right.length && equals(left[start], right[start])) start++;
+    let endLeft = left.length;
+    let endRight = right.length;
+    while (endLeft > start && endRight > start && equals(left[endLeft - 1], right[endRight - 1])) {
+        endLeft--;
+        endRight--;
+    }
+    const pairs: [number, number][] = Array.from({ length: start }, (_, k) => [k, k]);
+    const suffix: [number, number][] = Array.from({ length: left.length - endLeft }, (_, k) => [endLeft + k, endRight + k]);
+    const rows = endLeft - start;
+    const columns = endRight - start;
+    if (rows * columns > MAX_ALIGNMENT_CELLS) return [...pairs, ...suffix];
+
+    const table: number[][] = Array.from({ length: rows + 1 }, () => new Array(columns + 1).fill(0));
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = columns - 1; j >= 0; j--) {
+            table[i][j] = equals(left[start + i], right[start + j])
+                ? table[i + 1][j + 1] + 1
+                : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+        if (equals(left[start + i], right[start + j])) {
+            pairs.push([start + i++, start + j++]);
+        } else if (table[i + 1][j] >= table[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return [...pairs, ...suffix];
+}
+
+export function diffWords(before: string, after: string): WordChange[] {
+    const left = before.split(/(\s+)/).filter(Boolean);
+    const right = after.split(/(\s+)/).filter(Boolean);
+    const changes: WordChange[] = [];
+    const push = (type: WordChange['type'], text: string) => {
+        const last = changes[changes.length - 1];
+        if (last?.type === type) last.text += text;
+        else changes.push({ type, text });
+    };
+    let i = 0;
+    let j = 0;
+    for (const [matchLeft, matchRight] of [...alignSequences(left, right, (a, b) => a === b), [left.length, right.length]]) {
+        while (i < matchLeft) push('removed', left[i++]);
+        while (j < matchRight) push('added', right[j++]);
+        if (matchLeft < left.length) {
+            push('same', left[i]);
+            i++;
+            j++;
+        }
+    }
+    return changes;
+}
+
+/**
+ * Pairs up the paragraphs that were removed and added between two matched
+ * paragraphs: similar ones become edits, the rest stay pure removals/additions.
+ */
+function pairGap(removed: string[], added: string[]): ParagraphChange[] {
+    const changes: ParagraphChange[] = [];
+    if (removed.length * added.length > MAX_PAIRING_COMPARISONS) {
+        return [
+            ...removed.map((before): ParagraphChange => ({ type: 'removed', before })),
+            ...added.map((after): ParagraphChange => ({ type: 'added', after })),
+        ];
+    }
+    let next = 0;
+    for (const before of removed) {
+        let bestIndex = -1;
+        let bestScore = PARAGRAPH_SIMILARITY_THRESHOLD;
+        for (let k = next; k < added.length; k++) {
+            const score = similarity(before, added[k]);
+            if (score >= bestScore) {
+                bestIndex = k;
+                bestScore = score;
+            }
+        }
+        if (bestIndex === -1) {
+            changes.push({ type: 'removed', before });
+            continue;
+        }
+        while (next < bestIndex) changes.push({ type: 'added', after: added[next++] });
+        const after = added[next++];
+        changes.push({ type: 'changed', before, after, words: diffWords(before, after) });
+    }
+    while (next < added.length) changes.push({ type: 'added', after: added[next++] });
+    return changes;
+}
+
+export function diffParagraphs(beforeText: string, afterText: string): ParagraphChange[] {
+    const left = splitParagraphs(beforeText);
+    const right = splitParagraphs(afterText);
+    const changes: ParagraphChange[] = [];
+    let i = 0;
+    let j = 0;
+    for (const [matchLeft, matchRight] of [...alignSequences(left, right, (a, b) => normalize(a) === normalize(b)), [left.length, right.length]]) {
+        changes.push(...pairGap(left.slice(i, matchLeft), right.slice(j, matchRight)));
+        if (matchLeft < left.length) {
+            changes.push({ type: 'same', before: left[matchLeft], after: right[matchRight] });
+        }
+        i = matchLeft + 1;
+        j = matchRight + 1;
+    }
+    return changes;
+}
+
+function clauseKey(clause: KeyClause): string {
+    return normalize(clause.clause.en).replace(/[^\p{L}\p{N} ]/gu, '');
+}
+
+// Explanations are reworded on every run, so only the rating and the quoted wording count as changes.
+function clauseChanged(before: KeyClause, after: KeyClause): boolean {
+    return before.severity !== after.severity
+        || normalize(before.quote ?? '') !== normalize(after.quote ?? '');
+}
+
+/**
+ * Matches clauses by title first, then by category plus wording similarity,
+ * since the model rarely names the same clause identically across runs.
+ */
+export function diffClauses(before: KeyClause[], after: KeyClause[]): ClauseChange[] {
+    const unmatched = [...after];
+    const changes: ClauseChange[] = [];
+    const take = (predicate: (candidate: KeyClause) => boolean) => {
+        const index = unmatched.findIndex(predicate);
+        return index === -1 ? undefined : unmatched.splice(index, 1)[0];
+    };
+    for (const clause of before) {
+        const match = take(candidate => clauseKey(candidate) === clauseKey(clause))
+            ?? take(candidate => !!clause.category && candidate.category === clause.category
+                && similarity(`${candidate.clause.en} ${candidate.quote ?? ''}`, `${clause.clause.en} ${clause.quote ?? ''}`) >= PARAGRAPH_SIMILARITY_THRESHOLD / 2);
+        if (!match) {
+            changes.push({ type: 'removed', before: clause });
+        } else if (clauseChanged(clause, match)) {
+            changes.push({ type: 'changed', before: clause, after: match });
+        }
+    }
+    return [...changes, ...unmatched.map((clause): ClauseChange => ({ type: 'added', after: clause }))];
+}
+
+/** Compares two reports, always treating the earlier one as the old version. */
+export function diffReports(a: SummaryReport, b: SummaryReport): ReportDiff {
+    const [older, newer] = a.timestamp <= b.timestamp ? [a, b] : [b, a];
+    return {
+        older,
+        newer,
+        paragraphs: diffParagraphs(older.full_text, newer.full_text),
+        clauses: diffClauses(older.key_clauses, newer.key_clauses),
+    };
+}
@@ -0,0 +1,188 @@
+import type { KeyClause, LanguageCode, RiskSeverity, SummaryReport } from '../types';
+import { LANGUAGES, inLanguage } from './languages';
+import { groupClausesBySection, riskLevel, sortClausesBySeverity } from './riskScoring';
+import { locateQuote } from './textSpans';
+import { translate, type MessageKey, type MessageParams } from './i18n';
+
+// Reports are exported in one of their languages, with the interface labels
+// (headings, categories, severities) in that language too. Everything is
+// written as UTF-8 text; the PDF is printed by the browser from the HTML
+// export, so Bengali and other complex scripts are shaped by the browser's
+// own text engine rather than a PDF library's.
+
+export type ExportFormat = 'pdf' | 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'markdown', 'json', 'html'];
+
+interface ExportedClause {
+    clause: KeyClause;
+    /** False when the clause has a quote that does not appear in the document text. */
+    quoteFound: boolean;
+}
+
+/** The report's clauses grouped by section, most severe first, as shown in the app. */
+function exportedSections(report: SummaryReport): { section?: string; clauses: ExportedClause[] }[] {
+    return groupClausesBySection(report.key_clauses).map(group => ({
+        section: group.section,
+        clauses: sortClausesBySeverity(group.clauses).map(clause => ({
+            clause,
+            quoteFound: !clause.quote || !!(clause.span ?? locateQuote(report.full_text, clause.quote)),
+        })),
+    }));
+}
+
+/** Interface messages in the export language. */
+const messagesIn = (lang: LanguageCode) => (key: MessageKey, params?: MessageParams) => translate(lang, key, params);
+
+const formatDate = (timestamp: string, lang: LanguageCode) => new Date(timestamp).toLocaleString(lang);
+
+/** A file name for the report, keeping letters of any script. */
+function fileName(report: SummaryReport, extension: string): string {
+    const slug = report.title.normalize('NFC').replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 80);
+    return `${slug || 'report'}.${extension}`;
+}
+
+export function reportToMarkdown(report: SummaryReport, lang: LanguageCode): string {
+    const t = messagesIn(lang);
+    const lines = [`# ${report.title}`, '', `_${t('export.analysedOn', { date: formatDate(report.timestamp, lang) })}_`, ''];
+    if (report.risk_score !== undefined) {
+        lines.push(`**${t('summary.overallRisk', { level: t(`severity.${riskLevel(report.risk_score)}`) })}** (${report.risk_score}/100)`, '');
+    }
+    lines.push(`## ${t('summary.summary')}`, '', inLanguage(report.summary, lang), '', `## ${t('summary.keyClauses')}`, '');
+    for (const group of exportedSections(report)) {
+        if (group.section) lines.push(`### ${group.section}`, '');
+        for (const { clause, quoteFound } of group.clauses) {
+            lines.push(`#### ${inLanguage(clause.clause, lang)}`, '');
+            const labels = [
+                clause.category && t(`category.${clause.category}`),
+                clause.severity && `**${t(`severity.${clause.severity}`)}**`,
+            ].filter(Boolean);
+            if (labels.length) lines.push(labels.join(' · '), '');
+            lines.push(inLanguage(clause.explanation, lang), '');
+            if (clause.rationale) lines.push(`_${clause.rationale}_`, '');
+            if (clause.quote) lines.push(`> “${clause.quote}”`, '');
+            if (!quoteFound) lines.push(`⚠ ${t('summary.quoteNotFound')}`, '');
+        }
+    }
+    return lines.join('\n');
+}
+
+/** The report exactly as stored, in every language it has. */
+export function reportToJson(report: SummaryReport): string {
+    return JSON.stringify(report, null, 2);
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const severityColours: Record<RiskSeverity, { border: string; badge: string; text: string }> = {
+    high: { border: '#dc2626', badge: '#fee2e2', text: '#991b1b' },
+    medium: { border: '#ca8a04', badge: '#fef9c3', text: '#854d0e' },
+    low: { border: '#16a34a', badge: '#dcfce7', text: '#166534' },
+};
+
+const HTML_STYLES = `
+* { -webkit-print-color-adjust: exact; print-color-adjust: exact; box-sizing: border-box; }
+body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, "Noto Sans", "Noto Sans Bengali", "Nirmala UI", "Vrinda", "Noto Sans Devanagari", "Noto Naskh Arabic", "Noto Nastaliq Urdu", Tahoma, sans-serif; color: #0f172a; line-height: 1.6; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+h1 { margin-bottom: 0.25rem; }
+.meta { color: #64748b; margin-top: 0; }
+.risk { display: inline-block; font-weight: 600; padding: 0.25rem 0.75rem; border-radius: 999px; border: 2px solid; }
+.section { text-transform: uppercase; letter-spacing: 0.05em; font-size: 0.85rem; color: #64748b; }
+.clause { border-inline-start: 4px solid; background: #f8fafc; border-radius: 6px; padding: 0.75rem 1rem; margin: 0.75rem 0; break-inside: avoid; }
+.clause h4 { margin: 0; display: inline; }
+.badge { display: inline-block; font-size: 0.75rem; font-weight: 600; padding: 0.1rem 0.5rem; border-radius: 999px; margin-inline-start: 0.5rem; background: #e2e8f0; }
+.rationale { font-style: italic; color: #475569; font-size: 0.9rem; }
+blockquote { margin: 0.5rem 0 0; padding-inline-start: 0.75rem; border-inline-start: 2px solid #cbd5e1; color: #475569; font-size: 0.9rem; }
+.warning { color: #c2410c; font-size: 0.8rem; font-weight: 600; }
+pre { white-space: pre-wrap; font-family: inherit; font-size: 0.85rem; color: #334155; }
+@media print { body { margin: 0; max-width: none; } }
+`;
+
+function clauseToHtml({ clause, quoteFound }: ExportedClause, lang: LanguageCode): string {
+    const t = messagesIn(lang);
+    const colours = severityColours[clause.severity ?? 'medium'];
+    return `<div class="clause" style="border-color: ${colours.border}">
+<h4 style="color: ${colours.text}">${escapeHtml(inLanguage(clause.clause, lang))}</h4>${clause.category ? `<span class="badge">${escapeHtml(t(`category.${clause.category}`))}</span>` : ''}${clause.severity ? `<span class="badge" style="background: ${colours.badge}; color: ${colours.text}">${escapeHtml(t(`severity.${clause.severity}`))}</span>` : ''}
+<p>${escapeHtml(inLanguage(clause.explanation, lang))}</p>
+${clause.rationale ? `<p class="rationale" dir="auto">${escapeHtml(clause.rationale)}</p>` : ''}
+${clause.quote ? `<blockquote dir="auto">“${escapeHtml(clause.quote)}”</blockquote>` : ''}
+${quoteFound ? '' : `<p class="warning">⚠ ${escapeHtml(t('summary.quoteNotFound'))}</p>`}
+</div>`;
+}
+
+/**
+ * A complete HTML document for the report with its styles inlined, so the
+ * single file opens anywhere without a network connection. The full text is
+ * left out of printed copies, where it would run to many pages.
+ */
+export function reportToHtml(report: SummaryReport, lang: LanguageCode, { fullText = true } = {}): string {
+    const t = messagesIn(lang);
+    const risk = report.risk_score !== undefined ? severityColours[riskLevel(report.risk_score)] : null;
+    const sections = exportedSections(report).map(group => `
+${group.section ? `<h3 class="section" dir="auto">${escapeHtml(group.section)}</h3>` : ''}
+${group.clauses.map(clause => clauseToHtml(clause, lang)).join('\n')}`).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="${lang}" dir="${LANGUAGES[lang].dir}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(report.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1 dir="auto">${escapeHtml(report.title)}</h1>
+<p class="meta">${escapeHtml(t('export.analysedOn', { date: formatDate(report.timestamp, lang) }))}</p>
+${risk ? `<p class="risk" style="border-color: ${risk.border}; color: ${risk.text}">${escapeHtml(t('summary.overallRisk', { level: t(`severity.${riskLevel(report.risk_score!)}`) }))} (${report.risk_score}/100)</p>` : ''}
+<h2>${escapeHtml(t('summary.summary'))}</h2>
+<p>${escapeHtml(inLanguage(report.summary, lang))}</p>
+<h2>${escapeHtml(t('summary.keyClauses'))}</h2>
+${sections}
+${fullText ? `<details>
+<summary>${escapeHtml(t('export.fullText'))}</summary>
+<pre dir="auto">${escapeHtml(report.full_text)}</pre>
+</details>` : ''}
+<footer class="meta"><small>${escapeHtml(t('app.title'))}</small></footer>
+</body>
+</html>`;
+}
+
+/** Saves text as a file through the browser's download prompt. */
+export function downloadFile(content: string, name: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.click();
+    // Revoked on the next tick, once the download has started.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Prints the report's HTML from a hidden frame; the browser's print dialog offers saving it as a PDF. */
+function printReport(report: SummaryReport, lang: LanguageCode): void {
+    const frame = document.createElement('iframe');
+    frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0;';
+    frame.srcdoc = reportToHtml(report, lang, { fullText: false });
+    frame.onload = () => {
+        const win = frame.contentWindow!;
+        win.onafterprint = () => frame.remove();
+        win.focus();
+        win.print();
+    };
+    document.body.appendChild(frame);
+}
+
+/** Exports a report in the given format, as a download or (for PDF) through the print dialog. */
+export function exportReport(report: SummaryReport, format: ExportFormat, lang: LanguageCode): void {
+    switch (format) {
+        case 'pdf':
+            return printReport(report, lang);
+        case 'markdown':
+            return downloadFile(reportToMarkdown(report, lang), fileName(report, 'md'), 'text/markdown');
+        case 'json':
+            return downloadFile(reportToJson(report), fileName(report, 'json'), 'application/json');
+        case 'html':
+            return downloadFile(reportToHtml(report, lang), fileName(report, 'html'), 'text/html');
+    }
+}
@@ -0,0 +1,532 @@
+import type { ChatMessage, ChatThread, KeyClause, ReportPage, SourceFile, SummaryReport } from '../types';
+import type { AnalysisJob, JobPage, QueuedAnalysis } from './analysisPipeline';
+import { DEFAULT_LANGUAGES } from './languages';
+
+const DB_NAME = 'tc-summarizer';
+const REPORTS_STORE = 'reports';
+const PAGES_STORE = 'pages';
+const JOBS_STORE = 'jobs';
+const CHATS_STORE = 'chats';
+const QUEUE_STORE = 'queue';
+const JOB_FILES_STORE = 'jobFiles';
+
+/** The localStorage key reports lived under before they moved to IndexedDB. */
+const LEGACY_STORAGE_KEY = 'savedSummaries';
+/** The localStorage key the library chat lived under before it moved to the chats store. */
+const LEGACY_LIBRARY_CHAT_KEY = 'libraryChat';
+
+/** The chats store key of the conversation across the whole library, which no report id can take. */
+export const LIBRARY_CHAT_ID = 'library';
+
+/**
+ * Schema migrations, applied in order inside the upgrade transaction. Entry
+ * `n` upgrades the database from version `n` to `n + 1`; append new entries,
+ * never edit shipped ones.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+    // 1: reports keyed by id, listed newest first via the timestamp index.
+    (db) => {
+        const reports = db.createObjectStore(REPORTS_STORE, { keyPath: 'id' });
+        reports.createIndex('timestamp', 'timestamp');
+    },
+    // 2: original page images, kept out of the reports store so listing stays cheap.
+    (db) => {
+        const pages = db.createObjectStore(PAGES_STORE, { keyPath: ['reportId', 'index'] });
+        pages.createIndex('reportId', 'reportId');
+    },
+    // 3: unfinished analysis jobs with their page images, so they survive a reload.
+    (db) => {
+        db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+    },
+    // 4: language-keyed summaries and explanations instead of fixed English and Bengali fields.
+    // The reports themselves are reshaped by migration 5, in the same pass as their clause titles.
+    (db, tx) => {
+        updateEach<AnalysisJob>(tx.objectStore(JOBS_STORE), job => ({ ...job, languages: job.languages ?? DEFAULT_LANGUAGES }));
+    },
+    // 5: language-keyed clause titles. One cursor brings each report all the way up to date: two
+    // cursors over the store in one transaction would each write back what they read first.
+    (db, tx) => {
+        updateEach(tx.objectStore(REPORTS_STORE), upgradeStoredReport);
+    },
+    // 6: chat threads, one per report.
+    (db) => {
+        db.createObjectStore(CHATS_STORE, { keyPath: 'reportId' });
+    },
+    // 7: analyses queued while offline.
+    (db) => {
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+    },
+    // 8: the page images of jobs and queued analyses, kept out of their records so progress writes stay small.
+    (db, tx) => {
+        const files = db.createObjectStore(JOB_FILES_STORE, { keyPath: ['ownerId', 'index'] });
+        updateEach<AnalysisJob>(tx.objectStore(JOBS_STORE), job => storeJob(files, job));
+        updateEach<QueuedAnalysis>(tx.objectStore(QUEUE_STORE), entry => storeQueued(files, entry));
+    },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+/** Rewrites every record of a store inside an upgrade transaction. */
+function updateEach<T>(store: IDBObjectStore, upgrade: (record: T) => unknown): void {
+    store.openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        cursor.update(upgrade(cursor.value));
+        cursor.continue();
+    };
+}
+
+/** A page image or text of a job or queued analysis, stored under the id of what it belongs to. */
+interface JobFile {
+    ownerId: string;
+    index: number;
+    file: SourceFile;
+}
+
+/** A job as stored: its pages' sources are in the job files store. */
+type StoredJob = Omit<AnalysisJob, 'pages'> & { pages: Omit<JobPage, 'source'>[] };
+
+/** A queued analysis as stored: the sources of its job and its images are in the job files store. */
+type StoredQueued = Omit<QueuedAnalysis, 'job' | 'images'> & { job: StoredJob };
+
+const ownerRange = (ownerId: string) => IDBKeyRange.bound([ownerId, 0], [ownerId, Infinity]);
+
+function putFiles(store: IDBObjectStore, ownerId: string, files: SourceFile[]): void {
+    store.delete(ownerRange(ownerId));
+    files.forEach((file, index) => store.put({ ownerId, index, file } satisfies JobFile));
+}
+
+const withoutSources = (job: AnalysisJob): StoredJob => ({ ...job, pages: job.pages.map(({ source: _, ...page }) => page) });
+
+const withoutFiles = ({ job, images: _, ...entry }: QueuedAnalysis): StoredQueued => ({ ...entry, job: withoutSources(job) });
+
+/** Writes the sources of the pages that changed since `previous`, such as an image replaced by its compressed upload. */
+function putChangedFiles(store: IDBObjectStore, job: AnalysisJob, previous: AnalysisJob): void {
+    job.pages.forEach((page, index) => {
+        if (page.source !== previous.pages[index]?.source) store.put({ ownerId: job.id, index, file: page.source } satisfies JobFile);
+    });
+}
+
+/** Writes a job's sources to the files store and returns the record to keep in the jobs store. */
+function storeJob(files: IDBObjectStore, job: AnalysisJob): StoredJob {
+    putFiles(files, job.id, job.pages.map(page => page.source));
+    return withoutSources(job);
+}
+
+function storeQueued(files: IDBObjectStore, entry: QueuedAnalysis): StoredQueued {
+    putFiles(files, entry.job.id, entry.job.pages.map(page => page.source));
+    putFiles(files, entry.id, entry.images);
+    return withoutFiles(entry);
+}
+
+/** Groups the stored job files by owner, in index order. */
+function filesByOwner(records: JobFile[]): Map<string, SourceFile[]> {
+    const owners = new Map<string, SourceFile[]>();
+    for (const record of [...records].sort((a, b) => a.index - b.index)) {
+        owners.set(record.ownerId, [...(owners.get(record.ownerId) ?? []), record.file]);
+    }
+    return owners;
+}
+
+/** Whether every page of a stored job still has its source; one whose first save failed does not. */
+const hasSources = (job: StoredJob, files: Map<string, SourceFile[]>) => (files.get(job.id)?.length ?? 0) === job.pages.length;
+
+const withSources = (job: StoredJob, files: Map<string, SourceFile[]>): AnalysisJob => ({
+    ...job,
+    pages: job.pages.map((page, index) => ({ ...page, source: files.get(job.id)![index] })),
+});
+
+/** How reports were stored before clause titles became language-keyed. */
+type PlainTitleReport = Omit<SummaryReport, 'key_clauses'> & {
+    key_clauses: (Omit<KeyClause, 'clause'> & { clause: string })[];
+};
+
+/** How reports were stored before summaries and explanations became language-keyed. */
+type LegacyReport = Omit<SummaryReport, 'summary' | 'key_clauses'> & {
+    summary_en: string;
+    summary_bn: string;
+    key_clauses: (Omit<KeyClause, 'clause' | 'explanation'> & { clause: string; explanation_en: string; explanation_bn: string })[];
+};
+
+/**
+ * Converts a report from the fixed `summary_en`/`summary_bn` and
+ * `explanation_en`/`explanation_bn` fields to language-keyed ones. Reports
+ * already in the new shape are returned unchanged.
+ */
+function toLanguageKeyed(report: PlainTitleReport | LegacyReport): PlainTitleReport {
+    if ('summary' in report) return report;
+    const { summary_en, summary_bn, key_clauses, ...rest } = report;
+    return {
+        ...rest,
+        summary: { en: summary_en ?? '', ...(summary_bn ? { bn: summary_bn } : {}) },
+        key_clauses: (key_clauses ?? []).map(({ explanation_en, explanation_bn, ...clause }) => ({
+            ...clause,
+            explanation: { en: explanation_en ?? '', ...(explanation_bn ? { bn: explanation_bn } : {}) },
+        })),
+    };
+}
+
+/** Turns plain English clause titles into language-keyed ones; titles already keyed are kept. */
+function withLocalizedTitles(report: PlainTitleReport | SummaryReport): SummaryReport {
+    return {
+        ...report,
+        key_clauses: (report.key_clauses ?? []).map(clause => ({
+            ...clause,
+            clause: typeof clause.clause === 'string' ? { en: clause.clause } : clause.clause,
+        })),
+    };
+}
+
+/** Brings a report saved by any earlier version of the app up to the current shape. */
+export function upgradeStoredReport(report: PlainTitleReport | LegacyReport | SummaryReport): SummaryReport {
+    return 'summary' in report ? withLocalizedTitles(report) : withLocalizedTitles(toLanguageKeyed(report));
+}
+
+export class StorageError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'StorageError';
+    }
+}
+
+function toStorageError(action: string, error: unknown): StorageError {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        return new StorageError(`Could not ${action}: your browser storage is full. Delete some saved summaries and try again.`, { cause: error });
+    }
+    const detail = error instanceof Error && error.message ? ` (${error.message})` : '';
+    return new StorageError(`Could not ${action}${detail}.`, { cause: error });
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+}
+
+/** Copies reports saved by older versions of the app out of localStorage, once. */
+async function importLegacyReports(db: IDBDatabase): Promise<void> {
+    const raw = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (raw === null) return;
+    let legacy: LegacyReport[];
+    try {
+        legacy = JSON.parse(raw);
+    } catch (error) {
+        console.error('Discarding unreadable legacy reports:', error);
+        window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return;
+    }
+    const tx = db.transaction(REPORTS_STORE, 'readwrite');
+    const store = tx.objectStore(REPORTS_STORE);
+    for (const report of Array.isArray(legacy) ? legacy : []) {
+        // `add` rather than `put`, so a half-finished earlier import never overwrites newer edits.
+        store.add(upgradeStoredReport(report)).onerror = (event) => event.preventDefault();
+    }
+    await transactionDone(tx);
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+/** Moves the library chat out of localStorage, once; a thread already in the chats store is kept. */
+async function importLegacyLibraryChat(db: IDBDatabase): Promise<void> {
+    const raw = window.localStorage.getItem(LEGACY_LIBRARY_CHAT_KEY);
+    if (raw === null) return;
+    let messages: ChatMessage[];
+    try {
+        messages = JSON.parse(raw);
+    } catch (error) {
+        console.error('Discarding unreadable library chat:', error);
+        window.localStorage.removeItem(LEGACY_LIBRARY_CHAT_KEY);
+        return;
+    }
+    if (Array.isArray(messages) && messages.length) {
+        const tx = db.transaction(CHATS_STORE, 'readwrite');
+        const thread: ChatThread = { reportId: LIBRARY_CHAT_ID, messages, updatedAt: new Date().toISOString() };
+        tx.objectStore(CHATS_STORE).add(thread).onerror = (event) => event.preventDefault();
+        await transactionDone(tx);
+    }
+    window.localStorage.removeItem(LEGACY_LIBRARY_CHAT_KEY);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const tx = request.transaction!;
+                for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                    MIGRATIONS[version](request.result, tx);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('Close other tabs of this app to finish upgrading its storage.'));
+        }).then(async db => {
+            await importLegacyReports(db);
+            await importLegacyLibraryChat(db);
+            return db;
+        }).catch(error => {
+            dbPromise = null;
+            throw toStorageError('open saved summaries', error);
+        });
+    }
+    return dbPromise;
+}
+
+/** Returns every saved report, newest first. */
+export const listReports = async (): Promise<SummaryReport[]> => {
+    const db = await openDatabase();
+    try {
+        const reports = await promisify<SummaryReport[]>(db.transaction(REPORTS_STORE).objectStore(REPORTS_STORE).index('timestamp').getAll());
+        return reports.reverse();
+    } catch (error) {
+        throw toStorageError('load saved summaries', error);
+    }
+};
+
+/** Saves a report, and its page images when given, in a single transaction. */
+export const putReport = async (report: SummaryReport, pages?: ReportPage[]): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([REPORTS_STORE, PAGES_STORE], 'readwrite');
+        tx.objectStore(REPORTS_STORE).put(pages ? { ...report, page_count: pages.length } : report);
+        if (pages) {
+            const pageStore = tx.objectStore(PAGES_STORE);
+            pageStore.delete(IDBKeyRange.bound([report.id, 0], [report.id, Infinity]));
+            pages.forEach(page => pageStore.put(page));
+        }
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('save the summary', error);
+    }
+};
+
+/**
+ * Saves a report that must not exist yet, with its page images and chat. Unlike
+ * `putReport` this never replaces anything: the whole write fails if a
+ * report, page or chat with the same key is already stored.
+ */
+export const addReport = async (report: SummaryReport, pages: ReportPage[] = [], chat?: ChatThread): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([REPORTS_STORE, PAGES_STORE, CHATS_STORE], 'readwrite');
+        tx.objectStore(REPORTS_STORE).add(report);
+        const pageStore = tx.objectStore(PAGES_STORE);
+        pages.forEach(page => pageStore.add(page));
+        if (chat) tx.objectStore(CHATS_STORE).add(chat);
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('restore the summary', error);
+    }
+};
+
+export const deleteReport = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([REPORTS_STORE, PAGES_STORE, CHATS_STORE], 'readwrite');
+        tx.objectStore(REPORTS_STORE).delete(id);
+        tx.objectStore(PAGES_STORE).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+        tx.objectStore(CHATS_STORE).delete(id);
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('delete the summary', error);
+    }
+};
+
+/** Returns the stored page images of a report in page order. */
+export const listReportPages = async (reportId: string): Promise<ReportPage[]> => {
+    const db = await openDatabase();
+    try {
+        const pages = await promisify<ReportPage[]>(db.transaction(PAGES_STORE).objectStore(PAGES_STORE).index('reportId').getAll(reportId));
+        return pages.sort((a, b) => a.index - b.index);
+    } catch (error) {
+        throw toStorageError('load the page images', error);
+    }
+};
+
+/** Returns the chat thread of a report, if one has been started. */
+export const getChatThread = async (reportId: string): Promise<ChatThread | undefined> => {
+    const db = await openDatabase();
+    try {
+        return await promisify<ChatThread | undefined>(db.transaction(CHATS_STORE).objectStore(CHATS_STORE).get(reportId));
+    } catch (error) {
+        throw toStorageError('load the conversation', error);
+    }
+};
+
+export const putChatThread = async (thread: ChatThread): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction(CHATS_STORE, 'readwrite');
+        tx.objectStore(CHATS_STORE).put(thread);
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('save the conversation', error);
+    }
+};
+
+export const deleteChatThread = async (reportId: string): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction(CHATS_STORE, 'readwrite');
+        tx.objectStore(CHATS_STORE).delete(reportId);
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('clear the conversation', error);
+    }
+};
+
+/** Returns the analysis jobs that have not finished, oldest first. */
+export const listJobs = async (): Promise<AnalysisJob[]> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([JOBS_STORE, JOB_FILES_STORE]);
+        const [jobs, files] = await Promise.all([
+            promisify<StoredJob[]>(tx.objectStore(JOBS_STORE).getAll()),
+            promisify<JobFile[]>(tx.objectStore(JOB_FILES_STORE).getAll()),
+        ]);
+        const owners = filesByOwner(files);
+        return jobs
+            .filter(job => hasSources(job, owners))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+            .map(job => withSources(job, owners));
+    } catch (error) {
+        throw toStorageError('load unfinished analyses', error);
+    }
+};
+
+/** Saves a new job together with its page images. */
+export const putJob = async (job: AnalysisJob): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([JOBS_STORE, JOB_FILES_STORE], 'readwrite');
+        tx.objectStore(JOBS_STORE).put(storeJob(tx.objectStore(JOB_FILES_STORE), job));
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('save the analysis progress', error);
+    }
+};
+
+/**
+ * Saves how far a job saved with `putJob` has got. Of its page images, only
+ * those that differ from the ones in `previous` are written again.
+ */
+export const putJobProgress = async (job: AnalysisJob, previous: AnalysisJob): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([JOBS_STORE, JOB_FILES_STORE], 'readwrite');
+        tx.objectStore(JOBS_STORE).put(withoutSources(job));
+        putChangedFiles(tx.objectStore(JOB_FILES_STORE), job, previous);
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('save the analysis progress', error);
+    }
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([JOBS_STORE, JOB_FILES_STORE], 'readwrite');
+        tx.objectStore(JOBS_STORE).delete(id);
+        tx.objectStore(JOB_FILES_STORE).delete(ownerRange(id));
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('remove the analysis', error);
+    }
+};
+
+/** Returns the analyses waiting for a connection, oldest first. */
+export const listQueue = async (): Promise<QueuedAnalysis[]> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([QUEUE_STORE, JOB_FILES_STORE]);
+        const [queue, files] = await Promise.all([
+            promisify<StoredQueued[]>(tx.objectStore(QUEUE_STORE).getAll()),
+            promisify<JobFile[]>(tx.objectStore(JOB_FILES_STORE).getAll()),
+        ]);
+        const owners = filesByOwner(files);
+        return queue
+            .filter(entry => hasSources(entry.job, owners))
+            .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))
+            .map(entry => ({
+                ...entry,
+                job: withSources(entry.job, owners),
+                images: (owners.get(entry.id) ?? []) as QueuedAnalysis['images'],
+            }));
+    } catch (error) {
+        throw toStorageError('load the queued analyses', error);
+    }
+};
+
+/** Queues an analysis together with its page images. */
+export const putQueued = async (entry: QueuedAnalysis): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([QUEUE_STORE, JOB_FILES_STORE], 'readwrite');
+        tx.objectStore(QUEUE_STORE).put(storeQueued(tx.objectStore(JOB_FILES_STORE), entry));
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('queue the analysis', error);
+    }
+};
+
+/** Saves how far a queued analysis has got; like `putJobProgress`, only changed page images are written. */
+export const putQueuedProgress = async (entry: QueuedAnalysis, previous: AnalysisJob): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([QUEUE_STORE, JOB_FILES_STORE], 'readwrite');
+        tx.objectStore(QUEUE_STORE).put(withoutFiles(entry));
+        putChangedFiles(tx.objectStore(JOB_FILES_STORE), entry.job, previous);
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('save the analysis progress', error);
+    }
+};
+
+export const deleteQueued = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([QUEUE_STORE, JOB_FILES_STORE], 'readwrite');
+        const queue = tx.objectStore(QUEUE_STORE);
+        const files = tx.objectStore(JOB_FILES_STORE);
+        queue.get(id).onsuccess = (event) => {
+            const entry = (event.target as IDBRequest<StoredQueued | undefined>).result;
+            if (entry) files.delete(ownerRange(entry.job.id));
+        };
+        queue.delete(id);
+        files.delete(ownerRange(id));
+        await transactionDone(tx);
+    } catch (error) {
+        throw toStorageError('remove the queued analysis', error);
+    }
+};
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+    persisted: boolean;
+}
+
+/** Reports how much of the browser's storage quota the app uses, where the browser supports it. */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+        navigator.storage.estimate(),
+        navigator.storage.persisted?.() ?? Promise.resolve(false),
+    ]);
+    return { usage, quota, persisted };
+};
+
+/** Asks the browser not to evict saved reports under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    return navigator.storage?.persist?.() ?? false;
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, indexCollection, indexDocument, searchCollection, searchPassages, tokenize } from './retrieval';
+
+const sentence = (n: number) => `Clause ${n} explains how the service handles cancellation and refunds. `;
+const longText = Array.from({ length: 60 }, (_, n) => sentence(n)).join('');
+
+describe('tokenize', () => {
+    it('lower-cases and drops common function words', () => {
+        expect(tokenize('What is THE Refund policy?')).toEqual(['refund', 'policy']);
+    });
+
+    it('folds simple English plurals but not words ending in ss', () => {
+        expect(tokenize('fees access charges')).toEqual(['fee', 'access', 'charge']);
+    });
+
+    it('keeps terms of other scripts', () => {
+        expect(tokenize('রিফান্ড নীতি')).toEqual(['রিফান্ড', 'নীতি']);
+    });
+
+    it('normalises compatibility characters', () => {
+        expect(tokenize('ｆｅｅ')).toEqual(['fee']);
+    });
+});
+
+describe('chunkText', () => {
+    it('returns short text as one trimmed passage', () => {
+        expect(chunkText('  Short terms.\n')).toEqual([{ index: 0, start: 2, end: 14, text: 'Short terms.' }]);
+    });
+
+    it('returns no passages for blank text', () => {
+        expect(chunkText(' \n ')).toEqual([]);
+    });
+
+    it('gives offsets that point back at the passage in the text', () => {
+        const passages = chunkText(longText, { maxChars: 300, overlap: 60 });
+        expect(passages.length).toBeGreaterThan(1);
+        passages.forEach((passage, index) => {
+            expect(passage.index).toBe(index);
+            expect(longText.slice(passage.start, passage.end)).toBe(passage.text);
+            expect(passage.text.length).toBeLessThanOrEqual(300);
+        });
+        expect(passages[passages.length - 1].end).toBe(longText.trimEnd().length);
+    });
+
+    it('overlaps consecutive passages', () => {
+        const passages = chunkText(longText, { maxChars: 300, overlap: 60 });
+        for (let i = 1; i < passages.length; i++) {
+            expect(passages[i].start).toBeLessThan(passages[i - 1].end);
+            expect(passages[i].start).toBeGreaterThan(passages[i - 1].start);
+        }
+    });
+
+    it('ends passages at sentence breaks and never starts one mid-word', () => {
+        const passages = chunkText(longText, { maxChars: 300, overlap: 60 });
+        passages.slice(0, -1).forEach(passage => expect(passage.text).toMatch(/\.$/));
+        passages.forEach(passage => {
+            if (passage.start > 0) expect(longText[passage.start - 1]).toMatch(/\s/);
+        });
+    });
+
+    it('still cuts text without any break at the limit', () => {
+        const passages = chunkText('x'.repeat(250), { maxChars: 100, overlap: 0 });
+        expect(passages.map(passage => passage.text.length)).toEqual([100, 100, 50]);
+    });
+});
+
+describe('searchPassages', () => {
+    const index = indexDocument([
+        'You may cancel at any time from your account settings.',
+        'We share your data with advertising partners.',
+        'Refunds are issued within 14 days of a cancellation request. Refunds go to the original payment method.',
+    ].join('\n\n'), { maxChars: 110, overlap: 0 });
+
+    it('ranks the passages that match the query best first', () => {
+        const ranked = searchPassages(index, 'how do refunds work after I cancel');
+        expect(ranked[0].passage.text).toMatch(/^Refunds are issued/);
+        expect(ranked.map(result => result.score)).toEqual([...ranked.map(result => result.score)].sort((a, b) => b - a));
+    });
+
+    it('leaves out passages that share no term with the query', () => {
+        const ranked = searchPassages(index, 'advertising');
+        expect(ranked).toHaveLength(1);
+        expect(ranked[0].passage.text).toMatch(/advertising partners/);
+    });
+
+    it('returns at most `limit` passages', () => {
+        expect(searchPassages(index, 'refunds cancel data', 2)).toHaveLength(2);
+    });
+
+    it('returns nothing for a query of only stop words', () => {
+        expect(searchPassages(index, 'what is the')).toEqual([]);
+    });
+});
+
+describe('searchCollection', () => {
+    const index = indexCollection([
+        { id: 'long', text: Array.from({ length: 5 }, (_, n) => `Arbitration clause ${n}: disputes go to arbitration.`).join('\n\n') },
+        { id: 'short', text: 'Any dispute is settled by arbitration in London.' },
+        { id: 'other', text: 'Prices may change with notice.' },
+    ], { maxChars: 60, overlap: 0 });
+
+    it('takes at most `perSource` passages from one document', () => {
+        const ranked = searchCollection(index, 'arbitration', 10, 2);
+        expect(ranked.filter(result => result.passage.sourceId === 'long')).toHaveLength(2);
+        expect(ranked.map(result => result.passage.sourceId)).toContain('short');
+        expect(ranked.map(result => result.passage.sourceId)).not.toContain('other');
+    });
+
+    it('keeps the ranking order and the overall limit', () => {
+        const ranked = searchCollection(index, 'arbitration dispute', 2, 1);
+        expect(ranked).toHaveLength(2);
+        expect(ranked[0].score).toBeGreaterThanOrEqual(ranked[1].score);
+        expect(new Set(ranked.map(result => result.passage.sourceId)).size).toBe(2);
+    });
+});
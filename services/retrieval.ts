@@ -0,0 +1,174 @@
+// A small lexical retriever for chatting with long documents: the text is cut
+// into overlapping passages and ranked against a question with BM25, so only
+// the few passages that matter are sent to the model. Everything here is plain
+// computation over strings, with no model or browser API involved.
+
+export interface Passage {
+    /** Position of the passage in the document, from 0. */
+    index: number;
+    /** Offsets of the passage in the document text. */
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface ChunkOptions {
+    /** Longest passage, in characters. */
+    maxChars?: number;
+    /** How many characters of the previous passage each one repeats, so a clause cut in two is still found whole. */
+    overlap?: number;
+}
+
+export interface PassageIndex<P extends Passage = Passage> {
+    passages: P[];
+    /** Term frequencies of each passage. */
+    termCounts: Map<string, number>[];
+    lengths: number[];
+    averageLength: number;
+    /** In how many passages each term occurs. */
+    documentFrequency: Map<string, number>;
+}
+
+export interface RankedPassage<P extends Passage = Passage> {
+    passage: P;
+    score: number;
+}
+
+// Standard BM25 parameters: term-frequency saturation and length normalisation.
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in', 'is',
+    'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'them', 'there', 'they', 'this', 'to',
+    'was', 'we', 'what', 'when', 'where', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Splits text into lower-cased terms of any script, dropping common English
+ * function words and folding simple English plurals ("fees" and "fee" match).
+ */
+export function tokenize(text: string): string[] {
+    const words = text.normalize('NFKC').toLocaleLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [];
+    return words
+        .filter(word => !STOP_WORDS.has(word))
+        .map(word => /^[a-z]{4,}$/.test(word) && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+}
+
+/** The best place at or before `limit` (and after `floor`) to end a passage: a paragraph, sentence or word break. */
+function breakBefore(text: string, floor: number, limit: number): number {
+    const window = text.slice(floor, limit);
+    for (const pattern of [/\n\s*\n/g, /[.!?।؟]["')\]]?\s/g, /\s/g]) {
+        let last = -1;
+        for (const match of window.matchAll(pattern)) {
+            last = match.index! + match[0].length;
+        }
+        if (last > 0) return floor + last;
+    }
+    return limit;
+}
+
+/** Cuts text into passages of at most `maxChars`, ending them at natural breaks where possible. */
+export function chunkText(text: string, { maxChars = 1200, overlap = 200 }: ChunkOptions = {}): Passage[] {
+    const passages: Passage[] = [];
+    let start = 0;
+    while (start < text.length) {
+        let end = text.length;
+        if (start + maxChars < text.length) {
+            end = breakBefore(text, start + Math.floor(maxChars / 2), start + maxChars);
+        }
+        const raw = text.slice(start, end);
+        const leading = raw.length - raw.trimStart().length;
+        const body = raw.trim();
+        if (body) {
+            passages.push({ index: passages.length, start: start + leading, end: start + leading + body.length, text: body });
+        }
+        if (end >= text.length) break;
+        // Step back by the overlap, then forward to the next word so passages don't start mid-word.
+        let next = Math.max(start + 1, end - overlap);
+        while (next < end && !/\s/.test(text[next - 1])) next++;
+        start = next;
+    }
+    return passages;
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    return counts;
+}
+
+export function buildIndex<P extends Passage>(passages: P[]): PassageIndex<P> {
+    const termCounts = passages.map(passage => countTerms(tokenize(passage.text)));
+    const lengths = termCounts.map(counts => Array.from(counts.values()).reduce((sum, count) => sum + count, 0));
+    const documentFrequency = new Map<string, number>();
+    for (const counts of termCounts) {
+        for (const term of counts.keys()) {
+            documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+        }
+    }
+    return {
+        passages,
+        termCounts,
+        lengths,
+        averageLength: lengths.reduce((sum, length) => sum + length, 0) / Math.max(1, lengths.length),
+        documentFrequency,
+    };
+}
+
+/** Chunks and indexes a document in one go. */
+export function indexDocument(text: string, options?: ChunkOptions): PassageIndex {
+    return buildIndex(chunkText(text, options));
+}
+
+/**
+ * Ranks passages against a query with BM25 and returns the best `limit` of
+ * them, best first. Passages sharing no term with the query are left out, so
+ * the result may be shorter than `limit`, or empty.
+ */
+export function searchPassages<P extends Passage>(index: PassageIndex<P>, query: string, limit = 5): RankedPassage<P>[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const total = index.passages.length;
+    const ranked: RankedPassage<P>[] = [];
+    index.passages.forEach((passage, i) => {
+        let score = 0;
+        for (const term of terms) {
+            const frequency = index.termCounts[i].get(term);
+            if (!frequency) continue;
+            const documents = index.documentFrequency.get(term) ?? 0;
+            const idf = Math.log(1 + (total - documents + 0.5) / (documents + 0.5));
+            const normalisedLength = 1 - B + B * (index.lengths[i] / (index.averageLength || 1));
+            score += idf * (frequency * (K1 + 1)) / (frequency + K1 * normalisedLength);
+        }
+        if (score > 0) ranked.push({ passage, score });
+    });
+    return ranked.sort((a, b) => b.score - a.score || a.passage.index - b.passage.index).slice(0, limit);
+}
+
+/** A passage of one document in a collection. */
+export interface SourcedPassage extends Passage {
+    /** Identifies the document the passage comes from. */
+    sourceId: string;
+}
+
+/** Chunks several documents into one index, so they can be searched together. */
+export function indexCollection(documents: { id: string; text: string }[], options?: ChunkOptions): PassageIndex<SourcedPassage> {
+    return buildIndex(documents.flatMap(document => chunkText(document.text, options).map(passage => ({ ...passage, sourceId: document.id }))));
+}
+
+/**
+ * Like `searchPassages`, but takes at most `perSource` passages from any one
+ * document, so a question about many documents is not answered from the one
+ * that happens to discuss the topic at greatest length.
+ */
+export function searchCollection(index: PassageIndex<SourcedPassage>, query: string, limit = 10, perSource = 2): RankedPassage<SourcedPassage>[] {
+    const taken = new Map<string, number>();
+    return searchPassages(index, query, index.passages.length).filter(({ passage }) => {
+        const count = taken.get(passage.sourceId) ?? 0;
+        if (count >= perSource) return false;
+        taken.set(passage.sourceId, count + 1);
+        return true;
+    }).slice(0, limit);
+}
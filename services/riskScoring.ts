@@ -0,0 +1,62 @@
+import type { ClauseCategory, KeyClause, RiskSeverity } from '../types';
+
+export const CLAUSE_CATEGORIES: ClauseCategory[] = [
+    'auto_renewal',
+    'data_sharing',
+    'arbitration',
+    'liability',
+    'termination',
+    'changes_to_terms',
+    'payment',
+    'other',
+];
+
+export const RISK_SEVERITIES: RiskSeverity[] = ['low', 'medium', 'high'];
+
+// How much the worst clause of each category contributes to the document score.
+const SEVERITY_WEIGHT: Record<RiskSeverity, number> = {
+    low: 0.05,
+    medium: 0.15,
+    high: 0.35,
+};
+
+const SEVERITY_RANK: Record<RiskSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Combines clause severities into a 0-100 score. Only the most severe clause
+ * of each category counts, and each category independently "adds risk": high
+ * severity across several categories saturates towards 100, while a longer
+ * list of clauses in the same categories (as thorough mode finds) scores the same.
+ */
+export function computeRiskScore(clauses: KeyClause[]): number {
+    const worst = new Map<ClauseCategory, RiskSeverity>();
+    for (const clause of clauses) {
+        const category = clause.category ?? 'other';
+        const severity = clause.severity ?? 'low';
+        const current = worst.get(category);
+        if (!current || SEVERITY_RANK[severity] < SEVERITY_RANK[current]) worst.set(category, severity);
+    }
+    const safe = Array.from(worst.values()).reduce((acc, severity) => acc * (1 - SEVERITY_WEIGHT[severity]), 1);
+    return Math.round((1 - safe) * 100);
+}
+
+export function riskLevel(score: number): RiskSeverity {
+    if (score >= 67) return 'high';
+    if (score >= 34) return 'medium';
+    return 'low';
+}
+
+/** Returns the clauses most severe first, keeping the model's order within a severity. */
+export function sortClausesBySeverity<T extends KeyClause>(clauses: T[]): T[] {
+    return [...clauses].sort((a, b) => SEVERITY_RANK[a.severity ?? 'low'] - SEVERITY_RANK[b.severity ?? 'low']);
+}
+
+/** Groups clauses by section in document order; clauses without a section form a single unnamed group. */
+export function groupClausesBySection<T extends KeyClause>(clauses: T[]): { section?: string; clauses: T[] }[] {
+    const groups = new Map<string | undefined, T[]>();
+    for (const clause of clauses) {
+        const section = clause.section?.trim() || undefined;
+        groups.set(section, [...(groups.get(section) ?? []), clause]);
+    }
+    return Array.from(groups, ([section, grouped]) => ({ section, clauses: grouped }));
+}
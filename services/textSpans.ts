@@ -0,0 +1,107 @@
+import type { Citation, TextSpan } from '../types';
+
+interface NormalizedText {
+    text: string;
+    /** For each code unit of `text`, where the original character it came from starts. */
+    offsets: number[];
+    /** For each code unit of `text`, where the original character it came from ends. */
+    ends: number[];
+}
+
+/**
+ * Lower-cases, folds typographic quotes and dashes, and collapses whitespace
+ * runs, remembering where every kept character came from. Models rarely quote
+ * OCR output byte-for-byte, so matching is done on this form. Lower-casing can
+ * change a character's length ('İ' becomes two code units), so every unit it
+ * produces is mapped back to the whole original character.
+ */
+function normalize(source: string): NormalizedText {
+    let text = '';
+    const offsets: number[] = [];
+    const ends: number[] = [];
+    let pendingSpace = false;
+    for (let i = 0; i < source.length;) {
+        const original = String.fromCodePoint(source.codePointAt(i)!);
+        const end = i + original.length;
+        if (/\s/.test(original)) {
+            pendingSpace = text.length > 0;
+            i = end;
+            continue;
+        }
+        if (pendingSpace) {
+            text += ' ';
+            offsets.push(i - 1);
+            ends.push(i);
+            pendingSpace = false;
+        }
+        const char = original.toLowerCase().replace(/[‘’`]/, "'").replace(/[“”]/, '"').replace(/[–—]/, '-');
+        text += char;
+        for (let unit = 0; unit < char.length; unit++) {
+            offsets.push(i);
+            ends.push(end);
+        }
+        i = end;
+    }
+    return { text, offsets, ends };
+}
+
+/**
+ * Finds where a quoted passage appears in the document. Returns `undefined`
+ * when the quote cannot be found even after normalisation.
+ */
+export function locateQuote(fullText: string, quote: string | undefined): TextSpan | undefined {
+    if (!quote?.trim()) return undefined;
+    const exact = fullText.indexOf(quote);
+    if (exact !== -1) {
+        return { start: exact, end: exact + quote.length };
+    }
+    const haystack = normalize(fullText);
+    const needle = normalize(quote.replace(/^["'“”…\s.]+|["'“”…\s.]+$/g, '')).text;
+    if (!needle) return undefined;
+    const index = haystack.text.indexOf(needle);
+    if (index === -1) return undefined;
+    return {
+        start: haystack.offsets[index],
+        end: haystack.ends[index + needle.length - 1],
+    };
+}
+
+/** Prefix the chat assistant is told to put before each supporting quote. */
+export const QUOTE_MARKER = 'QUOTE:';
+
+/**
+ * Splits a chat reply into the answer and the quotes on its `QUOTE:` lines.
+ * Works on partial, still-streaming replies too, so quote lines never flash
+ * up in the answer; it is cheap enough to run on every streamed chunk.
+ */
+export function splitCitations(reply: string): { text: string; quotes: string[] } {
+    const answerLines: string[] = [];
+    const quotes: string[] = [];
+    const lines = reply.split('\n');
+    lines.forEach((line, index) => {
+        const trimmed = line.trim();
+        if (trimmed.toUpperCase().startsWith(QUOTE_MARKER)) {
+            const quote = trimmed.slice(QUOTE_MARKER.length).trim().replace(/^["“]|["”]$/g, '');
+            if (quote) {
+                quotes.push(quote);
+            }
+            return;
+        }
+        // The last line of a streaming reply may be the start of a marker ("QUO").
+        const isPartialMarker = index === lines.length - 1 && trimmed && QUOTE_MARKER.startsWith(trimmed.toUpperCase());
+        if (!isPartialMarker) {
+            answerLines.push(line);
+        }
+    });
+    return { text: answerLines.join('\n').trim(), quotes };
+}
+
+/**
+ * Splits a finished chat reply like `splitCitations` and locates each quote
+ * in the document, which means normalising the whole document: call it once
+ * the reply is complete, not per chunk.
+ */
+export function extractCitations(reply: string, fullText: string): { text: string; citations: Citation[] } {
+    const { text, quotes } = splitCitations(reply);
+    return { text, citations: quotes.map(quote => ({ quote, span: locateQuote(fullText, quote) })) };
+}
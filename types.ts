@@ -5,10 +5,56 @@ export interface ImageFile {
   dataUrl: string;
 }
 
+/** A document, or one page of it, whose text could be read without OCR. */
+export interface TextFile {
+  id: string;
+  name: string;
+  text: string;
+}
+
+/** One unit of analysis input, in reading order. */
+export type SourceFile = ImageFile | TextFile;
+
+export type LanguageCode = 'en' | 'bn' | 'hi' | 'ur' | 'es' | 'ar';
+
+/** Text in several languages, keyed by language code. English is always present. */
+export type Localized = Partial<Record<LanguageCode, string>> & { en: string };
+
+export type ClauseCategory =
+  | 'auto_renewal'
+  | 'data_sharing'
+  | 'arbitration'
+  | 'liability'
+  | 'termination'
+  | 'changes_to_terms'
+  | 'payment'
+  | 'other';
+
+export type RiskSeverity = 'low' | 'medium' | 'high';
+
+export type AnalysisMode = 'quick' | 'thorough';
+
+/** Character offsets into `SummaryReport.full_text`, end exclusive. */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
 export interface KeyClause {
-  clause: string;
-  explanation_en: string;
-  explanation_bn: string;
+  /** The clause's title in each language the report has been translated into. */
+  clause: Localized;
+  explanation: Localized;
+  // Risk fields are absent on reports saved before clauses were scored.
+  category?: ClauseCategory;
+  severity?: RiskSeverity;
+  /** One sentence on why the clause got its severity. */
+  rationale?: string;
+  /** Heading of the document section the clause belongs to. */
+  section?: string;
+  /** The clause's wording as it appears in the document. */
+  quote?: string;
+  /** Where `quote` was found in `full_text`; unset when it could not be located. */
+  span?: TextSpan;
 }
 
 export interface SummaryReport {
@@ -16,12 +62,88 @@ export interface SummaryReport {
   title: string;
   timestamp: string;
   full_text: string;
-  summary_en: string;
-  summary_bn: string;
+  /** The summary in each language the report has been translated into. */
+  summary: Localized;
   key_clauses: KeyClause[];
+  /** Overall document risk from 0 (harmless) to 100, derived from the clause severities. */
+  risk_score?: number;
+  analysis_mode?: AnalysisMode;
+  /** Number of original page images stored alongside the report, if any. */
+  page_count?: number;
+  /** Number of pages and texts the document was analysed from; more than `page_count` when some were text. */
+  source_count?: number;
+  /** The company or service the terms belong to, as entered by the user. */
+  company?: string;
+  /** User-chosen labels for organising the library. */
+  tags?: string[];
+  /** Chat answers pinned to the report, oldest first. */
+  notes?: ReportNote[];
+  /** Personal details masked before the document was sent for analysis. */
+  redactions?: RedactionRecord[];
+}
+
+/** An original page image kept with a saved report. Stored apart from the report itself. */
+export interface ReportPage {
+  reportId: string;
+  index: number;
+  name: string;
+  image: Blob;
+  thumbnail: Blob;
+}
+
+/** A passage of the document that a chat answer relies on. */
+export interface Citation {
+    quote: string;
+    /** Where the quote was found in the document; unset when it could not be located. */
+    span?: TextSpan;
+    /** The saved report the quote comes from, for answers drawn from the whole library. */
+    reportId?: string;
+}
+
+/** A passage of the document that was given to the model with a question. */
+export interface PassageRef {
+    /** The number the answer refers to it by, e.g. `[2]`. */
+    number: number;
+    span: TextSpan;
+    /** The saved report the passage comes from, for answers drawn from the whole library. */
+    reportId?: string;
 }
 
 export interface ChatMessage {
     role: 'user' | 'model';
     text: string;
+    citations?: Citation[];
+    /** The passages a model answer says it used. */
+    passages?: PassageRef[];
+    /** Set on the placeholder shown when a reply failed; such turns are not given back to the model. */
+    failed?: boolean;
+}
+
+/** The conversation about a saved report. Stored apart from the report itself. */
+export interface ChatThread {
+    /** The report's id, or `LIBRARY_CHAT_ID` for the conversation across the whole library. */
+    reportId: string;
+    messages: ChatMessage[];
+    updatedAt: string;
+}
+
+/** A chat answer the user pinned to a report. */
+export interface ReportNote {
+    id: string;
+    question: string;
+    answer: string;
+    citations?: Citation[];
+    passages?: PassageRef[];
+    timestamp: string;
+}
+
+export type PiiKind = 'email' | 'phone' | 'card' | 'account' | 'address' | 'name' | 'custom';
+
+/** One personal detail that was masked before sending. The detail itself is not kept. */
+export interface RedactionRecord {
+    kind: PiiKind;
+    /** The page or file it was found in. */
+    source: string;
+    /** The detail with all but its first and last characters hidden, e.g. "j••••••m". */
+    preview: string;
 }